@@ -0,0 +1,12 @@
+// Scrapers parse local dates - pin the timezone so golden files are stable
+process.env.TZ = 'Europe/Prague';
+
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }],
+  },
+};
@@ -0,0 +1,83 @@
+-- CreateTable
+CREATE TABLE "ScrapeRun" (
+    "id" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+    "errorMessage" TEXT,
+
+    CONSTRAINT "ScrapeRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ScrapeRunSource" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "executionTime" INTEGER,
+    "found" INTEGER NOT NULL DEFAULT 0,
+    "parsed" INTEGER NOT NULL DEFAULT 0,
+    "missingDate" INTEGER NOT NULL DEFAULT 0,
+    "deduplicated" INTEGER NOT NULL DEFAULT 0,
+    "geocoded" INTEGER NOT NULL DEFAULT 0,
+    "outOfRadius" INTEGER NOT NULL DEFAULT 0,
+    "stored" INTEGER NOT NULL DEFAULT 0,
+    "updated" INTEGER NOT NULL DEFAULT 0,
+    "unchanged" INTEGER NOT NULL DEFAULT 0,
+    "networkErrors" INTEGER NOT NULL DEFAULT 0,
+    "selectorMisses" INTEGER NOT NULL DEFAULT 0,
+    "parseFailures" INTEGER NOT NULL DEFAULT 0,
+    "firecrawlUnavailable" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScrapeRunSource_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScrapeRun_startedAt_idx" ON "ScrapeRun"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "ScrapeRunSource_runId_idx" ON "ScrapeRunSource"("runId");
+
+-- CreateIndex
+CREATE INDEX "ScrapeRunSource_source_createdAt_idx" ON "ScrapeRunSource"("source", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ScrapeRunSource" ADD CONSTRAINT "ScrapeRunSource_runId_fkey" FOREIGN KEY ("runId") REFERENCES "ScrapeRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: ScrapeLog had no run id, so rows logged in the same minute become one run
+INSERT INTO "ScrapeRun" ("id", "trigger", "status", "startedAt", "finishedAt", "errorMessage")
+SELECT
+    'legacy-' || md5(date_trunc('minute', "createdAt")::text),
+    'legacy',
+    CASE
+        WHEN bool_or("source" = 'workflow') OR bool_and("status" = 'error') THEN 'error'
+        WHEN bool_or("status" <> 'success') THEN 'partial'
+        ELSE 'success'
+    END,
+    min("createdAt"),
+    max("createdAt"),
+    max(CASE WHEN "source" = 'workflow' THEN "errorMessage" END)
+FROM "ScrapeLog"
+GROUP BY date_trunc('minute', "createdAt");
+
+INSERT INTO "ScrapeRunSource" ("id", "runId", "source", "status", "executionTime", "found", "parsed", "errors", "createdAt")
+SELECT
+    "id",
+    'legacy-' || md5(date_trunc('minute', "createdAt")::text),
+    "source",
+    "status",
+    "executionTime",
+    "eventsFound",
+    "eventsFound",
+    CASE WHEN "errorMessage" IS NULL THEN NULL ELSE jsonb_build_array("errorMessage") END,
+    "createdAt"
+FROM "ScrapeLog"
+WHERE "source" <> 'workflow';
+
+-- DropTable (replaced by ScrapeRun / ScrapeRunSource)
+DROP TABLE "ScrapeLog";
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "ScrapeRunSource" ADD COLUMN     "dateFillRate" DOUBLE PRECISION,
+ADD COLUMN     "priceFillRate" DOUBLE PRECISION,
+ADD COLUMN     "imageFillRate" DOUBLE PRECISION,
+ADD COLUMN     "locationFillRate" DOUBLE PRECISION,
+ADD COLUMN     "degraded" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "degradedReasons" TEXT[];
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "EventRevision" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "runId" TEXT,
+    "field" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "oldValue" JSONB,
+    "newValue" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventRevision_eventId_createdAt_idx" ON "EventRevision"("eventId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "EventRevision_runId_idx" ON "EventRevision"("runId");
+
+-- AddForeignKey
+ALTER TABLE "EventRevision" ADD CONSTRAINT "EventRevision_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventRevision" ADD CONSTRAINT "EventRevision_runId_fkey" FOREIGN KEY ("runId") REFERENCES "ScrapeRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'active',
+ADD COLUMN     "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "missedRuns" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Event_status_idx" ON "Event"("status");
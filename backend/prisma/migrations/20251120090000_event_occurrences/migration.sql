@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "recurrenceRule" TEXT;
+
+-- CreateTable
+CREATE TABLE "EventOccurrence" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "startDateTime" TIMESTAMP(3) NOT NULL,
+    "endDateTime" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventOccurrence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventOccurrence_startDateTime_idx" ON "EventOccurrence"("startDateTime");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventOccurrence_eventId_startDateTime_key" ON "EventOccurrence"("eventId", "startDateTime");
+
+-- AddForeignKey
+ALTER TABLE "EventOccurrence" ADD CONSTRAINT "EventOccurrence_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing events get a single occurrence; the next scrape run expands them
+INSERT INTO "EventOccurrence" ("id", "eventId", "startDateTime", "endDateTime")
+SELECT gen_random_uuid()::text, "id", "startDateTime", "endDateTime" FROM "Event";
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "venueId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Venue" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT[],
+    "address" TEXT,
+    "normalizedAddress" TEXT,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "distanceFromPrague" DOUBLE PRECISION,
+    "hasIndoor" BOOLEAN,
+    "hasOutdoor" BOOLEAN,
+    "strollerAccess" BOOLEAN,
+    "changingTable" BOOLEAN,
+    "parking" BOOLEAN,
+    "openingHours" TEXT[],
+    "website" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Venue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Venue_normalizedAddress_idx" ON "Venue"("normalizedAddress");
+
+-- CreateIndex
+CREATE INDEX "Event_venueId_idx" ON "Event"("venueId");
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_venueId_fkey" FOREIGN KEY ("venueId") REFERENCES "Venue"("id") ON DELETE SET NULL ON UPDATE CASCADE;
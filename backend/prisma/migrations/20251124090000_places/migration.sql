@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "Place" (
+    "id" TEXT NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "locationName" TEXT,
+    "address" TEXT,
+    "venueId" TEXT,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "distanceFromPrague" DOUBLE PRECISION,
+    "category" TEXT,
+    "ageMin" INTEGER,
+    "ageMax" INTEGER,
+    "adultPrice" DOUBLE PRECISION,
+    "childPrice" DOUBLE PRECISION,
+    "familyPrice" DOUBLE PRECISION,
+    "isOutdoor" BOOLEAN NOT NULL DEFAULT false,
+    "openingHours" TEXT[],
+    "seasonMonths" INTEGER[],
+    "imageUrl" TEXT,
+    "url" TEXT,
+    "scoreToddler" INTEGER NOT NULL DEFAULT 0,
+    "scoreChild" INTEGER NOT NULL DEFAULT 0,
+    "scoreFamily" INTEGER NOT NULL DEFAULT 0,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Place_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Place_externalId_key" ON "Place"("externalId");
+
+-- CreateIndex
+CREATE INDEX "Place_venueId_idx" ON "Place"("venueId");
+
+-- CreateIndex
+CREATE INDEX "Place_scoreToddler_idx" ON "Place"("scoreToddler");
+
+-- CreateIndex
+CREATE INDEX "Place_scoreChild_idx" ON "Place"("scoreChild");
+
+-- CreateIndex
+CREATE INDEX "Place_scoreFamily_idx" ON "Place"("scoreFamily");
+
+-- AddForeignKey
+ALTER TABLE "Place" ADD CONSTRAINT "Place_venueId_fkey" FOREIGN KEY ("venueId") REFERENCES "Venue"("id") ON DELETE SET NULL ON UPDATE CASCADE;
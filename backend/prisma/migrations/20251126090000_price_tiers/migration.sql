@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "priceTiers" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN "priceFrom" DOUBLE PRECISION;
+
+-- Existing events: the adult price was the filter reference
+UPDATE "Event" SET "priceFrom" = "adultPrice";
+
+-- CreateIndex
+CREATE INDEX "Event_priceFrom_idx" ON "Event"("priceFrom");
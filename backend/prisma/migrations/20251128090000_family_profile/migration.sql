@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Preference" ADD COLUMN "adults" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN "childAges" DOUBLE PRECISION[] DEFAULT ARRAY[]::DOUBLE PRECISION[];
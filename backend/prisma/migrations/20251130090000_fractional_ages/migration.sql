@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Event" ALTER COLUMN "ageMin" SET DATA TYPE DOUBLE PRECISION,
+ALTER COLUMN "ageMax" SET DATA TYPE DOUBLE PRECISION,
+ADD COLUMN "ageConfidence" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Place" ALTER COLUMN "ageMin" SET DATA TYPE DOUBLE PRECISION,
+ALTER COLUMN "ageMax" SET DATA TYPE DOUBLE PRECISION,
+ADD COLUMN "ageConfidence" DOUBLE PRECISION;
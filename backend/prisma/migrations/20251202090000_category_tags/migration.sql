@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "Place" ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Existing rows are tagged with their category until reclassified
+UPDATE "Event" SET "tags" = ARRAY["category"] WHERE "category" IS NOT NULL AND "category" <> 'other';
+UPDATE "Place" SET "tags" = ARRAY["category"] WHERE "category" IS NOT NULL AND "category" <> 'other';
+
+-- CreateIndex
+CREATE INDEX "Event_tags_idx" ON "Event" USING GIN ("tags");
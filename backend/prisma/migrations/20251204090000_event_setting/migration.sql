@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "setting" TEXT NOT NULL DEFAULT 'unknown';
+
+-- AlterTable
+ALTER TABLE "Place" ADD COLUMN "setting" TEXT NOT NULL DEFAULT 'unknown';
+
+-- isOutdoor defaulted to false, so only true is known; the next scrape infers the rest
+UPDATE "Event" SET "setting" = 'outdoor' WHERE "isOutdoor";
+UPDATE "Place" SET "setting" = 'outdoor' WHERE "isOutdoor";
+
+-- AlterTable
+ALTER TABLE "Event" DROP COLUMN "isOutdoor";
+
+-- AlterTable
+ALTER TABLE "Place" DROP COLUMN "isOutdoor";
+
+-- CreateIndex
+CREATE INDEX "Event_setting_idx" ON "Event"("setting");
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "EventSource" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "bookingUrl" TEXT,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventSource_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventSource_externalId_key" ON "EventSource"("externalId");
+
+-- CreateIndex
+CREATE INDEX "EventSource_eventId_idx" ON "EventSource"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "EventSource" ADD CONSTRAINT "EventSource_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing events become their first source's listing (events merged within a
+-- batch only kept that source's externalId)
+INSERT INTO "EventSource" ("id", "eventId", "source", "externalId", "bookingUrl", "lastSeenAt", "createdAt")
+SELECT 'src_' || "id", "id", split_part("source", ',', 1), "externalId", "bookingUrl", "lastSeenAt", "createdAt"
+FROM "Event";
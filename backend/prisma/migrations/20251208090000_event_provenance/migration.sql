@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "provenance" JSONB NOT NULL DEFAULT '{}';
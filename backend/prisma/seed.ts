@@ -1,5 +1,5 @@
 /**
- * Seed script to populate database with test events
+ * Seed script to populate database with test events and well-known venues
  */
 
 import { PrismaClient } from '@prisma/client';
@@ -7,6 +7,78 @@ import { addDays, addHours } from 'date-fns';
 
 const prisma = new PrismaClient();
 
+// Family venues whose spelling differs between sources; scraped events are
+// matched to them by name, alias or address
+const VENUES = [
+  {
+    id: 'venue-zoo-praha',
+    name: 'Zoo Praha',
+    aliases: ['Zoologická zahrada Praha', 'Pražská zoo'],
+    address: 'U Trojského zámku 3/120, 171 00 Praha 7',
+    normalizedAddress: 'u trojskeho zamku 3',
+    latitude: 50.1164,
+    longitude: 14.4124,
+    distanceFromPrague: 5.2,
+    hasIndoor: true,
+    hasOutdoor: true,
+    strollerAccess: true,
+    changingTable: true,
+    parking: true,
+    openingHours: ['Mo-Su 09:00-18:00'],
+    website: 'https://www.zoopraha.cz',
+  },
+  {
+    id: 'venue-ntm',
+    name: 'Národní technické muzeum',
+    aliases: ['NTM', 'NTM Praha'],
+    address: 'Kostelní 1320/42, 170 00 Praha 7',
+    normalizedAddress: 'kostelni 1320',
+    latitude: 50.0975,
+    longitude: 14.4254,
+    distanceFromPrague: 2.9,
+    hasIndoor: true,
+    hasOutdoor: false,
+    strollerAccess: true,
+    changingTable: true,
+    parking: false,
+    openingHours: ['Tu-Su 09:00-18:00'],
+    website: 'https://www.ntm.cz',
+  },
+  {
+    id: 'venue-techmania',
+    name: 'Techmania Science Center',
+    aliases: ['Techmania'],
+    address: 'U Planetária 1, Praha 7',
+    normalizedAddress: 'u planetaria 1',
+    latitude: 50.0974,
+    longitude: 14.4229,
+    distanceFromPrague: 2.8,
+    hasIndoor: true,
+    hasOutdoor: false,
+    strollerAccess: true,
+    changingTable: true,
+    parking: true,
+    openingHours: ['Mo-Fr 08:30-17:00', 'Sa-Su 10:00-18:00'],
+  },
+  {
+    id: 'venue-divadlo-minor',
+    name: 'Divadlo Minor',
+    aliases: ['Minor'],
+    address: 'Vodičkova 6, Praha 1',
+    normalizedAddress: 'vodickova 6',
+    latitude: 50.0807,
+    longitude: 14.4249,
+    distanceFromPrague: 0.8,
+    hasIndoor: true,
+    hasOutdoor: false,
+    strollerAccess: true,
+    changingTable: true,
+    parking: false,
+    openingHours: [],
+    website: 'https://www.minor.cz',
+  },
+];
+
 const TEST_EVENTS = [
   {
     externalId: 'test-zoo-1',
@@ -205,7 +277,18 @@ const TEST_EVENTS = [
 ];
 
 async function main() {
-  console.log('Seeding database with test events...');
+  console.log('Seeding database with venues...');
+
+  for (const venue of VENUES) {
+    await prisma.venue.upsert({
+      where: { id: venue.id },
+      update: venue,
+      create: venue,
+    });
+    console.log(`✓ Created venue: ${venue.name}`);
+  }
+
+  console.log('\nSeeding database with test events...');
 
   for (const event of TEST_EVENTS) {
     await prisma.event.upsert({
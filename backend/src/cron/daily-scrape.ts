@@ -4,24 +4,82 @@
  */
 
 import cron from 'node-cron';
-import { PrismaClient } from '@prisma/client';
-import { runAllScrapers, getAllEvents } from '../scrapers';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { runAllScrapers, runScrapers, getAllEvents, getAllPlaces, ScraperEntry } from '../scrapers';
 import { deduplicateEvents } from '../services/deduplication';
 import { geocodeAndCalculateDistance } from '../services/geocoding';
-import { scoreEventForAllGroups } from '../services/scoring';
+import { scoreEventForAllGroups, scorePlaceForAllGroups } from '../services/scoring';
 import { fetchWeatherForecast, getWeatherForDate } from '../services/weather';
+import { storeEvents } from '../services/eventStore';
+import { storePlaces } from '../services/placeStore';
+import { updateEventPresence } from '../services/eventLifecycle';
+import {
+  clearVenueCache,
+  findOrCreateVenue,
+  setVenueLocation,
+  venueLocation,
+  venueSetting,
+  VenueCandidate,
+  VenueLocation,
+} from '../services/venues';
+import {
+  startScrapeRun,
+  finishScrapeRun,
+  countStage,
+  countDeduplicated,
+  primarySource,
+  getSourceAccuracy,
+} from '../services/scrapeRuns';
 import { isWithinPragueRadius } from '../utils/distance';
-import { RawEvent, GeocodedEvent, ScoredEvent } from '../types';
+import {
+  RawEvent,
+  GeocodedEvent,
+  ScoredEvent,
+  RawPlace,
+  ScoredPlace,
+  ScraperResult,
+  Setting,
+  StageCounts,
+} from '../types';
 import { addDays, isBefore, subDays } from 'date-fns';
 
 const prisma = new PrismaClient();
 
 /**
- * Process raw events: geocode, filter by distance
+ * Link the venue of an event or place and find its coordinates
+ * A known venue provides its stored coordinates; a new one is geocoded once
+ * @returns Venue ID, location (null when geocoding failed) and setting (the venue's
+ *   when the candidate's is unknown)
  */
-async function processEvents(rawEvents: RawEvent[]): Promise<GeocodedEvent[]> {
+async function locate(
+  candidate: VenueCandidate
+): Promise<{ venueId?: string; location: VenueLocation | null; setting: Setting }> {
+  const venue = await findOrCreateVenue(candidate);
+
+  let location = venueLocation(venue);
+  if (!location) {
+    location = await geocodeAndCalculateDistance(candidate.address || candidate.locationName || '');
+    if (location && venue) {
+      await setVenueLocation(venue, location);
+    }
+  }
+
+  return { venueId: venue?.id, location, setting: venueSetting(candidate.setting, venue) };
+}
+
+/**
+ * Process raw events: link venues, geocode, filter by distance
+ * Events at a known venue reuse its coordinates; a new venue is geocoded once
+ * @param rawEvents Deduplicated events
+ * @param counts Per-source stage counts (geocoded, outOfRadius) to update
+ */
+async function processEvents(
+  rawEvents: RawEvent[],
+  counts: Map<string, StageCounts>
+): Promise<GeocodedEvent[]> {
   console.log(`Processing ${rawEvents.length} events...`);
   const geocodedEvents: GeocodedEvent[] = [];
+  clearVenueCache();
 
   for (const event of rawEvents) {
     try {
@@ -31,28 +89,32 @@ async function processEvents(rawEvents: RawEvent[]): Promise<GeocodedEvent[]> {
         continue;
       }
 
-      // Try to geocode
-      const address = event.address || event.locationName || '';
-      const geoResult = await geocodeAndCalculateDistance(address);
+      // Try to geocode (once per venue)
+      const { venueId, location: geoResult, setting } = await locate(event);
 
       if (!geoResult) {
-        console.log(`Failed to geocode: ${event.title} at ${address}`);
+        console.log(`Failed to geocode: ${event.title} at ${event.address || event.locationName}`);
         // Still add event without coordinates
-        geocodedEvents.push(event as GeocodedEvent);
+        geocodedEvents.push({ ...event, venueId, setting });
         continue;
       }
 
+      countStage(counts, primarySource(event), 'geocoded');
+
       // Filter by 130km radius
       if (geoResult.distanceFromPrague > 130) {
         console.log(
           `Event too far (${geoResult.distanceFromPrague}km): ${event.title}`
         );
+        countStage(counts, primarySource(event), 'outOfRadius');
         continue;
       }
 
       // Add geocoded data
       const geocodedEvent: GeocodedEvent = {
         ...event,
+        venueId,
+        setting,
         latitude: geoResult.latitude,
         longitude: geoResult.longitude,
         distanceFromPrague: geoResult.distanceFromPrague,
@@ -99,158 +161,121 @@ async function scoreEvents(geocodedEvents: GeocodedEvent[]): Promise<ScoredEvent
 }
 
 /**
- * Store events in database (upsert)
+ * Process and score places: link venues, geocode, filter by distance
+ * Places that cannot be geocoded are kept without coordinates, like events
+ * @param rawPlaces Scraped places
  */
-async function storeEvents(events: ScoredEvent[]): Promise<void> {
-  console.log(`Storing ${events.length} events in database...`);
+async function processPlaces(rawPlaces: RawPlace[]): Promise<ScoredPlace[]> {
+  console.log(`Processing ${rawPlaces.length} places...`);
+  const scoredPlaces: ScoredPlace[] = [];
 
-  for (const event of events) {
+  for (const place of rawPlaces) {
     try {
-      await prisma.event.upsert({
-        where: { externalId: event.externalId },
-        update: {
-          source: event.source,
-          title: event.title,
-          description: event.description,
-          startDateTime: event.startDateTime,
-          endDateTime: event.endDateTime,
-          locationName: event.locationName,
-          address: event.address,
-          latitude: event.latitude,
-          longitude: event.longitude,
-          distanceFromPrague: event.distanceFromPrague,
-          category: event.category,
-          ageMin: event.ageMin,
-          ageMax: event.ageMax,
-          adultPrice: event.adultPrice,
-          childPrice: event.childPrice,
-          familyPrice: event.familyPrice,
-          isOutdoor: event.isOutdoor || false,
-          durationMinutes: event.durationMinutes,
-          imageUrl: event.imageUrl,
-          bookingUrl: event.bookingUrl,
-          scoreToddler: event.scoreToddler,
-          scoreChild: event.scoreChild,
-          scoreFamily: event.scoreFamily,
-          updatedAt: new Date(),
-        },
-        create: {
-          externalId: event.externalId,
-          source: event.source,
-          title: event.title,
-          description: event.description,
-          startDateTime: event.startDateTime,
-          endDateTime: event.endDateTime,
-          locationName: event.locationName,
-          address: event.address,
-          latitude: event.latitude,
-          longitude: event.longitude,
-          distanceFromPrague: event.distanceFromPrague,
-          category: event.category,
-          ageMin: event.ageMin,
-          ageMax: event.ageMax,
-          adultPrice: event.adultPrice,
-          childPrice: event.childPrice,
-          familyPrice: event.familyPrice,
-          isOutdoor: event.isOutdoor || false,
-          durationMinutes: event.durationMinutes,
-          imageUrl: event.imageUrl,
-          bookingUrl: event.bookingUrl,
-          scoreToddler: event.scoreToddler,
-          scoreChild: event.scoreChild,
-          scoreFamily: event.scoreFamily,
-        },
-      });
+      const { venueId, location, setting } = await locate(place);
+
+      if (location && location.distanceFromPrague > 130) {
+        console.log(`Place too far (${location.distanceFromPrague}km): ${place.name}`);
+        continue;
+      }
+
+      scoredPlaces.push(scorePlaceForAllGroups({ ...place, ...location, venueId, setting }));
     } catch (error) {
-      console.error(`Error storing event ${event.title}:`, error);
+      console.error(`Error processing place ${place.name}:`, error);
     }
   }
 
-  console.log('Events stored successfully');
+  console.log(`Processed ${scoredPlaces.length} places within Prague radius`);
+  return scoredPlaces;
 }
 
 /**
- * Archive old events (older than 30 days)
+ * Events due for archiving: ended (or, without an end, started) more than 30 days ago
+ * @param now Reference time
  */
-async function archiveOldEvents(): Promise<void> {
-  console.log('Archiving old events...');
-
-  const thirtyDaysAgo = subDays(new Date(), 30);
-
-  const result = await prisma.event.deleteMany({
-    where: {
-      startDateTime: {
-        lt: thirtyDaysAgo,
-      },
-    },
-  });
-
-  console.log(`Archived ${result.count} old events`);
+export function archiveWhere(now: Date): Prisma.EventWhereInput {
+  const thirtyDaysAgo = subDays(now, 30);
+
+  return {
+    archivedAt: null,
+    // Recurring events without an end date stay while they have recent dates
+    occurrences: { none: { startDateTime: { gte: thirtyDaysAgo } } },
+    OR: [
+      { endDateTime: { lt: thirtyDaysAgo } },
+      { endDateTime: null, startDateTime: { lt: thirtyDaysAgo } },
+    ],
+  };
 }
 
 /**
- * Log scraping results
+ * Archive old events (ended more than 30 days ago)
+ * Archived events are kept with their attendances, ratings and photos and are
+ * served by GET /api/events/past
+ * @param now Reference time
+ * @returns Number of events archived
  */
-async function logScrapeResults(
-  source: string,
-  status: string,
-  eventsFound: number,
-  errorMessage?: string,
-  executionTime?: number
-): Promise<void> {
-  await prisma.scrapeLog.create({
+export async function archiveOldEvents(now: Date = new Date()): Promise<number> {
+  console.log('Archiving old events...');
+
+  const result = await prisma.event.updateMany({
+    where: archiveWhere(now),
     data: {
-      source,
-      status,
-      eventsFound,
-      errorMessage,
-      executionTime,
+      archivedAt: now,
     },
   });
+
+  console.log(`Archived ${result.count} old events`);
+  return result.count;
 }
 
 /**
  * Main scraping workflow
+ * @param trigger What started the run, recorded on the ScrapeRun (default: cron)
+ * @param scrapers Scrapers to run (default: all)
  */
-export async function runDailyScrape(): Promise<void> {
+export async function runDailyScrape(trigger: string = 'cron', scrapers?: ScraperEntry[]): Promise<void> {
   console.log('\n=== Starting daily scrape workflow ===');
   const workflowStart = Date.now();
+  const runId = await startScrapeRun(trigger);
+  const counts = new Map<string, StageCounts>();
+  let scraperResults: ScraperResult[] = [];
 
   try {
     // Step 1: Scrape all sources
-    console.log('\n[Step 1/5] Scraping sources...');
-    const scraperResults = await runAllScrapers(2000);
-
-    // Log scraper results
-    for (const result of scraperResults) {
-      await logScrapeResults(
-        result.source,
-        result.errors.length > 0 ? 'partial' : 'success',
-        result.events.length,
-        result.errors.join('; ') || undefined,
-        result.executionTime
-      );
-    }
+    console.log('\n[Step 1/6] Scraping sources...');
+    scraperResults = scrapers ? await runScrapers(scrapers) : await runAllScrapers();
 
     // Step 2: Process and deduplicate
-    console.log('\n[Step 2/5] Deduplicating events...');
+    console.log('\n[Step 2/6] Deduplicating events...');
     const allEvents = getAllEvents(scraperResults);
-    const deduplicatedEvents = deduplicateEvents(allEvents, 0.8);
+    const accuracy = await getSourceAccuracy();
+    const deduplicatedEvents = deduplicateEvents(allEvents, 0.8, { accuracy });
+    countDeduplicated(counts, allEvents, deduplicatedEvents);
     console.log(
       `Deduplicated: ${allEvents.length} -> ${deduplicatedEvents.length} events`
     );
 
     // Step 3: Geocode and filter
-    console.log('\n[Step 3/5] Geocoding and filtering...');
-    const geocodedEvents = await processEvents(deduplicatedEvents);
+    console.log('\n[Step 3/6] Geocoding and filtering...');
+    const geocodedEvents = await processEvents(deduplicatedEvents, counts);
 
     // Step 4: Score events
-    console.log('\n[Step 4/5] Scoring events...');
+    console.log('\n[Step 4/6] Scoring events...');
     const scoredEvents = await scoreEvents(geocodedEvents);
 
     // Step 5: Store in database
-    console.log('\n[Step 5/5] Storing events...');
-    await storeEvents(scoredEvents);
+    console.log('\n[Step 5/6] Storing events...');
+    await storeEvents(scoredEvents, (event, outcome) => {
+      if (outcome !== 'failed') {
+        countStage(counts, primarySource(event), outcome);
+      }
+    }, runId, accuracy);
+
+    // Track which events sources still list (flags vanished ones)
+    await updateEventPresence(scraperResults, runId);
+
+    // Step 6: Permanent attractions (listed by place sources)
+    console.log('\n[Step 6/6] Processing places...');
+    await storePlaces(await processPlaces(getAllPlaces(scraperResults)));
 
     // Archive old events
     await archiveOldEvents();
@@ -258,9 +283,11 @@ export async function runDailyScrape(): Promise<void> {
     const workflowTime = Date.now() - workflowStart;
     console.log(`\n=== Daily scrape complete in ${workflowTime}ms ===`);
     console.log(`Total events in database: ${scoredEvents.length}`);
+
+    await finishScrapeRun(runId, scraperResults, counts);
   } catch (error) {
     console.error('Error in daily scrape workflow:', error);
-    await logScrapeResults('workflow', 'error', 0, String(error));
+    await finishScrapeRun(runId, scraperResults, counts, error);
   }
 }
 
@@ -5,10 +5,11 @@
 
 import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { SCRAPERS, runAllScrapers, getAllEvents } from '../scrapers';
-import { deduplicateEvents } from '../services/deduplication';
-import { scoreEventForAllGroups } from '../services/scoring';
-import { RawEvent, ScoredEvent } from '../types';
+import { SCRAPERS, ScraperEntry } from '../scrapers';
+import { DEFAULT_ACCURACY } from '../services/deduplication';
+import { reclassifyEvents } from '../services/eventStore';
+import { getSourceAccuracy, getScraperHealth } from '../services/scrapeRuns';
+import { runDailyScrape } from '../cron/daily-scrape';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -51,113 +52,18 @@ router.post('/scrape/trigger', async (req: Request, res: Response) => {
     console.log(`[Admin] Manual scrape triggered${source ? ` for ${source}` : ' for all sources'}`);
     console.log(`[Admin] Environment: NODE_ENV=${process.env.NODE_ENV}, hasFirecrawl=${!!process.env.FIRECRAWL_API_KEY}`);
 
-    // Run scraping in background to avoid timeout
-    const scrapePromise = (async () => {
-      try {
-        let scraperResults;
-
-        if (source) {
-          // Run specific scraper
-          const scraper = SCRAPERS.find(s => s.name === source);
-          if (!scraper) {
-            console.error(`[Admin] Unknown source: ${source}`);
-            return;
-          }
-
-          console.log(`[Admin] Running scraper: ${scraper.name}`);
-          const result = await scraper.fn();
-          scraperResults = [result];
-        } else {
-          // Run all scrapers
-          console.log(`[Admin] Running all ${SCRAPERS.length} scrapers`);
-          scraperResults = await runAllScrapers(1000); // 1 second delay between scrapers
-        }
-
-        // Process and store events
-        const allEvents = getAllEvents(scraperResults);
-
-        // Deduplicate
-        const deduplicatedEvents = deduplicateEvents(allEvents, 0.8);
-
-        // Score events (without geocoding for quick admin trigger)
-        const scoredEvents: ScoredEvent[] = deduplicatedEvents.map((event: RawEvent) =>
-          scoreEventForAllGroups(event, undefined)
-        );
-
-        // Store in database
-        let storedCount = 0;
-        for (const event of scoredEvents) {
-          try {
-            await prisma.event.upsert({
-              where: { externalId: event.externalId },
-              update: {
-                source: event.source,
-                title: event.title,
-                description: event.description,
-                startDateTime: event.startDateTime,
-                endDateTime: event.endDateTime,
-                locationName: event.locationName,
-                address: event.address,
-                latitude: event.latitude,
-                longitude: event.longitude,
-                distanceFromPrague: event.distanceFromPrague,
-                category: event.category,
-                ageMin: event.ageMin,
-                ageMax: event.ageMax,
-                adultPrice: event.adultPrice,
-                childPrice: event.childPrice,
-                familyPrice: event.familyPrice,
-                isOutdoor: event.isOutdoor || false,
-                durationMinutes: event.durationMinutes,
-                imageUrl: event.imageUrl,
-                bookingUrl: event.bookingUrl,
-                scoreToddler: event.scoreToddler,
-                scoreChild: event.scoreChild,
-                scoreFamily: event.scoreFamily,
-                updatedAt: new Date(),
-              },
-              create: {
-                externalId: event.externalId,
-                source: event.source,
-                title: event.title,
-                description: event.description,
-                startDateTime: event.startDateTime,
-                endDateTime: event.endDateTime,
-                locationName: event.locationName,
-                address: event.address,
-                latitude: event.latitude,
-                longitude: event.longitude,
-                distanceFromPrague: event.distanceFromPrague,
-                category: event.category,
-                ageMin: event.ageMin,
-                ageMax: event.ageMax,
-                adultPrice: event.adultPrice,
-                childPrice: event.childPrice,
-                familyPrice: event.familyPrice,
-                isOutdoor: event.isOutdoor || false,
-                durationMinutes: event.durationMinutes,
-                imageUrl: event.imageUrl,
-                bookingUrl: event.bookingUrl,
-                scoreToddler: event.scoreToddler,
-                scoreChild: event.scoreChild,
-                scoreFamily: event.scoreFamily,
-              },
-            });
-            storedCount++;
-          } catch (error) {
-            console.error(`[Admin] Error storing event: ${error}`);
-          }
-        }
-
-        // Calculate summary
-        const totalEvents = scraperResults.reduce((sum, r) => sum + r.events.length, 0);
-        const totalErrors = scraperResults.reduce((sum, r) => sum + r.errors.length, 0);
-
-        console.log(`[Admin] Scrape completed: ${totalEvents} events found, ${storedCount} stored`);
-      } catch (error) {
-        console.error('[Admin] Background scrape error:', error);
+    // Same pipeline as the daily cron run, for one source or all of them
+    let scrapers: ScraperEntry[] | undefined;
+    if (source) {
+      const scraper = SCRAPERS.find(s => s.name === source);
+      if (!scraper) {
+        return res.status(400).json({ success: false, error: `Unknown source: ${source}` });
       }
-    })();
+      scrapers = [scraper];
+    }
+
+    // Run scraping in background to avoid timeout
+    const scrapePromise = runDailyScrape('manual', scrapers);
 
     // Don't await - return immediately
     scrapePromise.catch(err => console.error('[Admin] Scrape promise error:', err));
@@ -184,68 +90,46 @@ router.post('/scrape/trigger', async (req: Request, res: Response) => {
 
 /**
  * GET /api/admin/scrape/health
- * Get scraper health metrics
+ * Get scraper health metrics, computed from recorded scrape runs
  */
 router.get('/scrape/health', async (req: Request, res: Response) => {
   try {
-    // Get last scrape log
-    const lastScrapeLog = await prisma.scrapeLog.findFirst({
-      orderBy: { createdAt: 'desc' }
+    const lastRun = await prisma.scrapeRun.findFirst({
+      orderBy: { startedAt: 'desc' }
     });
 
     // Get events count per source
     const eventsBySource = await prisma.event.groupBy({
       by: ['source'],
-      _count: true,
-      orderBy: {
-        _count: {
-          source: 'desc'
-        }
-      }
-    });
-
-    // Get recent events (last 7 days)
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-
-    const recentEventsBySource = await prisma.event.groupBy({
-      by: ['source'],
-      where: {
-        createdAt: {
-          gte: sevenDaysAgo
-        }
-      },
       _count: true
     });
 
-    // Calculate scraper health status
-    const scraperHealth = SCRAPERS.map(scraper => {
-      const totalEvents = eventsBySource.find(e => e.source === scraper.name)?._count || 0;
-      const recentEvents = recentEventsBySource.find(e => e.source === scraper.name)?._count || 0;
-
-      let status: 'healthy' | 'warning' | 'error' = 'healthy';
-      if (totalEvents === 0) {
-        status = 'error';
-      } else if (recentEvents === 0) {
-        status = 'warning';
-      }
-
-      return {
-        source: scraper.name,
-        status,
-        totalEvents,
-        recentEvents,
-        lastActive: lastScrapeLog?.createdAt || null
-      };
-    });
+    const health = await getScraperHealth(SCRAPERS.map(s => s.name));
+
+    const scraperHealth = health.map(sourceHealth => ({
+      source: sourceHealth.source,
+      status: sourceHealth.status,
+      reason: sourceHealth.reason,
+      totalEvents: eventsBySource.find(e => e.source === sourceHealth.source)?._count || 0,
+      recentEvents: sourceHealth.lastRun?.parsed || 0,
+      lastActive: sourceHealth.lastActive,
+      lastSuccessAt: sourceHealth.lastSuccessAt,
+      consecutiveFailures: sourceHealth.consecutiveFailures,
+      errorCounts: sourceHealth.errorCounts,
+      degraded: sourceHealth.degraded,
+      degradedReasons: sourceHealth.degradedReasons,
+      lastRun: sourceHealth.lastRun
+    }));
 
     res.json({
       success: true,
-      lastScrape: lastScrapeLog?.createdAt || null,
+      lastScrape: lastRun?.startedAt || null,
+      lastRun,
       totalScrapers: SCRAPERS.length,
       healthyScraper: scraperHealth.filter(s => s.status === 'healthy').length,
       warningScraper: scraperHealth.filter(s => s.status === 'warning').length,
       errorScraper: scraperHealth.filter(s => s.status === 'error').length,
+      degradedScraper: scraperHealth.filter(s => s.degraded).length,
       scrapers: scraperHealth
     });
 
@@ -258,9 +142,133 @@ router.get('/scrape/health', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/admin/scrape/runs
+ * List recent scrape runs with per-source records
+ * Query params:
+ * - limit: number of runs (default: 20)
+ */
+router.get('/scrape/runs', async (req: Request, res: Response) => {
+  try {
+    const { limit = '20' } = req.query;
+
+    const runs = await prisma.scrapeRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: parseInt(limit as string),
+      include: { sources: { orderBy: { source: 'asc' } } }
+    });
+
+    res.json({
+      success: true,
+      runs
+    });
+  } catch (error: any) {
+    console.error('[Admin] Scrape runs error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/admin/scrape/runs/:id
+ * Get a single scrape run with per-source records and errors
+ */
+router.get('/scrape/runs/:id', async (req: Request, res: Response) => {
+  try {
+    const run = await prisma.scrapeRun.findUnique({
+      where: { id: req.params.id },
+      include: { sources: { orderBy: { source: 'asc' } } }
+    });
+
+    if (!run) {
+      return res.status(404).json({
+        success: false,
+        error: 'Scrape run not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      run
+    });
+  } catch (error: any) {
+    console.error('[Admin] Scrape run error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/admin/events/reclassify
+ * Classify stored events again after the category rules changed
+ * Query params:
+ * - source: optional - only events from this source
+ */
+router.post('/events/reclassify', async (req: Request, res: Response) => {
+  try {
+    const { source } = req.query;
+
+    console.log(`[Admin] Reclassifying events${source ? ` from ${source}` : ''}`);
+    const result = await reclassifyEvents(source as string | undefined);
+
+    res.json({
+      success: true,
+      ...result
+    });
+  } catch (error: any) {
+    console.error('[Admin] Reclassify error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/admin/events/merged
+ * Events listed by several sources, most recently updated first, with their
+ * sources and the source of each merged field (provenance)
+ * Query params:
+ * - limit: number of events (default: 20)
+ */
+router.get('/events/merged', async (req: Request, res: Response) => {
+  try {
+    const { limit = '20' } = req.query;
+
+    const events = await prisma.event.findMany({
+      where: { source: { contains: ',' } },
+      orderBy: { updatedAt: 'desc' },
+      take: parseInt(limit as string),
+      select: {
+        id: true,
+        title: true,
+        startDateTime: true,
+        provenance: true,
+        sources: { orderBy: { createdAt: 'asc' } }
+      }
+    });
+
+    res.json({
+      success: true,
+      events
+    });
+  } catch (error: any) {
+    console.error('[Admin] Merged events error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
 /**
  * GET /api/admin/stats/quality
- * Get event source quality metrics
+ * Get event source quality metrics, with each source's historical accuracy
+ * (share of listings whose dates and prices were never corrected, see getSourceAccuracy)
  */
 router.get('/stats/quality', async (req: Request, res: Response) => {
   try {
@@ -275,6 +283,8 @@ router.get('/stats/quality', async (req: Request, res: Response) => {
       }
     });
 
+    const accuracy = await getSourceAccuracy();
+
     // Get events with complete data percentage
     const sources = await Promise.all(
       SCRAPERS.map(async (scraper) => {
@@ -285,6 +295,7 @@ router.get('/stats/quality', async (req: Request, res: Response) => {
         if (totalEvents === 0) {
           return {
             source: scraper.name,
+            accuracy: accuracy[scraper.name] ?? DEFAULT_ACCURACY,
             totalEvents: 0,
             avgScores: { toddler: 0, child: 0, family: 0 },
             dataCompleteness: 0,
@@ -308,7 +319,8 @@ router.get('/stats/quality', async (req: Request, res: Response) => {
             OR: [
               { adultPrice: { not: null } },
               { childPrice: { not: null } },
-              { familyPrice: { not: null } }
+              { familyPrice: { not: null } },
+              { priceFrom: { not: null } }
             ]
           }
         });
@@ -317,6 +329,7 @@ router.get('/stats/quality', async (req: Request, res: Response) => {
 
         return {
           source: scraper.name,
+          accuracy: accuracy[scraper.name] ?? DEFAULT_ACCURACY,
           totalEvents,
           avgScores: {
             toddler: Math.round(sourceStats?._avg.scoreToddler || 0),
@@ -3,18 +3,24 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { FilterOptions, AgeGroup } from '../types';
-import { startOfDay, endOfDay, addDays } from 'date-fns';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { FilterOptions, AgeGroup, Setting } from '../types';
+import { addDays } from 'date-fns';
 import { getPlaceholderImage } from '../utils/placeholderImages';
+import { CATEGORIES } from '../utils/categories';
+import { FALLBACK_MIN_EVENTS, loadPlaces, placesOpenOn } from './places';
+import { addPragueDays, pragueDateKey, pragueDayEnd, pragueDayStart } from '../utils/timezone';
+import { loadFamilyProfile, withFamilyCost } from '../services/familyProfile';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+const SETTINGS: Setting[] = ['indoor', 'outdoor', 'mixed', 'unknown'];
+
 /**
  * Add placeholder images to events that don't have images
  */
-function addPlaceholderImages<T extends { imageUrl?: string | null; category?: string | null; title: string }>(
+export function addPlaceholderImages<T extends { imageUrl?: string | null; category?: string | null; title: string }>(
   events: T | T[]
 ): T | T[] {
   const processEvent = (event: T): T => {
@@ -33,17 +39,92 @@ function addPlaceholderImages<T extends { imageUrl?: string | null; category?: s
   return processEvent(events);
 }
 
+/**
+ * Status condition for event lists
+ * Cancelled and possibly removed events are hidden unless includeInactive=true;
+ * every event carries its status so clients can flag them. Archived events are
+ * only served by GET /api/events/past.
+ */
+export function statusFilter(includeInactive: unknown): { status?: string; archivedAt: null } {
+  return includeInactive === 'true' ? { archivedAt: null } : { status: 'active', archivedAt: null };
+}
+
+/**
+ * Conditions for GET /api/events/past (see its query params)
+ * Only events that have ended: by end date, or by start date when there is
+ * none, so multi-day events still running stay out. Archived events are
+ * included; dateTo is capped at now
+ */
+export function pastEventsWhere(query: Request['query'], now: Date): Prisma.EventWhereInput {
+  const { dateFrom, dateTo, category, userId, attended } = query;
+  const before = dateTo && new Date(dateTo as string) < now ? new Date(dateTo as string) : now;
+
+  const where: Prisma.EventWhereInput = {
+    startDateTime: dateFrom ? { lt: before, gte: new Date(dateFrom as string) } : { lt: before },
+    OR: [{ endDateTime: { lt: now } }, { endDateTime: null, startDateTime: { lt: now } }],
+  };
+
+  if (category) {
+    where.tags = { has: category as string };
+  }
+
+  if (userId) {
+    where.attendances = { some: { userId: userId as string } };
+  } else if (attended === 'true') {
+    where.attendances = { some: {} };
+  }
+
+  return where;
+}
+
+/**
+ * Event as listed on one of its occurrences: start and end of that occurrence
+ * (an exhibition shows the day it is open, not the day it opened)
+ */
+export function atOccurrence<T extends object>(
+  event: T,
+  occurrence: { id: string; startDateTime: Date; endDateTime: Date | null }
+): T & { occurrenceId: string; startDateTime: Date; endDateTime: Date | null } {
+  return {
+    ...event,
+    occurrenceId: occurrence.id,
+    startDateTime: occurrence.startDateTime,
+    endDateTime: occurrence.endDateTime,
+  };
+}
+
+/**
+ * Settings to filter by, or null for all
+ * @param setting Comma-separated settings from the query
+ */
+export function settingFilter(setting: unknown, indoorOnly: boolean, outdoorOnly: boolean): Setting[] | null {
+  if (typeof setting === 'string' && setting) {
+    return setting.split(',').filter((value): value is Setting => SETTINGS.includes(value as Setting));
+  }
+  if (indoorOnly) return ['indoor'];
+  if (outdoorOnly) return ['outdoor'];
+  return null;
+}
+
 /**
  * GET /api/events
  * Get events with optional filters
+ * Events have an occurrence in the date range and are listed on the first one;
+ * occurrences holds all of them within the range. With fewer than
+ * FALLBACK_MIN_EVENTS events, fallbackPlaces lists places open on the first day.
+ * Every event and place has familyCost for the user's family profile.
  * Query params:
  * - view: 'toddler' | 'child' | 'family'
  * - dateFrom: ISO date string
  * - dateTo: ISO date string
- * - category: category name
- * - priceMax: maximum price
+ * - category: category or tag (e.g. 'puppets')
+ * - priceMax: maximum adult entry price in CZK
  * - distanceMax: maximum distance in km
- * - indoorOnly: boolean
+ * - indoorOnly: boolean - only events known to be indoor (not mixed or unknown)
+ * - outdoorOnly: boolean - only events known to be outdoor
+ * - setting: comma-separated settings, e.g. 'indoor,mixed,unknown' (overrides indoorOnly/outdoorOnly)
+ * - includeInactive: include cancelled and possibly removed events
+ * - userId: family profile for familyCost (default: 2 adults, children 9 and 1.5)
  * - limit: number of events to return
  */
 router.get('/', async (req: Request, res: Response) => {
@@ -56,36 +137,39 @@ router.get('/', async (req: Request, res: Response) => {
       priceMax,
       distanceMax,
       indoorOnly,
+      outdoorOnly,
+      setting,
+      includeInactive,
+      userId,
       limit = 100,
     } = req.query;
 
     // Build where clause
-    const where: any = {};
+    const where: any = { ...statusFilter(includeInactive) };
 
-    // Date filter
+    // Date filter (on occurrences)
+    const occurrenceRange: any = {};
     if (dateFrom || dateTo) {
-      where.startDateTime = {};
       if (dateFrom) {
-        where.startDateTime.gte = new Date(dateFrom as string);
+        occurrenceRange.gte = new Date(dateFrom as string);
       }
       if (dateTo) {
-        where.startDateTime.lte = new Date(dateTo as string);
+        occurrenceRange.lte = new Date(dateTo as string);
       }
     } else {
       // Default: only future events
-      where.startDateTime = {
-        gte: new Date(),
-      };
+      occurrenceRange.gte = new Date();
     }
+    where.occurrences = { some: { startDateTime: occurrenceRange } };
 
-    // Category filter
+    // Category filter (main category or any tag)
     if (category) {
-      where.category = category;
+      where.tags = { has: category };
     }
 
-    // Price filter (use adult price as reference)
+    // Price filter (cheapest adult entry from the ticket tiers, free entry included)
     if (priceMax) {
-      where.adultPrice = {
+      where.priceFrom = {
         lte: parseFloat(priceMax as string),
       };
     }
@@ -97,9 +181,10 @@ router.get('/', async (req: Request, res: Response) => {
       };
     }
 
-    // Indoor filter
-    if (indoorOnly === 'true') {
-      where.isOutdoor = false;
+    // Indoor/outdoor filter; unknown settings only when asked for
+    const settings = settingFilter(setting, indoorOnly === 'true', outdoorOnly === 'true');
+    if (settings) {
+      where.setting = { in: settings };
     }
 
     // Determine which score field to use for ordering and minimum threshold
@@ -130,15 +215,34 @@ router.get('/', async (req: Request, res: Response) => {
         { startDateTime: 'asc' },
       ],
       take: parseInt(limit as string),
+      include: {
+        occurrences: {
+          where: { startDateTime: occurrenceRange },
+          orderBy: { startDateTime: 'asc' },
+        },
+      },
     });
 
+    const family = await loadFamilyProfile(userId);
+
     // Add placeholder images for events without images
-    const eventsWithImages = addPlaceholderImages(events) as typeof events;
+    const eventsWithImages = addPlaceholderImages(
+      events.map((event) => withFamilyCost(atOccurrence(event, event.occurrences[0]), family))
+    );
+
+    // Nothing much scheduled - suggest always-open places instead
+    const fallbackPlaces =
+      events.length < FALLBACK_MIN_EVENTS
+        ? placesOpenOn(await loadPlaces(view), occurrenceRange.gte || new Date(), FALLBACK_MIN_EVENTS).map(
+            (place) => withFamilyCost(place, family)
+          )
+        : [];
 
     res.json({
       success: true,
       count: events.length,
       events: eventsWithImages,
+      fallbackPlaces,
     });
   } catch (error: any) {
     console.error('Error fetching events:', error);
@@ -149,17 +253,92 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/events/past
+ * Past events (archived or not), newest first, with attendance history
+ * Query params:
+ * - dateFrom: ISO date string
+ * - dateTo: ISO date string (default: now)
+ * - category: category or tag (e.g. 'puppets')
+ * - userId: only events this user attended, with their attendances only; familyCost
+ *   for the user's family profile
+ * - attended: 'true' for events anyone attended
+ * - limit: number of events to return
+ */
+router.get('/past', async (req: Request, res: Response) => {
+  try {
+    const { userId, limit = 100 } = req.query;
+    const where = pastEventsWhere(req.query, new Date());
+
+    const events = await prisma.event.findMany({
+      where,
+      orderBy: { startDateTime: 'desc' },
+      take: parseInt(limit as string),
+      include: {
+        attendances: {
+          where: userId ? { userId: userId as string } : undefined,
+          orderBy: { attendedDate: 'desc' },
+          select: {
+            id: true,
+            userId: true,
+            attendedDate: true,
+            rating: true,
+            notes: true,
+            photos: true,
+            actualCost: true,
+          },
+        },
+      },
+    });
+
+    const family = await loadFamilyProfile(userId);
+    const eventsWithImages = addPlaceholderImages(events.map((event) => withFamilyCost(event, family)));
+
+    res.json({
+      success: true,
+      count: events.length,
+      events: eventsWithImages,
+    });
+  } catch (error: any) {
+    console.error('Error fetching past events:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/events/categories
+ * Category taxonomy with Czech and English labels, for filters and tag badges
+ */
+router.get('/categories', async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    categories: CATEGORIES.map(({ id, cs, en, setting }) => ({ id, cs, en, setting: !!setting })),
+  });
+});
+
 /**
  * GET /api/events/:id
- * Get single event by ID
+ * Get single event by ID, with its upcoming occurrences and every source listing it
+ * (sources: source, externalId, bookingUrl, lastSeenAt)
+ * Query params: userId (family profile for familyCost)
  */
 router.get('/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+    const { userId } = req.query;
 
     const event = await prisma.event.findUnique({
       where: { id },
       include: {
+        occurrences: {
+          where: { startDateTime: { gte: pragueDayStart(new Date()) } },
+          orderBy: { startDateTime: 'asc' },
+        },
+        venue: true,
+        sources: { orderBy: { createdAt: 'asc' } },
         attendances: {
           include: {
             user: {
@@ -182,7 +361,7 @@ router.get('/:id', async (req: Request, res: Response) => {
     }
 
     // Add placeholder image if missing
-    const eventWithImage = addPlaceholderImages(event) as typeof event;
+    const eventWithImage = addPlaceholderImages(withFamilyCost(event, await loadFamilyProfile(userId)));
 
     res.json({
       success: true,
@@ -197,15 +376,66 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/events/:id/history
+ * Field-level changes detected by scrape runs (moved date, new price, ...), newest first
+ */
+router.get('/:id/history', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const event = await prisma.event.findUnique({
+      where: { id },
+      select: { id: true, title: true, createdAt: true },
+    });
+
+    if (!event) {
+      return res.status(404).json({
+        success: false,
+        error: 'Event not found',
+      });
+    }
+
+    const revisions = await prisma.eventRevision.findMany({
+      where: { eventId: id },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        field: true,
+        kind: true,
+        oldValue: true,
+        newValue: true,
+        runId: true,
+        createdAt: true,
+      },
+    });
+
+    res.json({
+      success: true,
+      event,
+      count: revisions.length,
+      revisions,
+    });
+  } catch (error: any) {
+    console.error('Error fetching event history:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
 /**
  * GET /api/events/calendar/:view
- * Get events grouped by date for calendar view
- * Max 4 events per day (highest scored)
+ * Get event occurrences grouped by date for calendar view
+ * Max 4 events per day (highest scored); days with fewer than FALLBACK_MIN_EVENTS
+ * events get open places in placesByDate
+ * Query params: dateFrom, dateTo, includeInactive, userId (family profile for familyCost)
  */
 router.get('/calendar/:view', async (req: Request, res: Response) => {
   try {
     const { view } = req.params;
-    const { dateFrom, dateTo } = req.query;
+    const { dateFrom, dateTo, includeInactive, userId } = req.query;
 
     if (!['toddler', 'child', 'family'].includes(view)) {
       return res.status(400).json({
@@ -225,25 +455,29 @@ router.get('/calendar/:view', async (req: Request, res: Response) => {
         ? 'scoreChild'
         : 'scoreFamily';
 
-    // Fetch all events in date range
-    const allEvents = await prisma.event.findMany({
+    // Fetch all occurrences in date range
+    const occurrences = await prisma.eventOccurrence.findMany({
       where: {
+        event: statusFilter(includeInactive),
         startDateTime: {
-          gte: startOfDay(startDate),
-          lte: endOfDay(endDate),
+          gte: pragueDayStart(startDate),
+          lte: pragueDayEnd(endDate),
         },
       },
       orderBy: [
         { startDateTime: 'asc' },
-        { [scoreField]: 'desc' },
+        { event: { [scoreField]: 'desc' } },
       ],
+      include: { event: true },
     });
 
     // Group by date and take top 4 per day
+    const family = await loadFamilyProfile(userId);
     const eventsByDate: { [key: string]: any[] } = {};
 
-    for (const event of allEvents) {
-      const dateKey = event.startDateTime.toISOString().split('T')[0];
+    for (const occurrence of occurrences) {
+      const event = withFamilyCost(atOccurrence(occurrence.event, occurrence), family);
+      const dateKey = pragueDateKey(event.startDateTime);
 
       if (!eventsByDate[dateKey]) {
         eventsByDate[dateKey] = [];
@@ -255,11 +489,26 @@ router.get('/calendar/:view', async (req: Request, res: Response) => {
       }
     }
 
+    // Always-open places for quiet days
+    const places = await loadPlaces(view);
+    const placesByDate: { [key: string]: any[] } = {};
+
+    for (let day = pragueDayStart(startDate); day <= endDate; day = addPragueDays(day, 1)) {
+      const dateKey = pragueDateKey(day);
+      if ((eventsByDate[dateKey]?.length || 0) < FALLBACK_MIN_EVENTS) {
+        const open = placesOpenOn(places, day, FALLBACK_MIN_EVENTS);
+        if (open.length > 0) {
+          placesByDate[dateKey] = open.map((place) => withFamilyCost(place, family));
+        }
+      }
+    }
+
     res.json({
       success: true,
       view,
       dateRange: { from: startDate, to: endDate },
       eventsByDate,
+      placesByDate,
     });
   } catch (error: any) {
     console.error('Error fetching calendar events:', error);
@@ -272,11 +521,12 @@ router.get('/calendar/:view', async (req: Request, res: Response) => {
 
 /**
  * GET /api/events/map
- * Get events with coordinates for map view
+ * Get events with coordinates for map view, on their first occurrence in the date range
+ * Query params: view, dateFrom, dateTo, includeInactive, userId (family profile for familyCost)
  */
 router.get('/map/view', async (req: Request, res: Response) => {
   try {
-    const { view = 'family', dateFrom, dateTo } = req.query;
+    const { view = 'family', dateFrom, dateTo, includeInactive, userId } = req.query;
 
     const scoreField =
       view === 'toddler'
@@ -286,33 +536,43 @@ router.get('/map/view', async (req: Request, res: Response) => {
         : 'scoreFamily';
 
     const where: any = {
+      ...statusFilter(includeInactive),
       latitude: { not: null },
       longitude: { not: null },
     };
 
-    // Date filter
+    // Date filter (on occurrences)
+    const occurrenceRange: any = {};
     if (dateFrom || dateTo) {
-      where.startDateTime = {};
       if (dateFrom) {
-        where.startDateTime.gte = new Date(dateFrom as string);
+        occurrenceRange.gte = new Date(dateFrom as string);
       }
       if (dateTo) {
-        where.startDateTime.lte = new Date(dateTo as string);
+        occurrenceRange.lte = new Date(dateTo as string);
       }
     } else {
-      where.startDateTime = { gte: new Date() };
+      occurrenceRange.gte = new Date();
     }
+    where.occurrences = { some: { startDateTime: occurrenceRange } };
 
     const events = await prisma.event.findMany({
       where,
       orderBy: { [scoreField]: 'desc' },
       take: 200, // Limit for performance
+      include: {
+        occurrences: {
+          where: { startDateTime: occurrenceRange },
+          orderBy: { startDateTime: 'asc' },
+        },
+      },
     });
 
+    const family = await loadFamilyProfile(userId);
+
     res.json({
       success: true,
       count: events.length,
-      events,
+      events: events.map((event) => withFamilyCost(atOccurrence(event, event.occurrences[0]), family)),
     });
   } catch (error: any) {
     console.error('Error fetching map events:', error);
@@ -326,10 +586,11 @@ router.get('/map/view', async (req: Request, res: Response) => {
 /**
  * GET /api/events/search
  * Search events by keyword
+ * Query params: q, view, limit, includeInactive, userId (family profile for familyCost)
  */
 router.get('/search/query', async (req: Request, res: Response) => {
   try {
-    const { q, view = 'family', limit = 50 } = req.query;
+    const { q, view = 'family', limit = 50, includeInactive, userId } = req.query;
 
     if (!q || typeof q !== 'string') {
       return res.status(400).json({
@@ -345,11 +606,13 @@ router.get('/search/query', async (req: Request, res: Response) => {
         ? 'scoreChild'
         : 'scoreFamily';
 
+    const now = new Date();
     const events = await prisma.event.findMany({
       where: {
         AND: [
           {
-            startDateTime: { gte: new Date() },
+            occurrences: { some: { startDateTime: { gte: now } } },
+            ...statusFilter(includeInactive),
           },
           {
             OR: [
@@ -357,19 +620,29 @@ router.get('/search/query', async (req: Request, res: Response) => {
               { description: { contains: q, mode: 'insensitive' } },
               { locationName: { contains: q, mode: 'insensitive' } },
               { category: { contains: q, mode: 'insensitive' } },
+              { tags: { has: q.toLowerCase() } },
             ],
           },
         ],
       },
       orderBy: { [scoreField]: 'desc' },
       take: parseInt(limit as string),
+      include: {
+        occurrences: {
+          where: { startDateTime: { gte: now } },
+          orderBy: { startDateTime: 'asc' },
+          take: 1,
+        },
+      },
     });
 
+    const family = await loadFamilyProfile(userId);
+
     res.json({
       success: true,
       query: q,
       count: events.length,
-      events,
+      events: events.map((event) => withFamilyCost(atOccurrence(event, event.occurrences[0]), family)),
     });
   } catch (error: any) {
     console.error('Error searching events:', error);
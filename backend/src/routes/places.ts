@@ -0,0 +1,121 @@
+/**
+ * API routes for places (permanent family attractions)
+ */
+
+import { Router, Request, Response } from 'express';
+import { Place, PrismaClient } from '@prisma/client';
+import { getPlaceholderImage } from '../utils/placeholderImages';
+import { isInSeason, isOpenOn } from '../utils/openingHours';
+import { pragueDayStart } from '../utils/timezone';
+import { loadFamilyProfile, withFamilyCost } from '../services/familyProfile';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Days with fewer events than this get always-open places suggested
+export const FALLBACK_MIN_EVENTS = parseInt(process.env.FALLBACK_MIN_EVENTS || '3');
+
+type ScoreField = 'scoreToddler' | 'scoreChild' | 'scoreFamily';
+
+/**
+ * Score column for a view ('toddler' | 'child' | 'family')
+ */
+export function placeScoreField(view: unknown): ScoreField {
+  return view === 'toddler' ? 'scoreToddler' : view === 'child' ? 'scoreChild' : 'scoreFamily';
+}
+
+/**
+ * All places, best first for a view, with placeholder images
+ */
+export async function loadPlaces(view: unknown): Promise<Place[]> {
+  const places = await prisma.place.findMany({
+    orderBy: [{ [placeScoreField(view)]: 'desc' }, { name: 'asc' }],
+  });
+
+  return places.map((place) =>
+    place.imageUrl ? place : { ...place, imageUrl: getPlaceholderImage(place.category || undefined, place.name) }
+  );
+}
+
+/**
+ * Places open on a day and in season, keeping their order
+ * @param places Places to choose from (see loadPlaces)
+ * @param date Day to check
+ * @param limit Maximum number of places
+ */
+export function placesOpenOn(places: Place[], date: Date, limit: number): Place[] {
+  return places
+    .filter((place) => isInSeason(place.seasonMonths, date) && isOpenOn(place.openingHours, date))
+    .slice(0, limit);
+}
+
+/**
+ * GET /api/places
+ * List places open on a day, best scored first
+ * Query params:
+ * - view: 'toddler' | 'child' | 'family'
+ * - date: ISO date string (default: today)
+ * - userId: family profile for familyCost
+ * - limit: number of places to return
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { view = 'family', date, userId, limit = 50 } = req.query;
+    const day = pragueDayStart(date ? new Date(date as string) : new Date());
+
+    const family = await loadFamilyProfile(userId);
+    const places = placesOpenOn(await loadPlaces(view), day, parseInt(limit as string)).map((place) =>
+      withFamilyCost(place, family)
+    );
+
+    res.json({
+      success: true,
+      date: day,
+      count: places.length,
+      places,
+    });
+  } catch (error: any) {
+    console.error('Error fetching places:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/places/:id
+ * Get single place by ID, with its venue
+ * Query params: userId (family profile for familyCost)
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { userId } = req.query;
+
+    const place = await prisma.place.findUnique({
+      where: { id },
+      include: { venue: true },
+    });
+
+    if (!place) {
+      return res.status(404).json({
+        success: false,
+        error: 'Place not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      place: withFamilyCost(place, await loadFamilyProfile(userId)),
+    });
+  } catch (error: any) {
+    console.error('Error fetching place:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+export default router;
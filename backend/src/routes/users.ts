@@ -0,0 +1,102 @@
+/**
+ * API routes for user settings
+ */
+
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { loadFamilyProfile } from '../services/familyProfile';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const MAX_FAMILY_MEMBERS = 12;
+const MAX_CHILD_AGE = 18;
+
+/**
+ * GET /api/users/:id/family
+ * Family profile used for familyCost in event and place responses
+ * (default profile when the user has not saved one)
+ */
+router.get('/:id/family', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, preference: { select: { id: true } } },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      family: await loadFamilyProfile(id),
+      isDefault: !user.preference,
+    });
+  } catch (error: any) {
+    console.error('Error fetching family profile:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * PUT /api/users/:id/family
+ * Save the family profile
+ * Body: { adults: number, childAges: number[] } - ages in years, e.g. [9, 1.5]
+ */
+router.put('/:id/family', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { adults, childAges } = req.body;
+
+    const validAdults = Number.isInteger(adults) && adults >= 0;
+    const validAges =
+      Array.isArray(childAges) &&
+      childAges.every((age: unknown) => typeof age === 'number' && age >= 0 && age <= MAX_CHILD_AGE);
+    const members = validAdults && validAges ? adults + childAges.length : 0;
+
+    if (members === 0 || members > MAX_FAMILY_MEMBERS) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid family. Expected adults and childAges (0-${MAX_CHILD_AGE} years), 1-${MAX_FAMILY_MEMBERS} members`,
+      });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const preference = await prisma.preference.upsert({
+      where: { userId: id },
+      create: { userId: id, adults, childAges },
+      update: { adults, childAges },
+      select: { adults: true, childAges: true },
+    });
+
+    res.json({
+      success: true,
+      family: preference,
+    });
+  } catch (error: any) {
+    console.error('Error saving family profile:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,166 @@
+/**
+ * API routes for venues
+ */
+
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { addPlaceholderImages, atOccurrence, statusFilter } from './events';
+import { loadFamilyProfile, withFamilyCost } from '../services/familyProfile';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Facility filters accepted as query params (?strollerAccess=true)
+const FACILITY_FILTERS = ['hasIndoor', 'hasOutdoor', 'strollerAccess', 'changingTable', 'parking'];
+
+/**
+ * GET /api/venues
+ * List venues with their number of upcoming events
+ * Query params:
+ * - q: name, alias or address contains
+ * - hasIndoor, hasOutdoor, strollerAccess, changingTable, parking: 'true' to require the facility
+ * - limit: number of venues to return
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { q, limit = 100 } = req.query;
+
+    const where: any = {};
+
+    if (q && typeof q === 'string') {
+      where.OR = [
+        { name: { contains: q, mode: 'insensitive' } },
+        { aliases: { has: q } },
+        { address: { contains: q, mode: 'insensitive' } },
+      ];
+    }
+
+    for (const facility of FACILITY_FILTERS) {
+      if (req.query[facility] === 'true') {
+        where[facility] = true;
+      }
+    }
+
+    const venues = await prisma.venue.findMany({
+      where,
+      orderBy: { name: 'asc' },
+      take: parseInt(limit as string),
+      include: {
+        _count: {
+          select: {
+            events: {
+              where: {
+                ...statusFilter(undefined),
+                occurrences: { some: { startDateTime: { gte: new Date() } } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    res.json({
+      success: true,
+      count: venues.length,
+      venues: venues.map(({ _count, ...venue }) => ({ ...venue, upcomingEvents: _count.events })),
+    });
+  } catch (error: any) {
+    console.error('Error fetching venues:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/venues/:id
+ * Get single venue by ID
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const venue = await prisma.venue.findUnique({ where: { id } });
+
+    if (!venue) {
+      return res.status(404).json({
+        success: false,
+        error: 'Venue not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      venue,
+    });
+  } catch (error: any) {
+    console.error('Error fetching venue:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/venues/:id/events
+ * Upcoming events at a venue, each on its next occurrence, soonest first
+ * Query params: includeInactive, userId (family profile for familyCost), limit
+ */
+router.get('/:id/events', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { includeInactive, userId, limit = 100 } = req.query;
+
+    const venue = await prisma.venue.findUnique({
+      where: { id },
+      select: { id: true, name: true },
+    });
+
+    if (!venue) {
+      return res.status(404).json({
+        success: false,
+        error: 'Venue not found',
+      });
+    }
+
+    const now = new Date();
+    const events = await prisma.event.findMany({
+      where: {
+        venueId: id,
+        ...statusFilter(includeInactive),
+        occurrences: { some: { startDateTime: { gte: now } } },
+      },
+      orderBy: { startDateTime: 'asc' },
+      take: parseInt(limit as string),
+      include: {
+        occurrences: {
+          where: { startDateTime: { gte: now } },
+          orderBy: { startDateTime: 'asc' },
+          take: 1,
+        },
+      },
+    });
+
+    const family = await loadFamilyProfile(userId);
+    const upcoming = events
+      .map((event) => withFamilyCost(atOccurrence(event, event.occurrences[0]), family))
+      .sort((a, b) => a.startDateTime.getTime() - b.startDateTime.getTime());
+
+    res.json({
+      success: true,
+      venue,
+      count: upcoming.length,
+      events: addPlaceholderImages(upcoming),
+    });
+  } catch (error: any) {
+    console.error('Error fetching venue events:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,717 @@
+/**
+ * Declarative scraper engine
+ * Runs ScraperDefinition configs: fetch -> cheerio -> field extraction -> RawEvent,
+ * following pagination and optionally enriching events from their detail pages
+ */
+
+import * as cheerio from 'cheerio';
+import {
+  RawEvent,
+  ScraperResult,
+  ScraperStats,
+  ScraperDefinition,
+  ScraperDetailFieldName,
+  ScraperFetchOptions,
+  ScraperFieldName,
+  ScraperFieldSpec,
+  ScraperItem,
+  ScraperItemContext,
+} from '../types';
+import { extractDuration, parseCzechDateText, parseRecurrence, ParsedDate } from '../utils/dateParser';
+import { parseCzechPrice, parsePriceTiers, summarizePriceTiers } from '../utils/priceParser';
+import { extractAgeRange } from '../utils/ageParser';
+import { classifyCategories } from '../utils/categories';
+import { inferSetting } from '../utils/setting';
+import {
+  extractTextWithFallback,
+  extractAttrWithFallback,
+  cleanText,
+  createHash,
+  delay,
+  isCancelledText,
+} from '../utils/scraperHelper';
+import {
+  scrapeAndLoadCheerio,
+  resolveRenderer,
+  renderFailureMessage,
+  rendererUnavailableMessage,
+} from '../utils/firecrawlHelper';
+import { ReplayMissError, fetchPage, httpFetcher } from '../utils/fetcher';
+import { extractJsonLdEvents } from '../utils/jsonLdParser';
+
+const DEFAULT_MAX_PAGES = 5;
+const DEFAULT_MAX_DETAIL_EVENTS = 50;
+const DETAIL_CACHE_TTL = 6 * 60 * 60 * 1000; // 6 hours
+
+// Detail pages shared by sources and repeated runs (null = fetch failed)
+const detailCache = new Map<string, { $: cheerio.CheerioAPI | null; fetchedAt: number }>();
+
+/**
+ * Resolve a possibly relative URL against the source origin
+ */
+export function resolveUrl(url: string | undefined, baseUrl: string): string | undefined {
+  if (!url) return undefined;
+  return url.startsWith('http') ? url : `${baseUrl}${url}`;
+}
+
+/**
+ * Extract a single raw field from a listing item
+ */
+function extractField(item: ScraperItem, spec: ScraperFieldSpec): string | undefined {
+  if (typeof spec === 'function') {
+    return spec(item) || undefined;
+  }
+
+  if (Array.isArray(spec)) {
+    return extractTextWithFallback(item.$el, spec) || undefined;
+  }
+
+  const value = spec.attr
+    ? extractAttrWithFallback(item.$el, spec.selectors, spec.attr)
+    : extractTextWithFallback(item.$el, spec.selectors);
+
+  if (!value) return undefined;
+  return spec.transform ? spec.transform(value) || undefined : value;
+}
+
+/**
+ * Date and time fields of an item read together ("27. 10.–29. 10." + "10:00–12:00")
+ */
+function parseItemDateText(ctx: ScraperItemContext): ParsedDate | null {
+  const { date, time } = ctx.fields;
+  return date ? parseCzechDateText(time ? `${date} ${time}` : date) : null;
+}
+
+/**
+ * Default start date parsing: machine-readable datetime first, then Czech date + time
+ */
+function parseItemDate(ctx: ScraperItemContext): Date | null {
+  const { dateTime } = ctx.fields;
+
+  if (dateTime) {
+    const parsed = new Date(dateTime);
+    if (!isNaN(parsed.getTime())) {
+      return parsed;
+    }
+  }
+
+  return parseItemDateText(ctx)?.start ?? null;
+}
+
+/**
+ * End of date ranges like "27. 10.–29. 10." and time ranges like "10:00–12:00"
+ */
+function parseItemEndDate(ctx: ScraperItemContext): Date | undefined {
+  return parseItemDateText(ctx)?.end;
+}
+
+/**
+ * Build a RawEvent from an item context
+ */
+function buildEvent(
+  definition: ScraperDefinition,
+  ctx: ScraperItemContext,
+  startDateTime: Date
+): RawEvent {
+  const { fields, text } = ctx;
+  const title = fields.title || '';
+  const description = fields.description;
+  const location = fields.location;
+
+  const price = parseCzechPrice(fields.price || '');
+  const textTiers = parsePriceTiers(text);
+  const priceTiers = textTiers.length > 0 ? textTiers : parsePriceTiers(fields.price || '');
+  const prices = summarizePriceTiers(textTiers);
+  const ageRange = extractAgeRange(text);
+  const duration = extractDuration(text);
+
+  const contentText = title + ' ' + (description || '');
+  const { category, tags } = classifyCategories(contentText);
+  const setting = inferSetting(tags, cleanText(contentText), definition.outdoorKeywords);
+
+  const idKey = definition.externalIdKey
+    ? definition.externalIdKey(ctx)
+    : title + (fields.date || '') + (location || '');
+
+  return {
+    externalId: `${definition.name}-${createHash(idKey)}`,
+    source: definition.name,
+    title: cleanText(title),
+    description: description ? cleanText(description) : undefined,
+    startDateTime,
+    endDateTime: parseItemEndDate(ctx),
+    locationName: location || undefined,
+    address: fields.address || location || undefined,
+    category,
+    tags: tags.length > 0 ? tags : undefined,
+    ageMin: ageRange.ageMin,
+    ageMax: ageRange.ageMax,
+    ageConfidence: ageRange.confidence || undefined,
+    adultPrice: prices.adultPrice || price || undefined,
+    childPrice: prices.childPrice,
+    familyPrice: prices.familyPrice,
+    priceTiers: priceTiers.length > 0 ? priceTiers : undefined,
+    setting,
+    durationMinutes: duration || undefined,
+    imageUrl: resolveUrl(fields.image, definition.baseUrl),
+    bookingUrl: resolveUrl(fields.link, definition.baseUrl),
+    recurrence: parseRecurrence(text) || undefined,
+  };
+}
+
+/**
+ * Build the item context hooks see for an event read from JSON-LD
+ */
+function jsonLdContext(
+  event: RawEvent,
+  $: cheerio.CheerioAPI,
+  pageUrl: string,
+  index: number
+): ScraperItemContext {
+  return {
+    $,
+    $el: $.root(),
+    index,
+    pageUrl,
+    text: event.title + ' ' + (event.description || ''),
+    fields: {
+      title: event.title,
+      description: event.description,
+      dateTime: event.startDateTime.toISOString(),
+      location: event.locationName,
+      address: event.address,
+      image: event.imageUrl,
+      link: event.bookingUrl,
+    },
+  };
+}
+
+/**
+ * Key used to tell whether a selector-scraped card is already covered by JSON-LD
+ */
+function coverageKey(event: RawEvent): string {
+  return event.bookingUrl || cleanText(event.title).toLowerCase();
+}
+
+/**
+ * Extract schema.org events embedded in a listing page
+ * @returns Events after the definition's filter and transform hooks
+ */
+function scrapeJsonLd(definition: ScraperDefinition, $: cheerio.CheerioAPI, pageUrl: string): RawEvent[] {
+  if (definition.jsonLd === false) return [];
+
+  const minTitleLength = definition.minTitleLength ?? 1;
+  const events: RawEvent[] = [];
+
+  extractJsonLdEvents($, {
+    source: definition.name,
+    pageUrl,
+    outdoorKeywords: definition.outdoorKeywords,
+  }).forEach((ldEvent, index) => {
+    if (ldEvent.title.length < minTitleLength) return;
+
+    const ctx = jsonLdContext(ldEvent, $, pageUrl, index);
+    let event = definition.externalIdKey
+      ? { ...ldEvent, externalId: `${definition.name}-${createHash(definition.externalIdKey(ctx))}` }
+      : ldEvent;
+
+    if (definition.filter && !definition.filter(event, ctx)) return;
+    if (definition.transform) {
+      event = definition.transform(event, ctx);
+    }
+
+    events.push(event);
+  });
+
+  return events;
+}
+
+/**
+ * Extract events from listing items matched by the definition's selectors
+ */
+function scrapeItems(
+  definition: ScraperDefinition,
+  $: cheerio.CheerioAPI,
+  pageUrl: string
+): { events: RawEvent[]; errors: string[]; itemCount: number; missingDate: number } {
+  const events: RawEvent[] = [];
+  const errors: string[] = [];
+  const minTitleLength = definition.minTitleLength ?? 1;
+  let missingDate = 0;
+
+  const items: ScraperItem[] = [];
+  $(definition.itemSelector).each((index, element) => {
+    const item: ScraperItem = { $, $el: $(element), index, pageUrl };
+    if (!definition.itemFilter || definition.itemFilter(item)) {
+      items.push(item);
+    }
+  });
+
+  console.log(`[${definition.name}] Found ${items.length} potential event elements on ${pageUrl}`);
+
+  for (const item of items) {
+    try {
+      const fields: ScraperItemContext['fields'] = {};
+      for (const [name, spec] of Object.entries(definition.fields)) {
+        if (spec) {
+          fields[name as ScraperFieldName] = extractField(item, spec);
+        }
+      }
+
+      const title = fields.title;
+      if (!title || title.length < minTitleLength) continue;
+
+      const text = definition.itemText ? definition.itemText(item) : item.$el.text();
+      const ctx: ScraperItemContext = { ...item, text, fields };
+
+      const startDateTime = definition.parseDate ? definition.parseDate(ctx) : parseItemDate(ctx);
+      if (!startDateTime) {
+        missingDate++;
+        if (definition.reportMissingDate) {
+          errors.push(`Failed to parse date for event: ${title}`);
+        } else {
+          console.log(`[${definition.name}] Skipping event without valid date: ${title} (${fields.date || ''})`);
+        }
+        continue;
+      }
+
+      let event = buildEvent(definition, ctx, startDateTime);
+      if (isCancelledText(text)) {
+        event.cancelled = true;
+      }
+
+      if (definition.filter && !definition.filter(event, ctx)) continue;
+      if (definition.transform) {
+        event = definition.transform(event, ctx);
+      }
+
+      events.push(event);
+    } catch (error: any) {
+      errors.push(`Error parsing event ${item.index}: ${error.message}`);
+    }
+  }
+
+  return { events, errors, itemCount: items.length, missingDate };
+}
+
+/**
+ * Extract events from an already loaded listing page
+ * schema.org JSON-LD events are preferred; selector-scraped cards only add events
+ * the structured data does not cover
+ * @param definition Scraper definition
+ * @param $ Loaded listing page
+ * @param pageUrl URL the page was loaded from
+ * @returns Parsed events, per-item errors, the number of matched items and items without a date
+ */
+export function scrapeDocument(
+  definition: ScraperDefinition,
+  $: cheerio.CheerioAPI,
+  pageUrl: string
+): { events: RawEvent[]; errors: string[]; itemCount: number; missingDate: number } {
+  const ldEvents = scrapeJsonLd(definition, $, pageUrl);
+  const result = scrapeItems(definition, $, pageUrl);
+
+  if (ldEvents.length === 0) {
+    return result;
+  }
+
+  console.log(`[${definition.name}] Found ${ldEvents.length} JSON-LD events on ${pageUrl}`);
+
+  const covered = new Set(ldEvents.map(coverageKey));
+  const extraEvents = result.events.filter((event) => !covered.has(coverageKey(event)));
+
+  return {
+    events: [...ldEvents, ...extraEvents],
+    errors: result.errors,
+    itemCount: result.itemCount + ldEvents.length,
+    missingDate: result.missingDate,
+  };
+}
+
+/**
+ * Fetch a page using the given fetch strategy (through the fetch layer's cache)
+ * Rendered listing pages wait for the item selector unless the definition sets its own
+ */
+async function loadPage(
+  fetch: ScraperFetchOptions,
+  url: string,
+  itemSelector?: string
+): Promise<cheerio.CheerioAPI | null> {
+  if (fetch.strategy !== 'axios') {
+    const { strategy, ...renderOptions } = fetch;
+    return scrapeAndLoadCheerio(url, {
+      waitForSelector: itemSelector,
+      ...renderOptions,
+      renderer: strategy,
+    });
+  }
+
+  const response = await fetchPage(httpFetcher, {
+    url,
+    params: fetch.params,
+    headers: fetch.headers,
+    timeout: fetch.timeout,
+  });
+
+  return response ? cheerio.load(response.body) : null;
+}
+
+/**
+ * Work out the URL of the listing page following the current one
+ * @returns Next page URL, or undefined when pagination ends
+ */
+function nextPageUrl(
+  definition: ScraperDefinition,
+  $: cheerio.CheerioAPI,
+  pageUrl: string,
+  pageNumber: number
+): string | undefined {
+  const { pagination } = definition;
+  if (!pagination) return undefined;
+
+  if (pagination.nextSelector) {
+    const href = $(pagination.nextSelector).first().attr('href');
+    return href ? new URL(href, pageUrl).toString() : undefined;
+  }
+
+  if (pagination.pageParam) {
+    const url = new URL(pageUrl);
+    url.searchParams.set(pagination.pageParam, String(pageNumber + 1));
+    return url.toString();
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether an event was already listed on an earlier page (same id or booking URL)
+ */
+function isSeen(seen: Set<string>, event: RawEvent): boolean {
+  return seen.has(`id:${event.externalId}`) || (!!event.bookingUrl && seen.has(`url:${event.bookingUrl}`));
+}
+
+function markSeen(seen: Set<string>, event: RawEvent): void {
+  seen.add(`id:${event.externalId}`);
+  if (event.bookingUrl) seen.add(`url:${event.bookingUrl}`);
+}
+
+/**
+ * Scrape one list URL, following pagination up to the configured limit
+ * Stops early when a page adds no events beyond those of earlier pages
+ */
+async function scrapeListUrl(
+  definition: ScraperDefinition,
+  listUrl: string,
+  events: RawEvent[],
+  errors: string[],
+  stats: ScraperStats
+): Promise<void> {
+  const maxPages = definition.pagination ? definition.pagination.maxPages ?? DEFAULT_MAX_PAGES : 1;
+  const visited = new Set<string>();
+  const seen = new Set<string>();
+  let url: string | undefined = listUrl;
+  let pageNumber = 1;
+
+  while (url && pageNumber <= maxPages && !visited.has(url)) {
+    visited.add(url);
+
+    if (pageNumber > 1) {
+      await delay(definition.delayBetweenPages ?? 2000);
+    }
+
+    let $: cheerio.CheerioAPI | null;
+    try {
+      $ = await loadPage(definition.fetch, url, definition.itemSelector);
+    } catch (error: any) {
+      // Sites commonly answer past-the-end pages with 404
+      if (pageNumber > 1) {
+        console.log(`[${definition.name}] Stopping pagination at ${url}: ${error.message}`);
+        return;
+      }
+      errors.push(error instanceof ReplayMissError ? error.message : `Failed to fetch ${url}: ${error.message}`);
+      console.error(`[${definition.name}] Error:`, error.message);
+      return;
+    }
+
+    if (!$) {
+      const { strategy } = definition.fetch;
+      errors.push(renderFailureMessage(url, strategy === 'axios' ? undefined : strategy));
+      return;
+    }
+
+    const result = scrapeDocument(definition, $, url);
+    if (result.itemCount === 0) {
+      if (pageNumber === 1) {
+        errors.push(`No event elements found on ${url}`);
+      }
+      return;
+    }
+
+    // Sites that ignore the page parameter serve the first page again
+    const added = result.events.filter((event) => !isSeen(seen, event));
+    if (pageNumber > 1 && result.events.length > 0 && added.length === 0) {
+      console.log(`[${definition.name}] Stopping pagination at ${url}: no new events`);
+      return;
+    }
+    added.forEach((event) => markSeen(seen, event));
+
+    events.push(...added);
+    errors.push(...result.errors);
+    stats.found += result.itemCount;
+    stats.missingDate += result.missingDate;
+
+    url = nextPageUrl(definition, $, url, pageNumber);
+    pageNumber++;
+  }
+}
+
+/**
+ * Fetch a detail page through the shared cache
+ */
+async function loadDetailPage(fetch: ScraperFetchOptions, url: string): Promise<cheerio.CheerioAPI | null> {
+  const cached = detailCache.get(url);
+  if (cached && Date.now() - cached.fetchedAt < DETAIL_CACHE_TTL) {
+    return cached.$;
+  }
+
+  let $: cheerio.CheerioAPI | null = null;
+  try {
+    $ = await loadPage(fetch, url);
+  } catch (error: any) {
+    console.log(`Failed to load detail page ${url}: ${error.message}`);
+  }
+
+  evictExpiredDetails();
+  detailCache.set(url, { $, fetchedAt: Date.now() });
+  return $;
+}
+
+/**
+ * Drop detail pages past their TTL so the cache does not grow across daily runs
+ */
+function evictExpiredDetails(): void {
+  const now = Date.now();
+  for (const [url, entry] of detailCache) {
+    if (now - entry.fetchedAt >= DETAIL_CACHE_TTL) {
+      detailCache.delete(url);
+    }
+  }
+}
+
+/**
+ * Confidence of an event's ages: 0 without ages, 1 when the source did not say
+ */
+function ageConfidence(event: RawEvent): number {
+  if (event.ageMin === undefined && event.ageMax === undefined) return 0;
+  return event.ageConfidence ?? 1;
+}
+
+/**
+ * Whether the listing card gave an address of its own (not the location name
+ * used as a fallback address)
+ */
+function hasListedAddress(event: RawEvent): boolean {
+  return !!event.address && event.address !== event.locationName;
+}
+
+/**
+ * Fill in fields the listing card did not provide from the event's detail page
+ * Listing values win; a longer detail description replaces a teaser and more
+ * confident detail ages replace ages guessed from the card
+ */
+function applyDetail(event: RawEvent, detail: Partial<Record<ScraperDetailFieldName, string>>): RawEvent {
+  const enriched = { ...event };
+  const text = detail.text || '';
+
+  if (detail.description) {
+    const description = cleanText(detail.description);
+    if (description.length > (event.description?.length || 0)) {
+      enriched.description = description;
+    }
+  }
+
+  if (detail.address && !hasListedAddress(event)) {
+    enriched.address = cleanText(detail.address);
+  }
+
+  const ageRange = extractAgeRange(text);
+  if (ageRange.confidence > ageConfidence(event)) {
+    enriched.ageMin = ageRange.ageMin;
+    enriched.ageMax = ageRange.ageMax;
+    enriched.ageConfidence = ageRange.confidence || undefined;
+  }
+
+  if (!event.adultPrice && !event.childPrice && !event.familyPrice) {
+    const textTiers = parsePriceTiers(text);
+    const priceTiers = textTiers.length > 0 ? textTiers : parsePriceTiers(detail.price || '');
+    const prices = summarizePriceTiers(textTiers);
+    enriched.adultPrice = prices.adultPrice || parseCzechPrice(detail.price || '') || undefined;
+    enriched.childPrice = prices.childPrice;
+    enriched.familyPrice = prices.familyPrice;
+    if (!event.priceTiers && priceTiers.length > 0) {
+      enriched.priceTiers = priceTiers;
+    }
+  }
+
+  if (!event.durationMinutes) {
+    enriched.durationMinutes = extractDuration(text) || undefined;
+  }
+
+  return enriched;
+}
+
+/**
+ * Fill in fields from a schema.org event on the detail page
+ * Structured data wins over selector-read detail values for anything the listing lacked
+ * @param listed Event as scraped from the listing
+ * @param enriched Event after selector-based detail enrichment
+ * @param ldEvent Event read from the detail page's JSON-LD
+ */
+function applyJsonLdDetail(listed: RawEvent, enriched: RawEvent, ldEvent: RawEvent): RawEvent {
+  const result = { ...enriched };
+
+  if (ldEvent.description && ldEvent.description.length > (result.description?.length || 0)) {
+    result.description = ldEvent.description;
+  }
+  if (ldEvent.address && !hasListedAddress(listed)) {
+    result.address = ldEvent.address;
+  }
+  if (ageConfidence(ldEvent) > ageConfidence(listed)) {
+    result.ageMin = ldEvent.ageMin;
+    result.ageMax = ldEvent.ageMax;
+    result.ageConfidence = ldEvent.ageConfidence;
+  }
+  if (
+    listed.adultPrice === undefined && listed.childPrice === undefined && listed.familyPrice === undefined &&
+    (ldEvent.adultPrice !== undefined || ldEvent.childPrice !== undefined || ldEvent.familyPrice !== undefined)
+  ) {
+    result.adultPrice = ldEvent.adultPrice;
+    result.childPrice = ldEvent.childPrice;
+    result.familyPrice = ldEvent.familyPrice;
+  }
+  if (!listed.priceTiers && ldEvent.priceTiers) {
+    result.priceTiers = ldEvent.priceTiers;
+  }
+  if (!listed.durationMinutes && ldEvent.durationMinutes) {
+    result.durationMinutes = ldEvent.durationMinutes;
+  }
+  result.endDateTime = result.endDateTime || ldEvent.endDateTime;
+  result.recurrence = result.recurrence || ldEvent.recurrence;
+  result.imageUrl = result.imageUrl || ldEvent.imageUrl;
+
+  return result;
+}
+
+/**
+ * Enrich events from their detail pages (bookingUrl)
+ * @param definition Scraper definition with a detail config
+ * @param events Events scraped from listing pages
+ * @returns Events with gaps filled in where the detail page had data
+ */
+async function enrichWithDetails(definition: ScraperDefinition, events: RawEvent[]): Promise<RawEvent[]> {
+  const detail = definition.detail;
+  if (!detail) return events;
+
+  const fetch = detail.fetch || definition.fetch;
+  const maxEvents = detail.maxEvents ?? DEFAULT_MAX_DETAIL_EVENTS;
+
+  if (fetch.strategy !== 'axios' && !resolveRenderer(fetch.strategy)) {
+    return events;
+  }
+
+  let fetched = 0;
+  const enriched: RawEvent[] = [];
+
+  for (const event of events) {
+    if (!event.bookingUrl || fetched >= maxEvents) {
+      enriched.push(event);
+      continue;
+    }
+
+    fetched++;
+    const $ = await loadDetailPage(fetch, event.bookingUrl);
+    if (!$) {
+      enriched.push(event);
+      continue;
+    }
+
+    const item: ScraperItem = { $, $el: $.root(), index: 0, pageUrl: event.bookingUrl };
+    const fields: Partial<Record<ScraperDetailFieldName, string>> = {};
+    for (const [name, spec] of Object.entries(detail.fields)) {
+      if (spec) {
+        fields[name as ScraperDetailFieldName] = extractField(item, spec);
+      }
+    }
+    fields.text = fields.text || $('main').text() || $('body').text();
+
+    let detailed = applyDetail(event, fields);
+
+    // A detail page usually describes exactly one event
+    const [ldEvent] = definition.jsonLd === false
+      ? []
+      : extractJsonLdEvents($, { source: definition.name, pageUrl: event.bookingUrl });
+    if (ldEvent) {
+      detailed = applyJsonLdDetail(event, detailed, ldEvent);
+    }
+
+    enriched.push(detailed);
+  }
+
+  console.log(`[${definition.name}] Enriched ${fetched} events from detail pages`);
+
+  return enriched;
+}
+
+/**
+ * Clear cached detail pages
+ */
+export function clearDetailCache(): void {
+  detailCache.clear();
+}
+
+/**
+ * Run a declarative scraper definition
+ * @param definition Scraper definition
+ * @returns Scraper result with events and errors
+ */
+export async function runScraperDefinition(definition: ScraperDefinition): Promise<ScraperResult> {
+  const startTime = Date.now();
+  const events: RawEvent[] = [];
+  const errors: string[] = [];
+  const stats: ScraperStats = { found: 0, missingDate: 0 };
+
+  console.log(`[${definition.name}] Starting scrape...`);
+
+  if (definition.fetch.strategy !== 'axios' && !resolveRenderer(definition.fetch.strategy)) {
+    const message = rendererUnavailableMessage(definition.fetch.strategy);
+    console.log(`[${definition.name}] ${message}, skipping dynamic content scraper`);
+    return {
+      source: definition.name,
+      events: [],
+      errors: [message],
+      executionTime: Date.now() - startTime,
+      stats,
+    };
+  }
+
+  for (let i = 0; i < definition.listUrls.length; i++) {
+    // Rate limit between listing pages of the same source
+    if (i > 0) {
+      await delay(definition.delayBetweenPages ?? 2000);
+    }
+
+    await scrapeListUrl(definition, definition.listUrls[i], events, errors, stats);
+  }
+
+  const enrichedEvents = await enrichWithDetails(definition, events);
+
+  console.log(`[${definition.name}] Found ${enrichedEvents.length} events`);
+
+  return {
+    source: definition.name,
+    events: enrichedEvents,
+    errors,
+    executionTime: Date.now() - startTime,
+    stats,
+  };
+}
@@ -2,66 +2,120 @@
  * Scraper orchestrator - coordinates all event scrapers
  */
 
-import { scrapeGoOut } from './goout';
-import { scrapeKudyZnudy } from './kudyznudy';
-import { scrapeVyletyZabava } from './vylety-zabava';
+import { gooutDefinition } from './goout';
+import { kudyznudyDefinition } from './kudyznudy';
+import { vyletyZabavaDefinition } from './vylety-zabava';
 import { scrapeOverenoRodici } from './overenorodici';
-import { scrapeKdykde } from './kdykde';
+import { kdykdeDefinition } from './kdykde';
 import { scrapePraguest } from './praguest';
-import { scrapeEntentyky } from './ententyky';
-import { scrapeSlevomat } from './slevomat';
-import { scrapeSkvelecesko } from './skvelecesko';
-import { RawEvent, ScraperResult } from '../types';
+import { ententykyDefinition } from './ententyky';
+import { slevomatDefinition } from './slevomat';
+import { skveleceskoDefinition } from './skvelecesko';
+import { runScraperDefinition } from './engine';
+import { runScheduled, SchedulerOptions } from './scheduler';
+import { closeBrowser } from '../utils/puppeteerHelper';
+import { RawEvent, RawPlace, ScraperDefinition, ScraperResult } from '../types';
+
+/**
+ * Registry entry - either a declarative definition run by the scraper engine
+ * or a hand-written scraper function (timeoutMs overrides the scheduler default)
+ */
+export type ScraperEntry =
+  | { name: string; definition: ScraperDefinition; timeoutMs?: number }
+  | { name: string; fn: () => Promise<ScraperResult>; timeoutMs?: number };
 
 /**
  * List of all scrapers with their functions
- * Note: Some scrapers are excluded as they don't provide time-bound family events:
- * - overenorodici.cz: Provides place recommendations (not time-bound events)
+ * Note: Some scrapers don't provide time-bound family events:
+ * - overenorodici.cz: Provides place recommendations, returned as places (not events)
  * - skvelecesko.cz: Low event coverage for Prague family activities
  * - vylety-zabava.cz: Contains outdated long-term events
  */
-export const SCRAPERS = [
-  { name: 'goout.net', fn: scrapeGoOut },
-  { name: 'vylety-zabava.cz', fn: scrapeVyletyZabava },
-  { name: 'kdykde.cz', fn: scrapeKdykde }, // Static HTML - no Firecrawl needed
-  { name: 'kudyznudy.cz', fn: scrapeKudyZnudy }, // Requires Firecrawl
+export const SCRAPERS: ScraperEntry[] = [
+  { name: 'goout.net', definition: gooutDefinition },
+  { name: 'vylety-zabava.cz', definition: vyletyZabavaDefinition },
+  { name: 'kdykde.cz', definition: kdykdeDefinition }, // Static HTML - no Firecrawl needed
+  { name: 'kudyznudy.cz', definition: kudyznudyDefinition }, // Requires Firecrawl
   { name: 'overenorodici.cz', fn: scrapeOverenoRodici }, // Requires Firecrawl - place recommendations
   { name: 'praguest.com', fn: scrapePraguest }, // Requires Firecrawl
-  { name: 'ententyky.cz', fn: scrapeEntentyky }, // Requires Firecrawl
-  { name: 'slevomat.cz', fn: scrapeSlevomat }, // Requires Firecrawl - deals for kids
-  { name: 'skvelecesko.cz', fn: scrapeSkvelecesko }, // Requires Firecrawl
+  { name: 'ententyky.cz', definition: ententykyDefinition }, // Requires Firecrawl
+  { name: 'slevomat.cz', definition: slevomatDefinition }, // Requires Firecrawl - deals for kids
+  { name: 'skvelecesko.cz', definition: skveleceskoDefinition }, // Requires Firecrawl
 ];
 
 /**
- * Run all scrapers in parallel with rate limiting
- * @param delayBetweenScrapers Delay in ms between starting each scraper (default: 2000)
- * @returns Array of scraper results
+ * Run a single registry entry
+ * @param scraper Scraper entry (definition or function)
+ * @returns Scraper result
  */
-export async function runAllScrapers(
-  delayBetweenScrapers: number = 2000
-): Promise<ScraperResult[]> {
-  console.log('=== Starting all scrapers ===');
-  const results: ScraperResult[] = [];
+export function runScraper(scraper: ScraperEntry): Promise<ScraperResult> {
+  return 'definition' in scraper ? runScraperDefinition(scraper.definition) : scraper.fn();
+}
+
+// Scraper attempts still running, including ones the scheduler gave up on after a timeout
+const pendingAttempts = new Set<Promise<ScraperResult>>();
+let activeRuns = 0;
 
-  for (const scraper of SCRAPERS) {
-    try {
-      const result = await scraper.fn();
-      results.push(result);
+/**
+ * Close the shared headless browser once no run and no scraper attempt uses it
+ */
+async function closeBrowserWhenIdle(): Promise<void> {
+  if (activeRuns === 0 && pendingAttempts.size === 0) {
+    await closeBrowser();
+  }
+}
+
+/**
+ * Start a scraper attempt and track it until it settles
+ */
+function trackAttempt(scraper: ScraperEntry): Promise<ScraperResult> {
+  const attempt = runScraper(scraper);
+  pendingAttempts.add(attempt);
+  const settle = () => {
+    pendingAttempts.delete(attempt);
+    return closeBrowserWhenIdle();
+  };
+  attempt.then(settle, settle);
+  return attempt;
+}
 
-      // Delay before next scraper to respect rate limits
-      if (delayBetweenScrapers > 0) {
-        await new Promise((resolve) => setTimeout(resolve, delayBetweenScrapers));
-      }
-    } catch (error: any) {
-      console.error(`Error running scraper ${scraper.name}:`, error);
-      results.push({
-        source: scraper.name,
-        events: [],
-        errors: [error.message],
-        executionTime: 0,
-      });
+/**
+ * Run scrapers through the scheduler (concurrency limit, timeouts, retries)
+ * The headless browser, if any scraper started it, is closed afterwards - or,
+ * when a timed-out scraper is still running, as soon as that one settles
+ * @param scrapers Entries to run
+ * @param options Scheduler settings (defaults from SCRAPER_* env variables)
+ * @returns One result per entry, in registry order
+ */
+export async function runScrapers(scrapers: ScraperEntry[], options: SchedulerOptions = {}): Promise<ScraperResult[]> {
+  activeRuns++;
+  try {
+    return await runScheduled(
+      scrapers.map((scraper) => ({
+        name: scraper.name,
+        timeoutMs: scraper.timeoutMs,
+        run: () => trackAttempt(scraper),
+      })),
+      options
+    );
+  } finally {
+    activeRuns--;
+    if (pendingAttempts.size > 0) {
+      console.log(`Closing the browser after ${pendingAttempts.size} timed-out scraper(s) settle`);
     }
+    await closeBrowserWhenIdle();
   }
+}
+
+/**
+ * Run all scrapers concurrently
+ * @param options Scheduler settings (defaults from SCRAPER_* env variables)
+ * @returns Array of scraper results
+ */
+export async function runAllScrapers(options: SchedulerOptions = {}): Promise<ScraperResult[]> {
+  console.log('=== Starting all scrapers ===');
+  const startTime = Date.now();
+  const results = await runScrapers(SCRAPERS, options);
 
   const totalEvents = results.reduce((sum, r) => sum + r.events.length, 0);
   const totalErrors = results.reduce((sum, r) => sum + r.errors.length, 0);
@@ -70,7 +124,7 @@ export async function runAllScrapers(
   console.log('=== Scraping complete ===');
   console.log(`Total events found: ${totalEvents}`);
   console.log(`Total errors: ${totalErrors}`);
-  console.log(`Total execution time: ${totalTime}ms`);
+  console.log(`Total execution time: ${totalTime}ms (${Date.now() - startTime}ms wall clock)`);
 
   return results;
 }
@@ -84,6 +138,15 @@ export function getAllEvents(results: ScraperResult[]): RawEvent[] {
   return results.flatMap((result) => result.events);
 }
 
+/**
+ * Get all places (permanent attractions) from scraper results
+ * @param results Array of scraper results
+ * @returns Flattened array of all places
+ */
+export function getAllPlaces(results: ScraperResult[]): RawPlace[] {
+  return results.flatMap((result) => result.places || []);
+}
+
 /**
  * Get all errors from scraper results
  * @param results Array of scraper results
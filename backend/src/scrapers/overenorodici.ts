@@ -1,37 +1,49 @@
 /**
- * Scraper for overenorodici.cz (Verified Parents - family-friendly places and events)
- * Uses Firecrawl for dynamic content
+ * Scraper for overenorodici.cz (Verified Parents - family-friendly places)
+ * Lists permanent attractions (playgrounds, zoos, museums), returned as places
+ * rather than dated events
+ * Uses Firecrawl (or local Puppeteer) for dynamic content
  */
 
-import { RawEvent, ScraperResult } from '../types';
-import { parseCzechDate, combineDateAndTime, extractDuration } from '../utils/dateParser';
-import { parseCzechPrice, extractPrices, extractAgeRange } from '../utils/priceParser';
+import { RawPlace, ScraperResult } from '../types';
+import { parseCzechPrice, extractPrices } from '../utils/priceParser';
+import { extractAgeRange } from '../utils/ageParser';
+import { classifyCategories } from '../utils/categories';
+import { inferSetting } from '../utils/setting';
+import { parseCzechOpeningHours, parseSeasonMonths } from '../utils/openingHours';
 import {
   extractTextWithFallback,
   extractAttrWithFallback,
   cleanText,
-  determineCategoryFromText,
   createHash
 } from '../utils/scraperHelper';
-import { scrapeAndLoadCheerio, isFirecrawlAvailable } from '../utils/firecrawlHelper';
+import {
+  scrapeAndLoadCheerio,
+  resolveRenderer,
+  renderFailureMessage,
+  rendererUnavailableMessage,
+} from '../utils/firecrawlHelper';
 
 const SOURCE_NAME = 'overenorodici.cz';
 const BASE_URL = 'https://www.overenorodici.cz/seznam-mist';
 
+const OUTDOOR_KEYWORDS = ['hřiště', 'zoo', 'park', 'zahrada', 'sady', 'farma', 'koupaliště', 'venkovní', 'příroda'];
+
 export async function scrapeOverenoRodici(): Promise<ScraperResult> {
   const startTime = Date.now();
-  const events: RawEvent[] = [];
+  const places: RawPlace[] = [];
   const errors: string[] = [];
 
   console.log(`[${SOURCE_NAME}] Starting scrape...`);
 
-  // Check if Firecrawl is available
-  if (!isFirecrawlAvailable()) {
-    console.log(`[${SOURCE_NAME}] Firecrawl API key not configured, skipping`);
+  // Check if Firecrawl (or the Puppeteer fallback) is available
+  if (!resolveRenderer()) {
+    console.log(`[${SOURCE_NAME}] ${rendererUnavailableMessage()}, skipping`);
     return {
       source: SOURCE_NAME,
       events: [],
-      errors: ['Firecrawl API key not configured'],
+      places: [],
+      errors: [rendererUnavailableMessage()],
       executionTime: Date.now() - startTime,
     };
   }
@@ -46,12 +58,13 @@ export async function scrapeOverenoRodici(): Promise<ScraperResult> {
       return {
         source: SOURCE_NAME,
         events: [],
-        errors: ['Failed to scrape with Firecrawl'],
+        places: [],
+        errors: [renderFailureMessage(BASE_URL)],
         executionTime: Date.now() - startTime,
       };
     }
 
-    // Try multiple potential selectors for places/events
+    // Try multiple potential selectors for places
     const selectors = [
       '.place-card',
       '.event-card',
@@ -63,7 +76,7 @@ export async function scrapeOverenoRodici(): Promise<ScraperResult> {
 
     for (const selector of selectors) {
       const elements = $(selector);
-      if (elements.length > 3) { // Found potential events
+      if (elements.length > 3) { // Found potential places
         console.log(`[${SOURCE_NAME}] Found ${elements.length} items with selector: ${selector}`);
 
         elements.each((index, element) => {
@@ -76,13 +89,38 @@ export async function scrapeOverenoRodici(): Promise<ScraperResult> {
             const description = extractTextWithFallback($el, ['.description', '.perex', 'p']);
             const location = extractTextWithFallback($el, ['.location', '.address', '.place']);
             const priceStr = extractTextWithFallback($el, ['.price', '.cena']);
+            const hoursStr = extractTextWithFallback($el, ['.opening-hours', '.oteviraci-doba', '.hours']);
 
             const imageUrl = extractAttrWithFallback($el, ['img'], 'src');
             const link = extractAttrWithFallback($el, ['a'], 'href');
 
-            // For now, create placeholder events (this site might be places, not events)
-            // Skip actual event creation until we verify the site structure
-            console.log(`[${SOURCE_NAME}] Found place: ${title}`);
+            const text = cleanText($el.text());
+            const contentText = title + ' ' + (description || '');
+            const prices = extractPrices(text);
+            const ageRange = extractAgeRange(text);
+            const { category, tags } = classifyCategories(contentText);
+
+            places.push({
+              externalId: `${SOURCE_NAME}-${createHash(title + (location || ''))}`,
+              source: SOURCE_NAME,
+              name: cleanText(title),
+              description: description ? cleanText(description) : undefined,
+              locationName: cleanText(title),
+              address: location ? cleanText(location) : undefined,
+              category,
+              tags: tags.length > 0 ? tags : undefined,
+              ageMin: ageRange.ageMin,
+              ageMax: ageRange.ageMax,
+              ageConfidence: ageRange.confidence || undefined,
+              adultPrice: prices.adultPrice || parseCzechPrice(priceStr || '') || undefined,
+              childPrice: prices.childPrice,
+              familyPrice: prices.familyPrice,
+              setting: inferSetting(tags, contentText, OUTDOOR_KEYWORDS),
+              openingHours: parseCzechOpeningHours(hoursStr || text),
+              seasonMonths: parseSeasonMonths(text),
+              imageUrl: imageUrl ? new URL(imageUrl, BASE_URL).toString() : undefined,
+              url: link ? new URL(link, BASE_URL).toString() : undefined,
+            });
           } catch (error: any) {
             errors.push(`Error parsing item: ${error.message}`);
           }
@@ -92,7 +130,7 @@ export async function scrapeOverenoRodici(): Promise<ScraperResult> {
       }
     }
 
-    console.log(`[${SOURCE_NAME}] Found ${events.length} events`);
+    console.log(`[${SOURCE_NAME}] Found ${places.length} places`);
   } catch (error: any) {
     errors.push(`Failed to scrape: ${error.message}`);
     console.error(`[${SOURCE_NAME}] Error:`, error.message);
@@ -100,7 +138,8 @@ export async function scrapeOverenoRodici(): Promise<ScraperResult> {
 
   return {
     source: SOURCE_NAME,
-    events,
+    events: [],
+    places,
     errors,
     executionTime: Date.now() - startTime,
   };
@@ -1,21 +1,31 @@
 /**
  * Scraper for praguest.com/en/kid-s-events
- * Uses Firecrawl for dynamic content rendering
+ * Uses Firecrawl (or local Puppeteer) for dynamic content rendering
  */
 
 import { RawEvent, ScraperResult } from '../types';
 import { extractDuration } from '../utils/dateParser';
-import { extractPrices, extractAgeRange } from '../utils/priceParser';
+import { parsePriceTiers, summarizePriceTiers } from '../utils/priceParser';
+import { extractAgeRange } from '../utils/ageParser';
+import { classifyCategories } from '../utils/categories';
+import { inferSetting } from '../utils/setting';
 import {
   cleanText,
-  determineCategoryFromText,
   createHash
 } from '../utils/scraperHelper';
-import { scrapeAndLoadCheerio, isFirecrawlAvailable } from '../utils/firecrawlHelper';
+import {
+  scrapeAndLoadCheerio,
+  resolveRenderer,
+  renderFailureMessage,
+  rendererUnavailableMessage,
+} from '../utils/firecrawlHelper';
+import { extractJsonLdEvents } from '../utils/jsonLdParser';
 import { parse } from 'date-fns';
+import { pragueDayStart, pragueTime } from '../utils/timezone';
 
 const SOURCE_NAME = 'praguest.com';
 const BASE_URL = 'https://www.praguest.com/en/kid-s-events';
+const OUTDOOR_KEYWORDS = ['outdoor', 'park', 'garden', 'nature', 'playground'];
 
 /**
  * Parse date from praguest format: "17 July 2025 10:00 - 31 October 2025 20:00"
@@ -40,7 +50,8 @@ function parsePraguestDate(dateStr: string): Date | null {
       try {
         const date = parse(startPart, format, new Date());
         if (!isNaN(date.getTime())) {
-          return date;
+          // date-fns reads the listed Prague time in the server timezone
+          return pragueTime(date.getFullYear(), date.getMonth() + 1, date.getDate(), date.getHours(), date.getMinutes());
         }
       } catch (e) {
         continue;
@@ -71,13 +82,13 @@ export async function scrapePraguest(): Promise<ScraperResult> {
   try {
     console.log(`[${SOURCE_NAME}] Starting scrape...`);
 
-    // Check if Firecrawl is available
-    if (!isFirecrawlAvailable()) {
-      console.log(`[${SOURCE_NAME}] Firecrawl API key not configured, skipping dynamic content scraper`);
+    // Check if Firecrawl (or the Puppeteer fallback) is available
+    if (!resolveRenderer()) {
+      console.log(`[${SOURCE_NAME}] ${rendererUnavailableMessage()}, skipping dynamic content scraper`);
       return {
         source: SOURCE_NAME,
         events: [],
-        errors: ['Firecrawl API key not configured'],
+        errors: [rendererUnavailableMessage()],
         executionTime: Date.now() - startTime,
       };
     }
@@ -89,7 +100,7 @@ export async function scrapePraguest(): Promise<ScraperResult> {
     });
 
     if (!$) {
-      errors.push(`Failed to scrape ${BASE_URL} with Firecrawl`);
+      errors.push(renderFailureMessage(BASE_URL));
       return {
         source: SOURCE_NAME,
         events,
@@ -98,6 +109,18 @@ export async function scrapePraguest(): Promise<ScraperResult> {
       };
     }
 
+    const now = pragueDayStart(new Date());
+
+    // Prefer schema.org JSON-LD events when the page embeds them
+    const structuredEvents = extractJsonLdEvents($, {
+      source: SOURCE_NAME,
+      pageUrl: BASE_URL,
+      outdoorKeywords: OUTDOOR_KEYWORDS,
+    }).filter((event) => event.startDateTime >= now);
+    events.push(...structuredEvents);
+
+    const structuredKeys = new Set(structuredEvents.flatMap((event) => [event.title, event.bookingUrl]));
+
     // Find event items - look for li or article elements containing events
     // Try multiple selectors to find event containers
     const eventElements = $('li, article, .event-item, [class*="event"]').filter((i, el) => {
@@ -125,6 +148,12 @@ export async function scrapePraguest(): Promise<ScraperResult> {
         // Extract link
         const $linkEl = $el.find('a').first();
         const link = $linkEl.attr('href');
+        const bookingUrl = link ? (link.startsWith('http') ? link : `https://www.praguest.com${link}`) : undefined;
+
+        // Already read from JSON-LD
+        if (structuredKeys.has(cleanText(title)) || (bookingUrl && structuredKeys.has(bookingUrl))) {
+          return;
+        }
 
         // Get all text content to parse date and location
         const fullText = $el.text();
@@ -148,8 +177,6 @@ export async function scrapePraguest(): Promise<ScraperResult> {
         }
 
         // Filter out past events
-        const now = new Date();
-        now.setHours(0, 0, 0, 0);
         if (startDateTime < now) {
           return;
         }
@@ -194,20 +221,15 @@ export async function scrapePraguest(): Promise<ScraperResult> {
         }
 
         // Parse prices and age range from text
-        const prices = extractPrices(fullText);
+        const priceTiers = parsePriceTiers(fullText);
+        const prices = summarizePriceTiers(priceTiers);
         const ageRange = extractAgeRange(fullText);
 
         // Determine category
-        const category = determineCategoryFromText(title + ' ' + description);
+        const { category, tags } = classifyCategories(title + ' ' + description);
 
-        // Check if outdoor
-        const lowerText = cleanText(title + ' ' + description).toLowerCase();
-        const isOutdoor =
-          lowerText.includes('outdoor') ||
-          lowerText.includes('park') ||
-          lowerText.includes('garden') ||
-          lowerText.includes('nature') ||
-          lowerText.includes('playground');
+        // Indoor or outdoor
+        const setting = inferSetting(tags, cleanText(title + ' ' + description), OUTDOOR_KEYWORDS);
 
         // Create event object
         const event: RawEvent = {
@@ -219,15 +241,18 @@ export async function scrapePraguest(): Promise<ScraperResult> {
           locationName: location || undefined,
           address: location || undefined,
           category,
+          tags: tags.length > 0 ? tags : undefined,
           ageMin: ageRange.ageMin,
           ageMax: ageRange.ageMax,
+          ageConfidence: ageRange.confidence || undefined,
           adultPrice: prices.adultPrice || undefined,
           childPrice: prices.childPrice,
           familyPrice: prices.familyPrice,
-          isOutdoor,
+          priceTiers: priceTiers.length > 0 ? priceTiers : undefined,
+          setting,
           durationMinutes: extractDuration(fullText) || undefined,
           imageUrl: imageUrl ? (imageUrl.startsWith('http') ? imageUrl : `https://www.praguest.com${imageUrl}`) : undefined,
-          bookingUrl: link ? (link.startsWith('http') ? link : `https://www.praguest.com${link}`) : undefined,
+          bookingUrl,
         };
 
         events.push(event);
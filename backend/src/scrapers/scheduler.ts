@@ -0,0 +1,142 @@
+/**
+ * Scraper scheduler
+ * Runs scrapers concurrently with a concurrency limit, a timeout per scraper
+ * and retries with exponential backoff. Politeness towards individual sites is
+ * handled by the per-host limiter in utils/rateLimiter.
+ */
+
+import { ScraperResult } from '../types';
+import { delay } from '../utils/scraperHelper';
+import { classifyScrapeError } from '../services/scrapeRuns';
+
+/**
+ * Scheduler settings (defaults come from the environment)
+ * - concurrency: scrapers running at the same time
+ * - timeoutMs: default per-scraper timeout (a task can override it)
+ * - retries: extra attempts after a failed run
+ * - backoffMs: delay before the first retry, doubled for each further one
+ */
+export interface SchedulerOptions {
+  concurrency?: number;
+  timeoutMs?: number;
+  retries?: number;
+  backoffMs?: number;
+}
+
+/**
+ * A scraper run as seen by the scheduler
+ */
+export interface ScraperTask {
+  name: string;
+  timeoutMs?: number;
+  run: () => Promise<ScraperResult>;
+}
+
+const DEFAULT_CONCURRENCY = parseInt(process.env.SCRAPER_CONCURRENCY || '3');
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.SCRAPER_TIMEOUT_MS || '300000'); // 5 minutes
+const DEFAULT_RETRIES = parseInt(process.env.SCRAPER_RETRIES || '2');
+const DEFAULT_BACKOFF_MS = parseInt(process.env.SCRAPER_RETRY_BACKOFF_MS || '5000');
+
+/**
+ * Result for a scraper that produced nothing
+ */
+function failedResult(source: string, message: string, executionTime: number): ScraperResult {
+  return { source, events: [], errors: [message], executionTime };
+}
+
+/**
+ * Whether another attempt could help: the scraper threw (unless on a replay
+ * cache miss), or it returned no events and every error was a network error
+ */
+function shouldRetry(result: ScraperResult): boolean {
+  return (
+    result.events.length === 0 &&
+    result.errors.length > 0 &&
+    result.errors.every((message) => classifyScrapeError(message) === 'network')
+  );
+}
+
+/**
+ * Run a task once, giving up after timeoutMs
+ * A timed-out scraper can't be cancelled; its eventual result is discarded
+ * (runScrapers keeps the shared browser open until it settles)
+ * @returns Scraper result, or null on timeout
+ */
+async function runWithTimeout(task: ScraperTask, timeoutMs: number): Promise<ScraperResult | null> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([task.run(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run a task with timeout and retries
+ * Timeouts are not retried since the abandoned attempt may still be running
+ */
+async function runTask(task: ScraperTask, options: Required<SchedulerOptions>): Promise<ScraperResult> {
+  const timeoutMs = task.timeoutMs ?? options.timeoutMs;
+  let result: ScraperResult | undefined;
+
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    if (attempt > 0) {
+      const wait = options.backoffMs * 2 ** (attempt - 1);
+      console.log(`[${task.name}] Retrying in ${wait}ms (attempt ${attempt + 1}/${options.retries + 1})`);
+      await delay(wait);
+    }
+
+    const startTime = Date.now();
+    try {
+      const outcome = await runWithTimeout(task, timeoutMs);
+      if (!outcome) {
+        console.error(`[${task.name}] Timed out after ${timeoutMs}ms`);
+        result = failedResult(task.name, `Scraper timed out after ${timeoutMs}ms`, timeoutMs);
+        break;
+      }
+      result = outcome;
+    } catch (error: any) {
+      console.error(`Error running scraper ${task.name}:`, error.message);
+      result = failedResult(task.name, error.message, Date.now() - startTime);
+      // Replayed responses never change, another attempt would miss again
+      if (classifyScrapeError(error.message) === 'replay-miss') break;
+      continue;
+    }
+
+    if (!shouldRetry(result)) break;
+  }
+
+  return result!;
+}
+
+/**
+ * Run scraper tasks concurrently
+ * @param tasks Scrapers to run
+ * @param options Scheduler settings
+ * @returns One result per task, in task order
+ */
+export async function runScheduled(tasks: ScraperTask[], options: SchedulerOptions = {}): Promise<ScraperResult[]> {
+  const settings: Required<SchedulerOptions> = {
+    concurrency: Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY),
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    retries: Math.max(0, options.retries ?? DEFAULT_RETRIES),
+    backoffMs: options.backoffMs ?? DEFAULT_BACKOFF_MS,
+  };
+
+  const results: ScraperResult[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await runTask(tasks[index], settings);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(settings.concurrency, tasks.length) }, worker));
+  return results;
+}
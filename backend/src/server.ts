@@ -8,7 +8,11 @@ import dotenv from 'dotenv';
 import { PrismaClient } from '@prisma/client';
 import eventsRouter from './routes/events';
 import adminRouter from './routes/admin';
+import venuesRouter from './routes/venues';
+import placesRouter from './routes/places';
+import usersRouter from './routes/users';
 import { scheduleDailyScrape } from './cron/daily-scrape';
+import { storedErrorMessages } from './services/scrapeRuns';
 
 // Load environment variables
 dotenv.config();
@@ -46,6 +50,9 @@ app.get('/health', (req: Request, res: Response) => {
 
 // API routes
 app.use('/api/events', eventsRouter);
+app.use('/api/venues', venuesRouter);
+app.use('/api/places', placesRouter);
+app.use('/api/users', usersRouter);
 app.use('/api/admin', adminRouter);
 
 // Stats endpoint
@@ -55,18 +62,24 @@ app.get('/api/stats', async (req: Request, res: Response) => {
       totalEvents,
       upcomingEvents,
       eventsBySource,
+      eventsByStatus,
       averageScores,
     ] = await Promise.all([
       prisma.event.count(),
       prisma.event.count({
         where: {
           startDateTime: { gte: new Date() },
+          status: 'active',
         },
       }),
       prisma.event.groupBy({
         by: ['source'],
         _count: true,
       }),
+      prisma.event.groupBy({
+        by: ['status'],
+        _count: true,
+      }),
       prisma.event.aggregate({
         _avg: {
           scoreToddler: true,
@@ -82,6 +95,7 @@ app.get('/api/stats', async (req: Request, res: Response) => {
         totalEvents,
         upcomingEvents,
         eventsBySource,
+        eventsByStatus,
         averageScores: {
           toddler: Math.round(averageScores._avg.scoreToddler || 0),
           child: Math.round(averageScores._avg.scoreChild || 0),
@@ -98,16 +112,26 @@ app.get('/api/stats', async (req: Request, res: Response) => {
   }
 });
 
-// Scrape logs endpoint
+// Scrape logs endpoint (kept for existing clients; reads per-source run records)
 app.get('/api/scrape-logs', async (req: Request, res: Response) => {
   try {
     const { limit = 20 } = req.query;
 
-    const logs = await prisma.scrapeLog.findMany({
+    const records = await prisma.scrapeRunSource.findMany({
       orderBy: { createdAt: 'desc' },
       take: parseInt(limit as string),
     });
 
+    const logs = records.map((record) => ({
+      id: record.id,
+      source: record.source,
+      status: record.status,
+      eventsFound: record.parsed,
+      errorMessage: storedErrorMessages(record).join('; ') || null,
+      executionTime: record.executionTime,
+      createdAt: record.createdAt,
+    }));
+
     res.json({
       success: true,
       logs,
@@ -129,7 +153,7 @@ app.post('/api/scrape/trigger', async (req: Request, res: Response) => {
     const { runDailyScrape } = await import('./cron/daily-scrape');
 
     // Run in background
-    runDailyScrape()
+    runDailyScrape('manual')
       .then(() => console.log('Manual scrape completed'))
       .catch((error) => console.error('Manual scrape failed:', error));
 
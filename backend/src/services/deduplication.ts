@@ -1,9 +1,120 @@
 /**
  * Event deduplication service
- * Identifies and merges duplicate events from different sources
+ * Identifies and merges duplicate events from different sources. Events are
+ * first bucketed by blocking keys (a title or location token, with the Prague
+ * day while the weights keep events on different days below the threshold)
+ * and only events sharing a bucket are scored, by weighted features (title,
+ * date, time, location, price) that callers can reweight or replace. Merged
+ * events take each field from one source by MERGE_POLICY and remember which.
  */
 
-import { RawEvent } from '../types';
+import { EventCategory, MergeField, Provenance, RawEvent, SourceListing } from '../types';
+import { pragueDateKey } from '../utils/timezone';
+import { mergeSettings } from '../utils/setting';
+import { isPlaceholderImage } from '../utils/placeholderImages';
+
+/**
+ * A duplicate scoring feature
+ * - weight: share of the score; features returning null do not count
+ * - similarity: 0-1, or null when the feature does not apply (e.g. a missing price)
+ */
+export interface DedupFeature {
+  name: string;
+  weight: number;
+  similarity(event1: RawEvent, event2: RawEvent): number | null;
+}
+
+export interface DedupWeights {
+  title: number;
+  date: number;
+  time: number;
+  location: number;
+  price: number;
+}
+
+/**
+ * Historical accuracy of sources (0-1), see getSourceAccuracy
+ */
+export type SourceAccuracy = Record<string, number>;
+
+/**
+ * Deduplication options
+ * - features: scoring features (default: dedupFeatures())
+ * - blocking: only compare events sharing a blocking key (default: true); false
+ *   compares every pair
+ * - accuracy: source accuracy for merging (see MERGE_POLICY)
+ */
+export interface DedupOptions {
+  features?: DedupFeature[];
+  blocking?: boolean;
+  accuracy?: SourceAccuracy;
+}
+
+/**
+ * How a merged field picks its source
+ * - accuracy: the source with the highest historical accuracy
+ * - longest: the longest text
+ * - realImage: a picture of the event over a placeholder, then accuracy
+ * - explicitAges: the most confident age range, then accuracy
+ */
+export type MergeRule = 'accuracy' | 'longest' | 'realImage' | 'explicitAges';
+
+export const MERGE_POLICY: Record<MergeField, MergeRule> = {
+  title: 'longest',
+  description: 'longest',
+  dates: 'accuracy',
+  location: 'accuracy',
+  category: 'accuracy',
+  ages: 'explicitAges',
+  prices: 'accuracy',
+  image: 'realImage',
+  booking: 'accuracy',
+};
+
+// Event fields of each merged field, always taken together from one source
+export const MERGE_FIELDS: Record<MergeField, (keyof RawEvent)[]> = {
+  title: ['title'],
+  description: ['description'],
+  dates: ['startDateTime', 'endDateTime', 'recurrence'],
+  location: ['locationName', 'address'],
+  category: ['category'],
+  ages: ['ageMin', 'ageMax', 'ageConfidence'],
+  prices: ['adultPrice', 'childPrice', 'familyPrice', 'priceTiers'],
+  image: ['imageUrl'],
+  booking: ['bookingUrl'],
+};
+
+// Accuracy of sources without history
+export const DEFAULT_ACCURACY = 0.5;
+
+export const DEFAULT_THRESHOLD = 0.8;
+
+// Time only counts when the events start on the same day within 2 hours, pushing
+// those above the threshold
+export const DEFAULT_WEIGHTS: DedupWeights = {
+  title: 0.4,
+  date: 0.3,
+  time: 0.1,
+  location: 0.2,
+  price: 0.1,
+};
+
+// Title words too common to block on
+const STOP_WORDS = new Set([
+  'pro', 'deti', 'detske', 'detsky', 'rodiny', 'rodinne', 'rodinny', 'and', 'the', 'for', 'kids',
+  'family', 'praha', 'prague', 'nad', 'pod', 'pri', 'aneb',
+]);
+
+/**
+ * Normalized fields of an event, computed once per event
+ */
+interface EventKeys {
+  title: string;
+  location: string;
+  day: string;
+}
+
+const keysCache = new WeakMap<RawEvent, EventKeys>();
 
 /**
  * Calculate Levenshtein distance between two strings
@@ -14,29 +125,21 @@ import { RawEvent } from '../types';
 function levenshteinDistance(str1: string, str2: string): number {
   const m = str1.length;
   const n = str2.length;
-  const dp: number[][] = Array(m + 1)
-    .fill(null)
-    .map(() => Array(n + 1).fill(0));
-
-  for (let i = 0; i <= m; i++) {
-    dp[i][0] = i;
-  }
-
-  for (let j = 0; j <= n; j++) {
-    dp[0][j] = j;
-  }
+  let previous = Array.from({ length: n + 1 }, (_, j) => j);
+  let current = new Array<number>(n + 1);
 
   for (let i = 1; i <= m; i++) {
+    current[0] = i;
     for (let j = 1; j <= n; j++) {
-      if (str1[i - 1] === str2[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1];
-      } else {
-        dp[i][j] = 1 + Math.min(dp[i - 1][j], dp[i][j - 1], dp[i - 1][j - 1]);
-      }
+      current[j] =
+        str1[i - 1] === str2[j - 1]
+          ? previous[j - 1]
+          : 1 + Math.min(previous[j], current[j - 1], previous[j - 1]);
     }
+    [previous, current] = [current, previous];
   }
 
-  return dp[m][n];
+  return previous[n];
 }
 
 /**
@@ -46,12 +149,11 @@ function levenshteinDistance(str1: string, str2: string): number {
  * @returns Similarity ratio between 0 and 1
  */
 function stringSimilarity(str1: string, str2: string): number {
-  const distance = levenshteinDistance(str1.toLowerCase(), str2.toLowerCase());
   const maxLength = Math.max(str1.length, str2.length);
-
   if (maxLength === 0) return 1.0;
+  if (str1 === str2) return 1.0;
 
-  return 1 - distance / maxLength;
+  return 1 - levenshteinDistance(str1, str2) / maxLength;
 }
 
 /**
@@ -83,17 +185,19 @@ function normalizeLocation(location?: string): string {
 }
 
 /**
- * Check if two dates are on the same day
- * @param date1 First date
- * @param date2 Second date
- * @returns True if same day, false otherwise
+ * Normalized title, location and Prague day of an event
  */
-function isSameDay(date1: Date, date2: Date): boolean {
-  return (
-    date1.getFullYear() === date2.getFullYear() &&
-    date1.getMonth() === date2.getMonth() &&
-    date1.getDate() === date2.getDate()
-  );
+function eventKeys(event: RawEvent): EventKeys {
+  let keys = keysCache.get(event);
+  if (!keys) {
+    keys = {
+      title: normalizeTitle(event.title),
+      location: normalizeLocation(event.locationName || event.address),
+      day: pragueDateKey(event.startDateTime),
+    };
+    keysCache.set(event, keys);
+  }
+  return keys;
 }
 
 /**
@@ -109,59 +213,82 @@ function isWithinHours(date1: Date, date2: Date, hours: number = 2): boolean {
   return diffHours <= hours;
 }
 
+/**
+ * Scoring features with the given weights (missing ones from DEFAULT_WEIGHTS)
+ * @example dedupFeatures({ price: 0 }) // ignore prices
+ */
+export function dedupFeatures(weights: Partial<DedupWeights> = {}): DedupFeature[] {
+  const { title, date, time, location, price } = { ...DEFAULT_WEIGHTS, ...weights };
+
+  const features: DedupFeature[] = [
+    {
+      name: 'title',
+      weight: title,
+      similarity: (event1, event2) => stringSimilarity(eventKeys(event1).title, eventKeys(event2).title),
+    },
+    {
+      name: 'date',
+      weight: date,
+      similarity: (event1, event2) => (eventKeys(event1).day === eventKeys(event2).day ? 1 : 0),
+    },
+    {
+      name: 'time',
+      weight: time,
+      similarity: (event1, event2) =>
+        eventKeys(event1).day === eventKeys(event2).day &&
+        isWithinHours(event1.startDateTime, event2.startDateTime, 2)
+          ? 1
+          : null,
+    },
+    {
+      name: 'location',
+      weight: location,
+      similarity: (event1, event2) => {
+        const location1 = eventKeys(event1).location;
+        const location2 = eventKeys(event2).location;
+        return location1 && location2 ? stringSimilarity(location1, location2) : null;
+      },
+    },
+    {
+      name: 'price',
+      weight: price,
+      similarity: (event1, event2) => {
+        if (event1.adultPrice === undefined || event2.adultPrice === undefined) return null;
+
+        const priceDiff = Math.abs(event1.adultPrice - event2.adultPrice);
+        const avgPrice = (event1.adultPrice + event2.adultPrice) / 2;
+        // Both free
+        if (avgPrice === 0) return 1;
+        return 1 - Math.min(1, priceDiff / avgPrice);
+      },
+    },
+  ];
+  return features.filter((feature) => feature.weight > 0);
+}
+
+const DEFAULT_FEATURES = dedupFeatures();
+
 /**
  * Calculate duplicate score between two events (0-1, where 1 is definitely duplicate)
+ * Weighted mean of the features that apply to both events
  * @param event1 First event
  * @param event2 Second event
+ * @param features Scoring features (default: dedupFeatures())
  * @returns Duplicate score between 0 and 1
  */
-export function calculateDuplicateScore(event1: RawEvent, event2: RawEvent): number {
+export function calculateDuplicateScore(
+  event1: RawEvent,
+  event2: RawEvent,
+  features: DedupFeature[] = DEFAULT_FEATURES
+): number {
   let score = 0;
   let factors = 0;
 
-  // Title similarity (most important) - weight: 40%
-  const titleSimilarity = stringSimilarity(
-    normalizeTitle(event1.title),
-    normalizeTitle(event2.title)
-  );
-  score += titleSimilarity * 0.4;
-  factors += 0.4;
-
-  // Date similarity - weight: 30%
-  if (isSameDay(event1.startDateTime, event2.startDateTime)) {
-    score += 0.3;
-
-    // Bonus if times are also similar
-    if (isWithinHours(event1.startDateTime, event2.startDateTime, 2)) {
-      score += 0.1;
-      factors += 0.1;
-    }
-  }
-  factors += 0.3;
-
-  // Location similarity - weight: 20%
-  const location1 = normalizeLocation(event1.locationName || event1.address);
-  const location2 = normalizeLocation(event2.locationName || event2.address);
-
-  if (location1 && location2) {
-    const locationSimilarity = stringSimilarity(location1, location2);
-    score += locationSimilarity * 0.2;
-    factors += 0.2;
-  }
-
-  // Price similarity - weight: 10%
-  if (event1.adultPrice !== undefined && event2.adultPrice !== undefined) {
-    const priceDiff = Math.abs(event1.adultPrice - event2.adultPrice);
-    const avgPrice = (event1.adultPrice + event2.adultPrice) / 2;
-
-    if (avgPrice > 0) {
-      const priceSimilarity = 1 - Math.min(1, priceDiff / avgPrice);
-      score += priceSimilarity * 0.1;
-    } else {
-      // Both free
-      score += 0.1;
-    }
-    factors += 0.1;
+  for (const feature of features) {
+    const similarity = feature.similarity(event1, event2);
+    if (similarity === null) continue;
+    score += similarity * feature.weight;
+    factors += feature.weight;
   }
 
   return factors > 0 ? score / factors : 0;
@@ -172,119 +299,97 @@ export function calculateDuplicateScore(event1: RawEvent, event2: RawEvent): num
  * @param event1 First event
  * @param event2 Second event
  * @param threshold Similarity threshold (default: 0.8)
+ * @param features Scoring features (default: dedupFeatures())
  * @returns True if duplicates, false otherwise
  */
 export function isDuplicate(
   event1: RawEvent,
   event2: RawEvent,
-  threshold: number = 0.8
+  threshold: number = DEFAULT_THRESHOLD,
+  features?: DedupFeature[]
 ): boolean {
-  const score = calculateDuplicateScore(event1, event2);
+  const score = calculateDuplicateScore(event1, event2, features);
   return score >= threshold;
 }
 
 /**
- * Merge two duplicate events, keeping the most complete information
- * @param event1 First event
- * @param event2 Second event
- * @returns Merged event
+ * Words of a normalized title or location to block on, without diacritics
  */
-export function mergeEvents(event1: RawEvent, event2: RawEvent): RawEvent {
-  return {
-    // Keep the external ID from the first source
-    externalId: event1.externalId,
-    // Combine sources
-    source: `${event1.source},${event2.source}`,
-    // Keep longer title
-    title: event1.title.length > event2.title.length ? event1.title : event2.title,
-    // Keep longer description
-    description:
-      !event1.description || (event2.description && event2.description.length > event1.description.length)
-        ? event2.description
-        : event1.description,
-    // Keep more specific date/time
-    startDateTime: event1.startDateTime,
-    endDateTime: event1.endDateTime || event2.endDateTime,
-    // Keep more specific location
-    locationName: event1.locationName || event2.locationName,
-    address: event1.address || event2.address,
-    // Keep available category
-    category: event1.category || event2.category,
-    // Keep more restrictive age range
-    ageMin: event1.ageMin !== undefined && event2.ageMin !== undefined
-      ? Math.max(event1.ageMin, event2.ageMin)
-      : event1.ageMin ?? event2.ageMin,
-    ageMax: event1.ageMax !== undefined && event2.ageMax !== undefined
-      ? Math.min(event1.ageMax, event2.ageMax)
-      : event1.ageMax ?? event2.ageMax,
-    // Keep lower price (better for users)
-    adultPrice:
-      event1.adultPrice !== undefined && event2.adultPrice !== undefined
-        ? Math.min(event1.adultPrice, event2.adultPrice)
-        : event1.adultPrice ?? event2.adultPrice,
-    childPrice:
-      event1.childPrice !== undefined && event2.childPrice !== undefined
-        ? Math.min(event1.childPrice, event2.childPrice)
-        : event1.childPrice ?? event2.childPrice,
-    familyPrice:
-      event1.familyPrice !== undefined && event2.familyPrice !== undefined
-        ? Math.min(event1.familyPrice, event2.familyPrice)
-        : event1.familyPrice ?? event2.familyPrice,
-    // Keep available outdoor flag
-    isOutdoor: event1.isOutdoor || event2.isOutdoor,
-    // Keep available duration
-    durationMinutes: event1.durationMinutes || event2.durationMinutes,
-    // Keep available image
-    imageUrl: event1.imageUrl || event2.imageUrl,
-    // Keep first booking URL (prioritize)
-    bookingUrl: event1.bookingUrl || event2.bookingUrl,
-  };
+function blockingTokens(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[\s_]+/)
+    .filter((token) => token.length >= 3 && !/^\d+$/.test(token) && !STOP_WORDS.has(token));
 }
 
 /**
- * Deduplicate an array of events
- * @param events Array of events to deduplicate
- * @param threshold Similarity threshold (default: 0.8)
- * @returns Deduplicated array of events
+ * Highest score two events on different days can reach with the given features
+ * The date feature scores 0 and time does not apply across days; any other
+ * feature, custom ones included, may score 1
  */
-export function deduplicateEvents(events: RawEvent[], threshold: number = 0.8): RawEvent[] {
-  if (events.length === 0) return [];
-
-  const deduplicated: RawEvent[] = [];
-  const processed = new Set<number>();
+export function crossDayCeiling(features: DedupFeature[]): number {
+  let date = 0;
+  let other = 0;
+  for (const feature of features) {
+    if (feature.name === 'date') date += feature.weight;
+    else if (feature.name !== 'time') other += feature.weight;
+  }
+  return other > 0 ? other / (other + date) : 0;
+}
 
-  for (let i = 0; i < events.length; i++) {
-    if (processed.has(i)) continue;
+/**
+ * Blocking keys of an event: each title and location token, with its Prague day
+ * when byDay is set. Blocking by day is only safe while events on different days
+ * cannot reach the threshold (see crossDayCeiling: at most 0.7 with the default
+ * weights); titles or locations sharing no word are rarely similar enough either.
+ */
+export function blockingKeys(event: RawEvent, byDay: boolean = true): string[] {
+  const { title, location, day } = eventKeys(event);
+  const prefix = byDay ? `${day}|` : '';
+  const keys = [
+    ...blockingTokens(title).map((token) => `${prefix}t:${token}`),
+    ...blockingTokens(location).map((token) => `${prefix}l:${token}`),
+  ];
+  return keys.length > 0 ? [...new Set(keys)] : [`${prefix}*`];
+}
 
-    let mergedEvent = events[i];
-    processed.add(i);
+/**
+ * Later events each event is compared with, by index, in ascending order
+ */
+function candidateIndexes(events: RawEvent[], blocking: boolean, byDay: boolean): number[][] {
+  if (!blocking) {
+    return events.map((_, i) => events.map((_, j) => j).slice(i + 1));
+  }
 
-    // Check for duplicates with remaining events
-    for (let j = i + 1; j < events.length; j++) {
-      if (processed.has(j)) continue;
+  const buckets = new Map<string, number[]>();
+  const eventBuckets = events.map((event, i) =>
+    blockingKeys(event, byDay).map((key) => {
+      const bucket = buckets.get(key) || [];
+      if (bucket.length === 0) buckets.set(key, bucket);
+      bucket.push(i);
+      return bucket;
+    })
+  );
 
-      if (isDuplicate(mergedEvent, events[j], threshold)) {
-        mergedEvent = mergeEvents(mergedEvent, events[j]);
-        processed.add(j);
+  return eventBuckets.map((bucketsOfEvent, i) => {
+    const candidates = new Set<number>();
+    for (const bucket of bucketsOfEvent) {
+      for (const j of bucket) {
+        if (j > i) candidates.add(j);
       }
     }
-
-    deduplicated.push(mergedEvent);
-  }
-
-  return deduplicated;
+    return [...candidates].sort((a, b) => a - b);
+  });
 }
 
 /**
- * Find duplicate groups in an array of events
- * @param events Array of events
- * @param threshold Similarity threshold (default: 0.8)
- * @returns Array of duplicate groups
+ * Group events that are duplicates of an earlier event in their group
+ * Every event is in exactly one group, in order of first appearance
  */
-export function findDuplicateGroups(
-  events: RawEvent[],
-  threshold: number = 0.8
-): RawEvent[][] {
+function groupEvents(events: RawEvent[], threshold: number, options: DedupOptions): RawEvent[][] {
+  const { features = DEFAULT_FEATURES, blocking = true } = options;
+  const candidates = candidateIndexes(events, blocking, crossDayCeiling(features) < threshold);
   const groups: RawEvent[][] = [];
   const processed = new Set<number>();
 
@@ -294,19 +399,169 @@ export function findDuplicateGroups(
     const group: RawEvent[] = [events[i]];
     processed.add(i);
 
-    for (let j = i + 1; j < events.length; j++) {
+    for (const j of candidates[i]) {
       if (processed.has(j)) continue;
 
-      if (isDuplicate(events[i], events[j], threshold)) {
+      if (isDuplicate(events[i], events[j], threshold, features)) {
         group.push(events[j]);
         processed.add(j);
       }
     }
 
-    if (group.length > 1) {
-      groups.push(group);
-    }
+    groups.push(group);
   }
 
   return groups;
 }
+
+/**
+ * Source listings of an event: the merged ones, or the event's own
+ */
+export function eventListings(event: RawEvent): SourceListing[] {
+  return event.listings || [{ source: event.source, externalId: event.externalId, bookingUrl: event.bookingUrl }];
+}
+
+/**
+ * Whether an event has a value for a merged field ('other' is no category)
+ */
+export function hasMergeValue(field: MergeField, event: RawEvent): boolean {
+  if (field === 'category') return !!event.category && event.category !== EventCategory.OTHER;
+
+  return MERGE_FIELDS[field].some((key) => {
+    const value = event[key];
+    return value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+  });
+}
+
+/**
+ * Source of each field of an event: the merged provenance, or the event's own
+ * source for every field it has
+ */
+export function eventProvenance(event: RawEvent): Provenance {
+  if (event.provenance) return event.provenance;
+
+  const fields = Object.keys(MERGE_POLICY) as MergeField[];
+  return Object.fromEntries(
+    fields.filter((field) => hasMergeValue(field, event)).map((field) => [field, event.source])
+  );
+}
+
+/**
+ * Accuracy of the source a field of an event came from
+ */
+function fieldAccuracy(field: MergeField, event: RawEvent, accuracy: SourceAccuracy): number {
+  const source = eventProvenance(event)[field] ?? event.source;
+  return accuracy[source] ?? DEFAULT_ACCURACY;
+}
+
+/**
+ * Event whose value of a field wins by MERGE_POLICY; the first on ties
+ * @param field Merged field
+ * @param event1 First event
+ * @param event2 Second event
+ * @param accuracy Source accuracy (sources missing from it get DEFAULT_ACCURACY)
+ */
+export function preferredEvent(
+  field: MergeField,
+  event1: RawEvent,
+  event2: RawEvent,
+  accuracy: SourceAccuracy = {}
+): RawEvent {
+  const has1 = hasMergeValue(field, event1);
+  const has2 = hasMergeValue(field, event2);
+  if (!has1 || !has2) return has2 ? event2 : event1;
+
+  const moreAccurate =
+    fieldAccuracy(field, event2, accuracy) > fieldAccuracy(field, event1, accuracy) ? event2 : event1;
+
+  switch (MERGE_POLICY[field]) {
+    case 'longest': {
+      const [key] = MERGE_FIELDS[field];
+      return String(event2[key]).length > String(event1[key]).length ? event2 : event1;
+    }
+    case 'realImage': {
+      const placeholder1 = isPlaceholderImage(event1.imageUrl!);
+      const placeholder2 = isPlaceholderImage(event2.imageUrl!);
+      if (placeholder1 !== placeholder2) return placeholder1 ? event2 : event1;
+      return moreAccurate;
+    }
+    case 'explicitAges': {
+      const confidence1 = event1.ageConfidence ?? 1;
+      const confidence2 = event2.ageConfidence ?? 1;
+      if (confidence1 !== confidence2) return confidence2 > confidence1 ? event2 : event1;
+      return moreAccurate;
+    }
+    default:
+      return moreAccurate;
+  }
+}
+
+/**
+ * Merge two duplicate events
+ * Each merged field comes from one event by MERGE_POLICY and is recorded in
+ * provenance; tags, setting and listings combine both.
+ * @param event1 First event
+ * @param event2 Second event
+ * @param accuracy Source accuracy for the 'accuracy' rule
+ * @returns Merged event
+ */
+export function mergeEvents(event1: RawEvent, event2: RawEvent, accuracy: SourceAccuracy = {}): RawEvent {
+  const merged: RawEvent = {
+    // Keep the external ID from the first source
+    externalId: event1.externalId,
+    // Combine sources
+    source: `${event1.source},${event2.source}`,
+    title: event1.title,
+    startDateTime: event1.startDateTime,
+    tags: event1.tags || event2.tags ? [...new Set([...(event1.tags || []), ...(event2.tags || [])])] : undefined,
+    // Keep known setting; indoor and outdoor sources make mixed
+    setting: mergeSettings(event1.setting, event2.setting),
+    // Keep available duration
+    durationMinutes: event1.durationMinutes || event2.durationMinutes,
+    // Keep every source's listing and booking URL
+    listings: [...eventListings(event1), ...eventListings(event2)],
+  };
+
+  const provenance: Provenance = {};
+  for (const field of Object.keys(MERGE_POLICY) as MergeField[]) {
+    const preferred = preferredEvent(field, event1, event2, accuracy);
+    Object.assign(merged, Object.fromEntries(MERGE_FIELDS[field].map((key) => [key, preferred[key]])));
+
+    const source = eventProvenance(preferred)[field];
+    if (source) provenance[field] = source;
+  }
+
+  return { ...merged, provenance };
+}
+
+/**
+ * Deduplicate an array of events
+ * @param events Array of events to deduplicate
+ * @param threshold Similarity threshold (default: 0.8)
+ * @param options Scoring features, blocking and source accuracy
+ * @returns Deduplicated array of events
+ */
+export function deduplicateEvents(
+  events: RawEvent[],
+  threshold: number = DEFAULT_THRESHOLD,
+  options: DedupOptions = {}
+): RawEvent[] {
+  return groupEvents(events, threshold, options).map((group) =>
+    group.reduce((merged, event) => mergeEvents(merged, event, options.accuracy))
+  );
+}
+
+/**
+ * Find duplicate groups in an array of events
+ * @param events Array of events
+ * @param threshold Similarity threshold (default: 0.8)
+ * @param options Scoring features and blocking
+ * @returns Array of duplicate groups
+ */
+export function findDuplicateGroups(
+  events: RawEvent[],
+  threshold: number = DEFAULT_THRESHOLD,
+  options: DedupOptions = {}
+): RawEvent[][] {
+  return groupEvents(events, threshold, options).filter((group) => group.length > 1);
+}
@@ -0,0 +1,114 @@
+/**
+ * Event presence tracking
+ * Remembers when each event was last listed by its sources. Upcoming events
+ * their sources stop listing become possibly_removed after several successful
+ * runs of those sources without them, and come back to active when listed again.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { ScraperResult } from '../types';
+import { sourceStatus } from './scrapeRuns';
+
+const prisma = new PrismaClient();
+
+// Successful source runs an upcoming event may be missing from before it is flagged
+export const MISSED_RUNS_THRESHOLD = parseInt(process.env.REMOVED_AFTER_MISSED_RUNS || '3');
+
+export type EventStatus = 'active' | 'possibly_removed' | 'cancelled';
+
+export interface PresenceCounts {
+  seen: number;
+  missed: number;
+  possiblyRemoved: number;
+  restored: number;
+}
+
+/**
+ * Sources whose listing is trustworthy enough to count missing events:
+ * runs without errors that returned events (a broken scraper must not flag
+ * everything it failed to parse)
+ */
+export function sweepableSources(results: ScraperResult[]): string[] {
+  return results
+    .filter((result) => sourceStatus(result) === 'success' && result.events.length > 0)
+    .map((result) => result.source);
+}
+
+/**
+ * Change the status of events and record it as a revision
+ */
+async function setStatus(ids: string[], from: EventStatus, to: EventStatus, runId?: string): Promise<void> {
+  if (ids.length === 0) return;
+
+  await prisma.$transaction([
+    prisma.event.updateMany({ where: { id: { in: ids } }, data: { status: to } }),
+    prisma.eventRevision.createMany({
+      data: ids.map((eventId) => ({ eventId, runId, field: 'status', kind: 'status', oldValue: from, newValue: to })),
+    }),
+  ]);
+}
+
+/**
+ * Update last-seen data after a scrape run
+ * Events listed in the run are marked seen (and restored if they were possibly
+ * removed); upcoming events of sweepable sources that were not listed get a missed
+ * run, and reaching MISSED_RUNS_THRESHOLD turns them possibly_removed.
+ * @param results Scraper results of the run (before deduplication, so merged duplicates count as seen)
+ * @param runId Scrape run ID, recorded on status revisions
+ * @param now Time of the run
+ */
+export async function updateEventPresence(
+  results: ScraperResult[],
+  runId?: string,
+  now: Date = new Date()
+): Promise<PresenceCounts> {
+  const seenIds = [...new Set(results.flatMap((result) => result.events.map((event) => event.externalId)))];
+  // Listed by any of its sources
+  const listed = {
+    OR: [{ externalId: { in: seenIds } }, { sources: { some: { externalId: { in: seenIds } } } }],
+  };
+
+  const restored = await prisma.event.findMany({
+    where: { ...listed, status: 'possibly_removed' },
+    select: { id: true },
+  });
+  await setStatus(restored.map((event) => event.id), 'possibly_removed', 'active', runId);
+
+  const seen = await prisma.event.updateMany({
+    where: listed,
+    data: { lastSeenAt: now, missedRuns: 0 },
+  });
+  await prisma.eventSource.updateMany({
+    where: { externalId: { in: seenIds } },
+    data: { lastSeenAt: now },
+  });
+
+  // One sweep over all sweepable sources, so an event listed by several of
+  // them misses a single run
+  const sweepable = sweepableSources(results);
+  let missed = 0;
+  if (sweepable.length > 0) {
+    const result = await prisma.event.updateMany({
+      where: {
+        sources: { some: { source: { in: sweepable } }, none: { externalId: { in: seenIds } } },
+        externalId: { notIn: seenIds },
+        status: { not: 'cancelled' },
+        occurrences: { some: { startDateTime: { gte: now } } },
+      },
+      data: { missedRuns: { increment: 1 } },
+    });
+    missed = result.count;
+  }
+
+  const vanished = await prisma.event.findMany({
+    where: { status: 'active', missedRuns: { gte: MISSED_RUNS_THRESHOLD } },
+    select: { id: true },
+  });
+  await setStatus(vanished.map((event) => event.id), 'active', 'possibly_removed', runId);
+
+  const counts = { seen: seen.count, missed, possiblyRemoved: vanished.length, restored: restored.length };
+  console.log(
+    `Event presence: ${counts.seen} seen, ${counts.missed} missing, ${counts.possiblyRemoved} possibly removed, ${counts.restored} restored`
+  );
+  return counts;
+}
@@ -0,0 +1,536 @@
+/**
+ * Event persistence
+ * Creates new events and updates existing ones only when scraped data changed,
+ * recording an EventRevision for every changed field, and keeps each event's
+ * upcoming occurrences in step with its dates. A listing from another source
+ * that duplicates a stored event is linked to it as an EventSource instead of
+ * becoming a second event, and each field keeps the source MERGE_POLICY prefers.
+ */
+
+import { Event, Prisma, PrismaClient } from '@prisma/client';
+import { MergeField, PriceTier, Provenance, RawEvent, ScoredEvent, SourceListing } from '../types';
+import { isCancelledText } from '../utils/scraperHelper';
+import { OCCURRENCE_HORIZON_DAYS, expandOccurrences, formatRecurrenceRule } from './occurrences';
+import { addPragueDays, pragueDayEnd, pragueDayStart } from '../utils/timezone';
+import { entryPrice, priceTiersFromPrices } from '../utils/priceParser';
+import { classifyCategories } from '../utils/categories';
+import {
+  DEFAULT_THRESHOLD,
+  MERGE_POLICY,
+  SourceAccuracy,
+  calculateDuplicateScore,
+  eventListings,
+  eventProvenance,
+  preferredEvent,
+} from './deduplication';
+
+const prisma = new PrismaClient();
+
+export type StoreOutcome = 'stored' | 'updated' | 'unchanged' | 'failed';
+
+export type RevisionKind = 'date' | 'price' | 'location' | 'description' | 'details' | 'status';
+
+/**
+ * A changed event column
+ */
+export interface FieldChange {
+  field: string;
+  kind: RevisionKind;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// Columns whose changes are recorded as revisions. Coordinates and scores are
+// derived (geocoding, weather) and change without the source changing.
+const TRACKED_FIELDS: Record<string, RevisionKind> = {
+  startDateTime: 'date',
+  endDateTime: 'date',
+  recurrenceRule: 'date',
+  durationMinutes: 'date',
+  adultPrice: 'price',
+  childPrice: 'price',
+  familyPrice: 'price',
+  priceTiers: 'price',
+  locationName: 'location',
+  address: 'location',
+  description: 'description',
+  title: 'details',
+  category: 'details',
+  tags: 'details',
+  ageMin: 'details',
+  ageMax: 'details',
+  ageConfidence: 'details',
+  setting: 'details',
+  imageUrl: 'details',
+  bookingUrl: 'details',
+  status: 'status',
+};
+
+// Event columns of each merged field (see MERGE_FIELDS)
+const MERGE_FIELD_COLUMNS: Record<MergeField, string[]> = {
+  title: ['title'],
+  description: ['description'],
+  dates: ['startDateTime', 'endDateTime', 'recurrenceRule'],
+  location: ['locationName', 'address'],
+  category: ['category'],
+  ages: ['ageMin', 'ageMax', 'ageConfidence'],
+  prices: ['adultPrice', 'childPrice', 'familyPrice', 'priceTiers', 'priceFrom'],
+  image: ['imageUrl'],
+  booking: ['bookingUrl'],
+};
+
+/**
+ * Map a scored event to Event columns
+ */
+function eventData(event: ScoredEvent) {
+  return {
+    source: event.source,
+    title: event.title,
+    description: event.description,
+    startDateTime: event.startDateTime,
+    endDateTime: event.endDateTime,
+    recurrenceRule: event.recurrence ? formatRecurrenceRule(event.recurrence) : null,
+    locationName: event.locationName,
+    address: event.address,
+    venueId: event.venueId,
+    latitude: event.latitude,
+    longitude: event.longitude,
+    distanceFromPrague: event.distanceFromPrague,
+    category: event.category,
+    tags: event.tags || [],
+    ageMin: event.ageMin,
+    ageMax: event.ageMax,
+    ageConfidence: event.ageConfidence,
+    adultPrice: event.adultPrice,
+    childPrice: event.childPrice,
+    familyPrice: event.familyPrice,
+    priceTiers: (event.priceTiers || []) as unknown as Prisma.InputJsonArray,
+    priceFrom: entryPrice(event.priceTiers?.length ? event.priceTiers : priceTiersFromPrices(event)),
+    setting: event.setting || 'unknown',
+    durationMinutes: event.durationMinutes,
+    imageUrl: event.imageUrl,
+    bookingUrl: event.bookingUrl,
+    provenance: eventProvenance(event) as Prisma.InputJsonObject,
+    scoreToddler: event.scoreToddler,
+    scoreChild: event.scoreChild,
+    scoreFamily: event.scoreFamily,
+    // Listed again, so no longer possibly removed
+    status: isCancelled(event) ? 'cancelled' : 'active',
+  };
+}
+
+/**
+ * Whether the source marks the event as cancelled (flag set by the scraper, or
+ * a cancellation note in the title or description)
+ */
+export function isCancelled(event: Pick<RawEvent, 'title' | 'description' | 'cancelled'>): boolean {
+  return !!event.cancelled || isCancelledText(event.title) || isCancelledText(event.description);
+}
+
+/**
+ * JSON with object keys sorted (JSONB does not keep key order)
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  );
+}
+
+/**
+ * Whether a column value is a JSON object (provenance)
+ */
+function isJsonObject(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Compare a column value from the database with a freshly scraped one
+ * (null and undefined are the same, dates compare by time, JSON by content)
+ */
+function sameValue(stored: unknown, scraped: unknown): boolean {
+  if (stored instanceof Date || scraped instanceof Date) {
+    return stored instanceof Date && scraped instanceof Date && stored.getTime() === scraped.getTime();
+  }
+  if (Array.isArray(stored) || Array.isArray(scraped)) {
+    return canonicalJson(stored ?? []) === canonicalJson(scraped ?? []);
+  }
+  if (isJsonObject(stored) || isJsonObject(scraped)) {
+    return canonicalJson(stored ?? {}) === canonicalJson(scraped ?? {});
+  }
+  return (stored ?? null) === (scraped ?? null);
+}
+
+/**
+ * Changes of tracked fields between a stored event and freshly scraped data
+ * @param stored Event row from the database
+ * @param scraped New column values
+ * @returns One entry per changed tracked field
+ */
+export function diffEventFields(stored: Record<string, unknown>, scraped: Record<string, unknown>): FieldChange[] {
+  return Object.entries(TRACKED_FIELDS)
+    .filter(([field]) => field in scraped && !sameValue(stored[field], scraped[field]))
+    .map(([field, kind]) => ({
+      field,
+      kind,
+      oldValue: stored[field] ?? null,
+      newValue: scraped[field] ?? null,
+    }));
+}
+
+/**
+ * Revision value as JSON (dates as ISO strings, missing values as SQL NULL)
+ */
+function revisionValue(value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  if (value === null || value === undefined) return Prisma.DbNull;
+  return value instanceof Date ? value.toISOString() : (value as Prisma.InputJsonValue);
+}
+
+/**
+ * EventRevision rows of an event's changes
+ */
+function revisionRows(eventId: string, changes: FieldChange[], runId?: string): Prisma.EventRevisionCreateManyInput[] {
+  return changes.map((change) => ({
+    eventId,
+    runId,
+    field: change.field,
+    kind: change.kind,
+    oldValue: revisionValue(change.oldValue),
+    newValue: revisionValue(change.newValue),
+  }));
+}
+
+/**
+ * Stored event a new listing is compared with, and the sources listing it
+ */
+export type DuplicateCandidate = Pick<
+  Event,
+  'id' | 'externalId' | 'source' | 'title' | 'startDateTime' | 'locationName' | 'address' | 'adultPrice'
+> & { sources: { source: string }[] };
+
+/**
+ * Best stored duplicate of a new listing, or null
+ * Candidates already listed by one of the listing's sources are skipped: a source
+ * listing two similar events (e.g. two showtimes) means they are different events.
+ * @param event Scraped event (merged listings included)
+ * @param candidates Stored events on the same Prague day
+ * @param threshold Similarity threshold (default: 0.8)
+ */
+export function findStoredDuplicate<T extends DuplicateCandidate>(
+  event: RawEvent,
+  candidates: T[],
+  threshold: number = DEFAULT_THRESHOLD
+): T | null {
+  const sources = eventListings(event).map((listing) => listing.source);
+  let best: T | null = null;
+  let bestScore = 0;
+
+  for (const candidate of candidates) {
+    if (candidate.sources.some((stored) => sources.includes(stored.source))) continue;
+
+    const stored: RawEvent = {
+      externalId: candidate.externalId,
+      source: candidate.source,
+      title: candidate.title,
+      startDateTime: candidate.startDateTime,
+      locationName: candidate.locationName ?? undefined,
+      address: candidate.address ?? undefined,
+      adultPrice: candidate.adultPrice ?? undefined,
+    };
+    const score = calculateDuplicateScore(stored, event);
+    if (score >= threshold && score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Source names of a stored event with the listings' added, comma-separated
+ */
+export function joinSources(stored: string, listings: SourceListing[]): string {
+  return [...new Set([...stored.split(','), ...listings.map((listing) => listing.source)])].join(',');
+}
+
+/**
+ * Columns a linked listing may fill: those the stored event has no value for
+ */
+function missingColumns<T extends Record<string, unknown>>(stored: Record<string, unknown>, data: T): Partial<T> {
+  const isEmpty = (value: unknown) =>
+    value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+  return Object.fromEntries(
+    Object.entries(data).filter(
+      ([key, value]) =>
+        (isEmpty(stored[key]) || (key === 'setting' && stored[key] === 'unknown')) &&
+        !isEmpty(value) &&
+        value !== 'unknown'
+    )
+  ) as Partial<T>;
+}
+
+/**
+ * Stored event as a scraped one, for comparing fields by MERGE_POLICY
+ * Events stored before provenance get every field from their first source.
+ */
+function storedAsRawEvent(stored: Event): RawEvent {
+  const provenance = stored.provenance as Provenance;
+
+  return {
+    externalId: stored.externalId,
+    source: stored.source.split(',')[0],
+    title: stored.title,
+    description: stored.description ?? undefined,
+    startDateTime: stored.startDateTime,
+    locationName: stored.locationName ?? undefined,
+    address: stored.address ?? undefined,
+    category: stored.category ?? undefined,
+    ageMin: stored.ageMin ?? undefined,
+    ageMax: stored.ageMax ?? undefined,
+    ageConfidence: stored.ageConfidence ?? undefined,
+    adultPrice: stored.adultPrice ?? undefined,
+    childPrice: stored.childPrice ?? undefined,
+    familyPrice: stored.familyPrice ?? undefined,
+    priceTiers: stored.priceTiers as unknown as PriceTier[],
+    imageUrl: stored.imageUrl ?? undefined,
+    bookingUrl: stored.bookingUrl ?? undefined,
+    provenance: Object.keys(provenance).length > 0 ? provenance : undefined,
+  };
+}
+
+/**
+ * Merged field columns a listing sets on a stored event, with the new provenance
+ * Fields the listing's sources supplied take its values; fields another source
+ * supplied are replaced only when the listing wins by MERGE_POLICY.
+ * @param stored Event row from the database
+ * @param event Scraped listing (merged listings included)
+ * @param scraped Its column values
+ * @param accuracy Source accuracy
+ */
+export function mergedColumns(
+  stored: Event,
+  event: RawEvent,
+  scraped: Record<string, unknown>,
+  accuracy: SourceAccuracy = {}
+): { columns: Record<string, unknown>; provenance: Provenance } {
+  const storedEvent = storedAsRawEvent(stored);
+  const storedProvenance = eventProvenance(storedEvent);
+  const scrapedProvenance = eventProvenance(event);
+  const sources = eventListings(event).map((listing) => listing.source);
+  const columns: Record<string, unknown> = {};
+  const provenance: Provenance = {};
+
+  for (const field of Object.keys(MERGE_POLICY) as MergeField[]) {
+    const owner = storedProvenance[field];
+    const take =
+      !owner || sources.includes(owner) || preferredEvent(field, storedEvent, event, accuracy) === event;
+
+    if (take) {
+      for (const column of MERGE_FIELD_COLUMNS[field]) {
+        columns[column] = scraped[column];
+      }
+      if (scrapedProvenance[field]) provenance[field] = scrapedProvenance[field];
+    } else {
+      provenance[field] = owner;
+    }
+  }
+
+  return { columns, provenance };
+}
+
+/**
+ * Stored event of a listing: by the externalId of any merged listing, else the
+ * best duplicate among stored events on the same Prague day
+ */
+async function findStoredEvent(event: ScoredEvent): Promise<Event | null> {
+  const externalIds = eventListings(event).map((listing) => listing.externalId);
+  const listed = await prisma.event.findFirst({
+    where: {
+      OR: [{ externalId: { in: externalIds } }, { sources: { some: { externalId: { in: externalIds } } } }],
+    },
+  });
+  if (listed) return listed;
+
+  const day = pragueDayStart(event.startDateTime);
+  const candidates = await prisma.event.findMany({
+    where: { startDateTime: { gte: day, lte: pragueDayEnd(day) }, archivedAt: null },
+    include: { sources: { select: { source: true } } },
+  });
+  const duplicate = findStoredDuplicate(event, candidates);
+  if (duplicate) {
+    console.log(`Linked ${event.source} listing "${event.title}" to stored event ${duplicate.id} (${duplicate.source})`);
+  }
+  return duplicate;
+}
+
+/**
+ * Create or update the EventSource rows of an event's listings
+ * Listings already linked to another event stay there.
+ */
+async function syncListings(eventId: string, listings: SourceListing[]): Promise<void> {
+  for (const listing of listings) {
+    await prisma.eventSource.upsert({
+      where: { externalId: listing.externalId },
+      update: { bookingUrl: listing.bookingUrl },
+      create: { eventId, ...listing },
+    });
+  }
+}
+
+/**
+ * Regenerate the upcoming occurrences of an event
+ * Past occurrences are kept as history; upcoming ones the event no longer has are removed
+ */
+async function syncOccurrences(eventId: string, event: ScoredEvent): Promise<void> {
+  const today = pragueDayStart(new Date());
+  const spans = expandOccurrences(event, { from: today, to: addPragueDays(today, OCCURRENCE_HORIZON_DAYS) });
+
+  await prisma.$transaction([
+    prisma.eventOccurrence.deleteMany({
+      where: {
+        eventId,
+        startDateTime: { gte: today, notIn: spans.map((span) => span.startDateTime) },
+      },
+    }),
+    prisma.eventOccurrence.createMany({
+      data: spans.map((span) => ({ eventId, ...span })),
+      skipDuplicates: true,
+    }),
+  ]);
+}
+
+/**
+ * Create or update a single event
+ * Merged fields follow mergedColumns. Other columns (tags, coordinates, scores,
+ * status) come from the listing of the stored event's own externalId; listings
+ * linked from other sources only fill those the event has no value for.
+ * @param event Scored event
+ * @param runId Scrape run the event comes from (recorded on revisions)
+ * @param accuracy Source accuracy for merging fields
+ * @returns What happened to the event
+ */
+export async function storeEvent(
+  event: ScoredEvent,
+  runId?: string,
+  accuracy: SourceAccuracy = {}
+): Promise<StoreOutcome> {
+  try {
+    const listings = eventListings(event);
+    const existing = await findStoredEvent(event);
+
+    if (!existing) {
+      const created = await prisma.event.create({
+        data: { externalId: event.externalId, ...eventData(event), sources: { create: listings } },
+      });
+      await syncOccurrences(created.id, event);
+      return 'stored';
+    }
+
+    await syncListings(existing.id, listings);
+
+    const primary = listings.some((listing) => listing.externalId === existing.externalId);
+    const scraped = eventData(event);
+    const { columns, provenance } = mergedColumns(existing, event, scraped, accuracy);
+    const data = {
+      ...(primary ? scraped : missingColumns(existing, scraped)),
+      ...columns,
+      provenance: provenance as Prisma.InputJsonObject,
+      source: joinSources(existing.source, listings),
+    };
+    // Merged field columns only where mergedColumns took them
+    for (const column of Object.values(MERGE_FIELD_COLUMNS).flat()) {
+      if (!(column in columns)) delete data[column as keyof typeof data];
+    }
+
+    // Open-ended schedules move forward every day, even when nothing changed
+    if ('startDateTime' in columns) {
+      await syncOccurrences(existing.id, event);
+    }
+
+    const changed = (Object.keys(data) as Array<keyof typeof data>).some(
+      (key) => !sameValue(existing[key], data[key])
+    );
+    if (!changed) {
+      return 'unchanged';
+    }
+
+    const changes = diffEventFields(existing, data);
+    await prisma.$transaction([
+      prisma.event.update({
+        where: { id: existing.id },
+        data: { ...data, updatedAt: new Date() },
+      }),
+      prisma.eventRevision.createMany({ data: revisionRows(existing.id, changes, runId) }),
+    ]);
+    return 'updated';
+  } catch (error) {
+    console.error(`Error storing event ${event.title}:`, error);
+    return 'failed';
+  }
+}
+
+/**
+ * Store events in database
+ * @param events Scored events
+ * @param onOutcome Called with each event and its outcome (e.g. for per-source counts)
+ * @param runId Scrape run the events come from
+ * @param accuracy Source accuracy for merging fields (see getSourceAccuracy)
+ * @returns Totals per outcome
+ */
+export async function storeEvents(
+  events: ScoredEvent[],
+  onOutcome?: (event: ScoredEvent, outcome: StoreOutcome) => void,
+  runId?: string,
+  accuracy: SourceAccuracy = {}
+): Promise<Record<StoreOutcome, number>> {
+  console.log(`Storing ${events.length} events in database...`);
+  const totals: Record<StoreOutcome, number> = { stored: 0, updated: 0, unchanged: 0, failed: 0 };
+
+  for (const event of events) {
+    const outcome = await storeEvent(event, runId, accuracy);
+    totals[outcome]++;
+    onOutcome?.(event, outcome);
+  }
+
+  console.log(
+    `Events stored: ${totals.stored} new, ${totals.updated} updated, ${totals.unchanged} unchanged, ${totals.failed} failed`
+  );
+  return totals;
+}
+
+/**
+ * Classify stored events again with the current category rules
+ * Category and tag changes are recorded as revisions without a scrape run;
+ * scores catch up at the next scrape.
+ * @param source Only events from this source
+ * @returns Number of events checked and of events whose category or tags changed
+ */
+export async function reclassifyEvents(source?: string): Promise<{ checked: number; changed: number }> {
+  const events = await prisma.event.findMany({
+    // Merged events list every source ("a,b"), so match the per-source records
+    where: source ? { sources: { some: { source } } } : {},
+    select: { id: true, title: true, description: true, category: true, tags: true },
+  });
+
+  let changed = 0;
+  for (const event of events) {
+    const { category, tags } = classifyCategories(event.title + ' ' + (event.description || ''));
+    const changes = diffEventFields(event, { category, tags });
+    if (changes.length === 0) continue;
+
+    await prisma.$transaction([
+      prisma.event.update({
+        where: { id: event.id },
+        data: { category, tags, updatedAt: new Date() },
+      }),
+      prisma.eventRevision.createMany({ data: revisionRows(event.id, changes) }),
+    ]);
+    changed++;
+  }
+
+  console.log(`Events reclassified: ${changed} of ${events.length} changed`);
+  return { checked: events.length, changed };
+}
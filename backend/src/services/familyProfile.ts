@@ -0,0 +1,47 @@
+/**
+ * Family profiles
+ * Loads the family (adults, children's ages) a user plans outings for and adds
+ * what each event or place would cost that family to API results
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { FamilyCost, FamilyProfile, PriceTier } from '../types';
+import { DEFAULT_FAMILY, calculateFamilyCost } from '../utils/priceParser';
+
+const prisma = new PrismaClient();
+
+/**
+ * Event or place row with prices
+ */
+interface PricedRow {
+  adultPrice?: number | null;
+  childPrice?: number | null;
+  familyPrice?: number | null;
+  priceTiers?: Prisma.JsonValue | PriceTier[];
+}
+
+/**
+ * Family profile of a user
+ * @param userId User ID (query parameter); DEFAULT_FAMILY without one or without a saved profile
+ */
+export async function loadFamilyProfile(userId: unknown): Promise<FamilyProfile> {
+  if (typeof userId !== 'string' || !userId) return DEFAULT_FAMILY;
+
+  const preference = await prisma.preference.findUnique({
+    where: { userId },
+    select: { adults: true, childAges: true },
+  });
+
+  return preference ? { adults: preference.adults, childAges: preference.childAges } : DEFAULT_FAMILY;
+}
+
+/**
+ * Add familyCost (null when prices are unknown) to an event or place
+ */
+export function withFamilyCost<T extends PricedRow>(
+  row: T,
+  family: FamilyProfile
+): T & { familyCost: FamilyCost | null } {
+  const priceTiers = Array.isArray(row.priceTiers) ? (row.priceTiers as unknown as PriceTier[]) : undefined;
+  return { ...row, familyCost: calculateFamilyCost({ ...row, priceTiers }, family) };
+}
@@ -2,12 +2,15 @@
  * Geocoding service using OpenStreetMap Nominatim API
  */
 
-import axios from 'axios';
 import { GeocodingResult } from '../types';
 import { distanceFromPrague, isWithinPragueRadius } from '../utils/distance';
+import { fetchPage, httpFetcher } from '../utils/fetcher';
+import { setHostLimit } from '../utils/rateLimiter';
 
 const NOMINATIM_API = 'https://nominatim.openstreetmap.org/search';
-const REQUEST_DELAY = 1000; // 1 second delay between requests (Nominatim rate limit)
+
+// Nominatim usage policy: at most 1 request per second
+setHostLimit(NOMINATIM_API, { ratePerSecond: 1, burst: 1 });
 
 // Cache for geocoded addresses
 const geocodeCache = new Map<string, GeocodingResult | null>();
@@ -30,10 +33,8 @@ export async function geocodeAddress(address: string): Promise<GeocodingResult |
   }
 
   try {
-    // Add delay to respect rate limits
-    await delay(REQUEST_DELAY);
-
-    const response = await axios.get(NOMINATIM_API, {
+    const response = await fetchPage(httpFetcher, {
+      url: NOMINATIM_API,
       params: {
         q: address,
         format: 'json',
@@ -46,11 +47,13 @@ export async function geocodeAddress(address: string): Promise<GeocodingResult |
       timeout: 10000,
     });
 
-    if (response.data && response.data.length > 0) {
+    const data = response ? JSON.parse(response.body) : null;
+
+    if (data && data.length > 0) {
       const result: GeocodingResult = {
-        latitude: parseFloat(response.data[0].lat),
-        longitude: parseFloat(response.data[0].lon),
-        displayName: response.data[0].display_name,
+        latitude: parseFloat(data[0].lat),
+        longitude: parseFloat(data[0].lon),
+        displayName: data[0].display_name,
       };
 
       // Cache the result
@@ -148,10 +151,3 @@ export function getCacheStats(): { size: number; entries: number } {
     entries: Array.from(geocodeCache.entries()).filter(([_, v]) => v !== null).length,
   };
 }
-
-/**
- * Helper function to delay execution
- */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
@@ -0,0 +1,105 @@
+/**
+ * Event occurrences
+ * Expands multi-day events (exhibitions) and recurring events (weekly shows)
+ * into the dated occurrences the calendar, list and map views show.
+ */
+
+import { addMinutes } from 'date-fns';
+import { RawEvent, RecurrenceRule } from '../types';
+import {
+  addPragueDays,
+  atPragueTime,
+  isSamePragueDay,
+  pragueDateKey,
+  pragueDayStart,
+  pragueWallClock,
+} from '../utils/timezone';
+
+// How far ahead occurrences of open-ended and long-running events are generated
+export const OCCURRENCE_HORIZON_DAYS = parseInt(process.env.OCCURRENCE_HORIZON_DAYS || '180');
+
+// Upper bound per event, whatever the window
+const MAX_OCCURRENCES = 400;
+
+// RFC 5545 weekday codes, indexed by weekday (0 = Sunday)
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export interface OccurrenceSpan {
+  startDateTime: Date;
+  endDateTime?: Date;
+}
+
+type OccurrenceSource = Pick<RawEvent, 'startDateTime' | 'endDateTime' | 'durationMinutes' | 'recurrence'>;
+
+/**
+ * Dated occurrences of an event within a window
+ * - single events: the event itself (whatever the window)
+ * - multi-day events: one occurrence per day, at the start time of the event
+ * - recurring events: one occurrence per matching weekday until the rule ends
+ * Days and times are Prague days and wall-clock times (10:00 stays 10:00 across DST changes)
+ * @param event Event dates and recurrence rule
+ * @param window Days to generate occurrences for (multi-day and recurring events only)
+ * @returns Occurrences in chronological order
+ */
+export function expandOccurrences(event: OccurrenceSource, window: { from: Date; to: Date }): OccurrenceSpan[] {
+  const { startDateTime: start, endDateTime: end, recurrence } = event;
+  const multiDay = !!end && end > start && !isSamePragueDay(start, end);
+
+  if (!recurrence && !multiDay) {
+    return [{ startDateTime: start, endDateTime: end }];
+  }
+
+  const lastDay = [recurrence?.until, multiDay ? end : undefined, window.to]
+    .filter((date): date is Date => !!date)
+    .reduce((earliest, date) => (date < earliest ? date : earliest));
+  const time = recurrence?.time ?? pragueWallClock(start);
+
+  const spans: OccurrenceSpan[] = [];
+  let day = pragueDayStart(start > window.from ? start : window.from);
+
+  while (day <= lastDay && spans.length < MAX_OCCURRENCES) {
+    const weekday = pragueWallClock(day).weekday;
+    if (!recurrence || recurrence.weekdays.length === 0 || recurrence.weekdays.includes(weekday)) {
+      const occurrenceStart = atPragueTime(day, time.hours, time.minutes);
+      spans.push({ startDateTime: occurrenceStart, endDateTime: occurrenceEnd(event, occurrenceStart) });
+    }
+    day = addPragueDays(day, 1);
+  }
+
+  return spans;
+}
+
+/**
+ * End of one occurrence: start plus duration, or the end time of a multi-day event on that day
+ */
+function occurrenceEnd(event: OccurrenceSource, occurrenceStart: Date): Date | undefined {
+  if (event.durationMinutes) {
+    return addMinutes(occurrenceStart, event.durationMinutes);
+  }
+  if (event.recurrence || !event.endDateTime) {
+    return undefined;
+  }
+
+  const endTime = pragueWallClock(event.endDateTime);
+  const end = atPragueTime(occurrenceStart, endTime.hours, endTime.minutes);
+  return end > occurrenceStart ? end : undefined;
+}
+
+/**
+ * Recurrence rule as an RFC 5545 RRULE, e.g. "FREQ=WEEKLY;BYDAY=SA;BYHOUR=10;BYMINUTE=0;UNTIL=20251231"
+ * @param rule Recurrence rule
+ * @returns RRULE value stored on the event
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = rule.weekdays.length > 0
+    ? ['FREQ=WEEKLY', `BYDAY=${rule.weekdays.map((day) => RRULE_WEEKDAYS[day]).join(',')}`]
+    : ['FREQ=DAILY'];
+
+  if (rule.time) {
+    parts.push(`BYHOUR=${rule.time.hours}`, `BYMINUTE=${rule.time.minutes}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${pragueDateKey(rule.until).replace(/-/g, '')}`);
+  }
+  return parts.join(';');
+}
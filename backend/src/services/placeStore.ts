@@ -0,0 +1,76 @@
+/**
+ * Place persistence
+ * Upserts scraped places (permanent attractions) by external ID and remembers
+ * when each was last listed by its source
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { ScoredPlace } from '../types';
+
+const prisma = new PrismaClient();
+
+/**
+ * Map a scored place to Place columns
+ */
+function placeData(place: ScoredPlace, now: Date) {
+  return {
+    source: place.source,
+    name: place.name,
+    description: place.description,
+    locationName: place.locationName,
+    address: place.address,
+    venueId: place.venueId,
+    latitude: place.latitude,
+    longitude: place.longitude,
+    distanceFromPrague: place.distanceFromPrague,
+    category: place.category,
+    tags: place.tags || [],
+    ageMin: place.ageMin,
+    ageMax: place.ageMax,
+    ageConfidence: place.ageConfidence,
+    adultPrice: place.adultPrice,
+    childPrice: place.childPrice,
+    familyPrice: place.familyPrice,
+    setting: place.setting || 'unknown',
+    openingHours: place.openingHours,
+    seasonMonths: place.seasonMonths,
+    imageUrl: place.imageUrl,
+    url: place.url,
+    scoreToddler: place.scoreToddler,
+    scoreChild: place.scoreChild,
+    scoreFamily: place.scoreFamily,
+    lastSeenAt: now,
+  };
+}
+
+/**
+ * Store places in database
+ * @param places Scored places
+ * @param now Time of the scrape run
+ * @returns Number of places stored and failed
+ */
+export async function storePlaces(
+  places: ScoredPlace[],
+  now: Date = new Date()
+): Promise<{ stored: number; failed: number }> {
+  console.log(`Storing ${places.length} places in database...`);
+  const totals = { stored: 0, failed: 0 };
+
+  for (const place of places) {
+    try {
+      const data = placeData(place, now);
+      await prisma.place.upsert({
+        where: { externalId: place.externalId },
+        create: { externalId: place.externalId, ...data },
+        update: data,
+      });
+      totals.stored++;
+    } catch (error) {
+      console.error(`Error storing place ${place.name}:`, error);
+      totals.failed++;
+    }
+  }
+
+  console.log(`Places stored: ${totals.stored}, ${totals.failed} failed`);
+  return totals;
+}
@@ -3,40 +3,68 @@
  * Base score: 50 points, then add points based on various factors
  */
 
-import { GeocodedEvent, ScoredEvent, AgeGroup, ScoreFactors } from '../types';
+import { GeocodedEvent, ScoredEvent, GeocodedPlace, ScoredPlace, AgeGroup, ScoreFactors, Setting } from '../types';
 import { WeatherData } from '../types';
+import { openDaysPerWeek } from '../utils/openingHours';
+import { DEFAULT_FAMILY, calculateFamilyCost, priceTiersFromPrices } from '../utils/priceParser';
+import { pragueWallClock } from '../utils/timezone';
 
 const BASE_SCORE = 35; // Lowered from 50 to make age appropriateness more important
 
+/**
+ * Score for events without an age restriction - aggressive penalties to differentiate categories
+ * This creates strong separation between toddler/child/family views
+ */
+function noAgeRestrictionScore(ageGroup?: AgeGroup): number {
+  if (ageGroup === AgeGroup.TODDLER) return 5; // Very strict - toddlers need specific content
+  if (ageGroup === AgeGroup.CHILD) return 15; // Moderate - children need appropriate content
+  return 25; // Flexible - family events are more general
+}
+
 /**
  * Calculate age appropriateness score (max 35 points)
- * Enhanced version with better age range handling and stronger differentiation
+ * Enhanced version with better age range handling and stronger differentiation.
+ * Ages may be fractional (1.5 = 18 months) and 0 is a valid minimum. Ages
+ * guessed from audience words or grades count only as much as their
+ * confidence, the rest is scored as if there were no age restriction.
  * @param ageMin Minimum age for event
  * @param ageMax Maximum age for event
  * @param targetAge Target age to score for
  * @param ageGroup The age group being scored for
+ * @param confidence Confidence of the ages (0-1, default 1)
  * @returns Score between 0 and 35
  */
-function calculateAgeScore(ageMin?: number, ageMax?: number, targetAge?: number, ageGroup?: AgeGroup): number {
-  if (!ageMin && !ageMax) {
-    // No age restriction specified - aggressive penalties to differentiate categories
-    // This creates strong separation between toddler/child/family views
-    if (ageGroup === AgeGroup.TODDLER) return 5; // Very strict - toddlers need specific content
-    if (ageGroup === AgeGroup.CHILD) return 15; // Moderate - children need appropriate content
-    return 25; // Flexible - family events are more general
+function calculateAgeScore(
+  ageMin?: number | null,
+  ageMax?: number | null,
+  targetAge?: number,
+  ageGroup?: AgeGroup,
+  confidence?: number | null
+): number {
+  if (ageMin == null && ageMax == null) {
+    return noAgeRestrictionScore(ageGroup);
   }
 
-  if (!targetAge) {
+  const weight = Math.min(Math.max(confidence ?? 1, 0), 1);
+  const score = calculateAgeRangeScore(ageMin, ageMax, targetAge);
+  return Math.round(weight * score + (1 - weight) * noAgeRestrictionScore(ageGroup));
+}
+
+/**
+ * Age score of a known age range (max 35 points)
+ */
+function calculateAgeRangeScore(ageMin?: number | null, ageMax?: number | null, targetAge?: number): number {
+  if (targetAge === undefined) {
     return 12;
   }
 
   // Perfect match: targetAge is within range
-  if (ageMin && ageMax && targetAge >= ageMin && targetAge <= ageMax) {
+  if (ageMin != null && ageMax != null && targetAge >= ageMin && targetAge <= ageMax) {
     return 35;
   }
 
   // Within range but not specified both bounds
-  if (ageMin && !ageMax && targetAge >= ageMin) {
+  if (ageMin != null && ageMax == null && targetAge >= ageMin) {
     // Event says "X+ years", check how close we are
     const diff = targetAge - ageMin;
     if (diff < 2) return 30;
@@ -44,7 +72,7 @@ function calculateAgeScore(ageMin?: number, ageMax?: number, targetAge?: number,
     return 22;
   }
 
-  if (ageMax && !ageMin && targetAge <= ageMax) {
+  if (ageMax != null && ageMin == null && targetAge <= ageMax) {
     // Event says "up to X years", check how close we are
     const diff = ageMax - targetAge;
     if (diff > 2) return 30;
@@ -53,7 +81,7 @@ function calculateAgeScore(ageMin?: number, ageMax?: number, targetAge?: number,
   }
 
   // Close to the range - use graduated scoring
-  if (ageMin && targetAge < ageMin) {
+  if (ageMin != null && targetAge < ageMin) {
     const diff = ageMin - targetAge;
     if (diff <= 1) return 20;
     if (diff <= 2) return 14;
@@ -61,7 +89,7 @@ function calculateAgeScore(ageMin?: number, ageMax?: number, targetAge?: number,
     return 0;
   }
 
-  if (ageMax && targetAge > ageMax) {
+  if (ageMax != null && targetAge > ageMax) {
     const diff = targetAge - ageMax;
     if (diff <= 1) return 20;
     if (diff <= 2) return 14;
@@ -87,56 +115,72 @@ function calculateDistanceScore(distance?: number): number {
   return 0;
 }
 
+type PriceFields = Pick<GeocodedEvent, 'adultPrice' | 'childPrice' | 'familyPrice' | 'priceTiers'>;
+
 /**
  * Calculate price score (max 15 points)
- * Uses adult price as reference
- * @param adultPrice Adult price in CZK
- * @param childPrice Child price in CZK
- * @param familyPrice Family price in CZK
+ * Prices an outing of the default family (see calculateFamilyCost) from the
+ * ticket tiers, or the plain adult / child / family prices when no tiers were parsed
+ * @param prices Ticket tiers and prices of the event or place
  * @returns Score between 0 and 15
  */
-function calculatePriceScore(
-  adultPrice?: number,
-  childPrice?: number,
-  familyPrice?: number
-): number {
+function calculatePriceScore(prices: PriceFields): number {
   // If no price data available, give low score (uncertainty penalty)
-  if (!adultPrice && !childPrice && !familyPrice) {
-    return 3; // Changed from implicit 15 to explicit 3 - penalize missing data
+  if (!prices.priceTiers?.length && priceTiersFromPrices(prices).length === 0) {
+    return 3;
   }
 
-  // Calculate best family price (2 adults + 1 child)
-  const individualPrice = (adultPrice || 0) * 2 + (childPrice || adultPrice || 0);
-  const effectivePrice = familyPrice && familyPrice < individualPrice
-    ? familyPrice
-    : individualPrice;
+  // Only extras on top of an entry of unknown price ("zdarma ke vstupnému"), or
+  // no price for part of the family (only child tiers listed)
+  const cost = calculateFamilyCost(prices, DEFAULT_FAMILY);
+  if (!cost) {
+    return 6;
+  }
 
-  if (effectivePrice === 0) return 15; // Actually free
-  if (effectivePrice < 200) return 12;
-  if (effectivePrice < 500) return 8;
-  if (effectivePrice < 1000) return 4;
+  if (cost.total === 0) return 15; // Actually free
+  if (cost.total < 200) return 12;
+  if (cost.total < 500) return 8;
+  if (cost.total < 1000) return 4;
   return 2;
 }
 
+/**
+ * Weather points for where an event happens
+ * Outdoor events gain in good weather and lose in bad weather, mixed ones half as
+ * much; indoor events gain a little when it rains. Unknown settings get nothing
+ * either way.
+ */
+function weatherSettingScore(setting: Setting | undefined, weather: WeatherData): number {
+  switch (setting) {
+    case 'outdoor':
+      return weather.isGoodForOutdoor ? 8 : -3;
+    case 'mixed':
+      return weather.isGoodForOutdoor ? 4 : -1;
+    case 'indoor':
+      return weather.isGoodForOutdoor ? 0 : 3;
+    default:
+      return 0;
+  }
+}
+
 /**
  * Calculate event type score (max 15 points)
- * @param category Event category
- * @param isOutdoor Whether event is outdoor
+ * @param categories Main category and tags of the event
+ * @param setting Indoor/outdoor; weather only counts when it is known
  * @param ageGroup Target age group
  * @param weather Weather data if available
  * @returns Score between 0 and 15
  */
 function calculateEventTypeScore(
-  category?: string,
-  isOutdoor?: boolean,
+  categories: (string | null | undefined)[],
+  setting?: Setting,
   ageGroup?: AgeGroup,
   weather?: WeatherData
 ): number {
   let score = 5; // Base score
 
-  if (!category) return score;
-
-  const cat = category.toLowerCase();
+  const cat = categories.filter(Boolean).join(' ').toLowerCase();
+  if (!cat) return score;
 
   // Apply negative patterns for inappropriate events
   if (ageGroup === AgeGroup.TODDLER) {
@@ -167,10 +211,8 @@ function calculateEventTypeScore(
   }
 
   // Outdoor events get bonus if weather is good
-  if (isOutdoor && weather?.isGoodForOutdoor) {
-    score += 8;
-  } else if (isOutdoor && weather && !weather.isGoodForOutdoor) {
-    score -= 3; // Penalty for outdoor event with bad weather
+  if (weather) {
+    score += weatherSettingScore(setting, weather);
   }
 
   // Educational events
@@ -238,8 +280,8 @@ function calculateEventTypeScore(
 function calculateTimingScore(startDateTime: Date, ageGroup?: AgeGroup): number {
   let score = 0;
 
-  const dayOfWeek = startDateTime.getDay(); // 0 = Sunday, 6 = Saturday
-  const hour = startDateTime.getHours();
+  // Prague time, whatever the server timezone
+  const { weekday: dayOfWeek, hours: hour } = pragueWallClock(startDateTime); // 0 = Sunday, 6 = Saturday
 
   // Weekend bonus
   if (dayOfWeek === 0 || dayOfWeek === 6) {
@@ -334,8 +376,7 @@ function calculateSeasonalityScore(
 
   // Check for holiday events
   if (startDateTime) {
-    const month = startDateTime.getMonth();
-    const day = startDateTime.getDate();
+    const month = pragueWallClock(startDateTime).month - 1;
 
     // Christmas season
     if (month === 11) return 5;
@@ -346,13 +387,52 @@ function calculateSeasonalityScore(
   return 0;
 }
 
+/**
+ * Calculate availability score of a place (max 15 points)
+ * Places open most days all year round are easy to fit into any free day
+ * @param openingHours schema.org opening hours (empty when unknown)
+ * @param seasonMonths Months the place is open (empty for all year)
+ * @returns Score between 0 and 15
+ */
+export function calculateAvailabilityScore(openingHours: string[], seasonMonths: number[]): number {
+  let score = 5; // Unknown opening hours
+
+  if (openingHours.length > 0) {
+    const openDays = openDaysPerWeek(openingHours);
+    if (openDays >= 6) score = 15;
+    else if (openDays >= 4) score = 10;
+    else score = 6;
+  }
+
+  // Seasonal places (open-air pools, summer farms) are closed part of the year
+  if (seasonMonths.length > 0) {
+    score -= 3;
+  }
+
+  return Math.max(score, 0);
+}
+
+type CompletenessFields = Pick<
+  GeocodedEvent,
+  | 'ageMin'
+  | 'ageMax'
+  | 'distanceFromPrague'
+  | 'adultPrice'
+  | 'childPrice'
+  | 'familyPrice'
+  | 'priceTiers'
+  | 'description'
+  | 'imageUrl'
+>;
+
 /**
  * Calculate data completeness multiplier (0.7 - 1.0)
  * Penalizes events with incomplete data to encourage better scraping
- * @param event Event to evaluate
+ * @param event Event or place to evaluate
+ * @param hasSchedule Whether the duration (events) or opening hours (places) are known
  * @returns Multiplier between 0.7 and 1.0
  */
-function calculateDataCompletenessMultiplier(event: GeocodedEvent): number {
+function calculateDataCompletenessMultiplier(event: CompletenessFields, hasSchedule: boolean): number {
   let completeness = 0;
   let totalFields = 0;
 
@@ -368,12 +448,17 @@ function calculateDataCompletenessMultiplier(event: GeocodedEvent): number {
   totalFields += 2;
 
   // Important fields (weight: 1 each)
-  if (event.adultPrice != null || event.childPrice != null || event.familyPrice != null) {
+  if (
+    event.priceTiers?.length ||
+    event.adultPrice != null ||
+    event.childPrice != null ||
+    event.familyPrice != null
+  ) {
     completeness += 1;
   }
   totalFields += 1;
 
-  if (event.durationMinutes != null) {
+  if (hasSchedule) {
     completeness += 1;
   }
   totalFields += 1;
@@ -410,12 +495,12 @@ export function scoreEvent(
   const targetAge =
     ageGroup === AgeGroup.TODDLER ? 2 : ageGroup === AgeGroup.CHILD ? 8 : undefined;
 
-  const ageScore = calculateAgeScore(event.ageMin, event.ageMax, targetAge, ageGroup);
+  const ageScore = calculateAgeScore(event.ageMin, event.ageMax, targetAge, ageGroup, event.ageConfidence);
   const distanceScore = calculateDistanceScore(event.distanceFromPrague);
-  const priceScore = calculatePriceScore(event.adultPrice, event.childPrice, event.familyPrice);
+  const priceScore = calculatePriceScore(event);
   const eventTypeScore = calculateEventTypeScore(
-    event.category,
-    event.isOutdoor,
+    [event.category, ...(event.tags || [])],
+    event.setting,
     ageGroup,
     weather
   );
@@ -428,7 +513,7 @@ export function scoreEvent(
   );
 
   // Apply data completeness multiplier to final score
-  const dataMultiplier = calculateDataCompletenessMultiplier(event);
+  const dataMultiplier = calculateDataCompletenessMultiplier(event, event.durationMinutes != null);
   const totalScore = Math.min(
     100,
     (BASE_SCORE +
@@ -478,6 +563,48 @@ export function scoreEventForAllGroups(
   };
 }
 
+/**
+ * Score a place (permanent attraction) for a specific age group
+ * Uses the age, distance, price and type factors of events; instead of timing,
+ * duration and seasonality of a date, places score on how often they are open
+ * @param place Place to score
+ * @param ageGroup Target age group
+ * @returns Score between 0 and 100
+ */
+export function scorePlace(place: GeocodedPlace, ageGroup: AgeGroup): number {
+  const targetAge =
+    ageGroup === AgeGroup.TODDLER ? 2 : ageGroup === AgeGroup.CHILD ? 8 : undefined;
+
+  const ageScore = calculateAgeScore(place.ageMin, place.ageMax, targetAge, ageGroup, place.ageConfidence);
+  const distanceScore = calculateDistanceScore(place.distanceFromPrague);
+  const priceScore = calculatePriceScore(place);
+  // Weather is unknown for an unspecified day
+  const typeScore = calculateEventTypeScore([place.category, ...(place.tags || [])], place.setting, ageGroup);
+  const availabilityScore = calculateAvailabilityScore(place.openingHours, place.seasonMonths);
+
+  const dataMultiplier = calculateDataCompletenessMultiplier(place, place.openingHours.length > 0);
+  const totalScore = Math.min(
+    100,
+    (BASE_SCORE + ageScore + distanceScore + priceScore + typeScore + availabilityScore) * dataMultiplier
+  );
+
+  return Math.round(totalScore);
+}
+
+/**
+ * Score place for all age groups
+ * @param place Place to score
+ * @returns Scored place with scores for all age groups
+ */
+export function scorePlaceForAllGroups(place: GeocodedPlace): ScoredPlace {
+  return {
+    ...place,
+    scoreToddler: scorePlace(place, AgeGroup.TODDLER),
+    scoreChild: scorePlace(place, AgeGroup.CHILD),
+    scoreFamily: scorePlace(place, AgeGroup.FAMILY),
+  };
+}
+
 /**
  * Get score color and label based on score value
  * @param score Score value (0-100)
@@ -0,0 +1,401 @@
+/**
+ * Scrape run history
+ * Records one ScrapeRun per pipeline invocation with per-source stage counts
+ * and classified errors, and derives scraper health from them
+ */
+
+import { Prisma, PrismaClient, ScrapeRunSource } from '@prisma/client';
+import { RawEvent, ScrapeError, ScrapeErrorType, ScrapeStage, ScraperResult, StageCounts } from '../types';
+import { BASELINE_RUNS, YieldSnapshot, computeBaseline, computeFillRates, detectDrift } from './scraperDrift';
+import { SourceAccuracy } from './deduplication';
+
+const prisma = new PrismaClient();
+
+// Errors stored per source record (counts are always complete)
+const MAX_STORED_ERRORS = 50;
+// A source that has not produced a run record for this long is stale
+const STALE_AFTER_HOURS = 48;
+// Run records considered when computing health
+const HEALTH_WINDOW = 10;
+
+export type SourceStatus = 'success' | 'partial' | 'error';
+export type HealthStatus = 'healthy' | 'warning' | 'error';
+
+/**
+ * Classify a scraper error message
+ * Scrapers report errors as strings; the engine and hand-written scrapers use
+ * consistent phrasing, anything unrecognised counts as a parse failure
+ */
+export function classifyScrapeError(message: string): ScrapeErrorType {
+  const lower = message.toLowerCase();
+
+  if (lower.includes('not in replay cache')) {
+    return 'replay-miss';
+  }
+  if (lower.includes('no renderer available')) {
+    return 'renderer-unavailable';
+  }
+  if (lower.includes('firecrawl')) {
+    return 'firecrawl-unavailable';
+  }
+  if (lower.includes('no event elements found') || lower.includes('no events found')) {
+    return 'selector-miss';
+  }
+  if (
+    lower.includes('failed to fetch') ||
+    /timeout|timed out|econn|enotfound|eai_again|socket hang up|network|status code \d+/.test(lower)
+  ) {
+    return 'network';
+  }
+  return 'parse-failure';
+}
+
+/**
+ * Empty stage counts
+ */
+export function createStageCounts(): StageCounts {
+  return {
+    found: 0,
+    parsed: 0,
+    missingDate: 0,
+    deduplicated: 0,
+    geocoded: 0,
+    outOfRadius: 0,
+    stored: 0,
+    updated: 0,
+    unchanged: 0,
+  };
+}
+
+/**
+ * Source an event is attributed to (merged duplicates list several, first one owns the event)
+ */
+export function primarySource(event: RawEvent): string {
+  return event.source.split(',')[0];
+}
+
+/**
+ * Add to a source's stage count
+ */
+export function countStage(
+  counts: Map<string, StageCounts>,
+  source: string,
+  stage: ScrapeStage,
+  amount: number = 1
+): void {
+  if (!counts.has(source)) {
+    counts.set(source, createStageCounts());
+  }
+  counts.get(source)![stage] += amount;
+}
+
+/**
+ * Count events merged away by deduplication, per source
+ * @param counts Stage counts to update
+ * @param before Events before deduplication
+ * @param after Events after deduplication
+ */
+export function countDeduplicated(counts: Map<string, StageCounts>, before: RawEvent[], after: RawEvent[]): void {
+  const remaining = new Map<string, number>();
+  for (const event of after) {
+    remaining.set(primarySource(event), (remaining.get(primarySource(event)) || 0) + 1);
+  }
+
+  const scraped = new Map<string, number>();
+  for (const event of before) {
+    scraped.set(event.source, (scraped.get(event.source) || 0) + 1);
+  }
+
+  for (const [source, total] of scraped) {
+    countStage(counts, source, 'deduplicated', Math.max(0, total - (remaining.get(source) || 0)));
+  }
+}
+
+/**
+ * Status of a single source in a run
+ */
+export function sourceStatus(result: ScraperResult): SourceStatus {
+  if (result.errors.length === 0) return 'success';
+  return result.events.length > 0 ? 'partial' : 'error';
+}
+
+/**
+ * Yield snapshot of a stored run record
+ */
+function toSnapshot(record: ScrapeRunSource): YieldSnapshot {
+  return {
+    parsed: record.parsed,
+    fillRates: {
+      date: record.dateFillRate,
+      price: record.priceFillRate,
+      image: record.imageFillRate,
+      location: record.locationFillRate,
+    },
+  };
+}
+
+/**
+ * Start a run record
+ * @param trigger What started the pipeline (cron, manual)
+ * @returns Run ID
+ */
+export async function startScrapeRun(trigger: string): Promise<string> {
+  const run = await prisma.scrapeRun.create({ data: { trigger } });
+  return run.id;
+}
+
+/**
+ * Classified errors as JSON for ScrapeRunSource.errors (first MAX_STORED_ERRORS)
+ */
+function storedErrors(errors: ScrapeError[]): Prisma.InputJsonValue {
+  return errors.slice(0, MAX_STORED_ERRORS).map(({ type, message }) => ({ type, message }));
+}
+
+/**
+ * Finish a run: store per-source records and the overall status
+ * @param runId Run ID from startScrapeRun
+ * @param results Scraper results of this run
+ * @param counts Pipeline stage counts per source (deduplicated, geocoded, stored, ...)
+ * @param error Error that aborted the pipeline, if any
+ */
+export async function finishScrapeRun(
+  runId: string,
+  results: ScraperResult[],
+  counts: Map<string, StageCounts>,
+  error?: unknown
+): Promise<void> {
+  const statuses = results.map(sourceStatus);
+
+  for (const result of results) {
+    const stages = { ...createStageCounts(), ...counts.get(result.source) };
+    const errors: ScrapeError[] = result.errors.map((message) => ({
+      type: classifyScrapeError(message),
+      message,
+    }));
+    const errorCount = (type: ScrapeErrorType) => errors.filter((e) => e.type === type).length;
+
+    // Compare with the source's rolling baseline (failed runs are skipped by computeBaseline)
+    const fillRates = computeFillRates(result);
+    const previous = await prisma.scrapeRunSource.findMany({
+      where: { source: result.source },
+      orderBy: { createdAt: 'desc' },
+      take: BASELINE_RUNS * 2,
+    });
+    const drift = detectDrift(
+      { parsed: result.events.length, fillRates },
+      computeBaseline(previous.map(toSnapshot))
+    );
+    if (drift.degraded) {
+      console.warn(`[${result.source}] Scraper degraded: ${drift.reasons.join('; ')}`);
+    }
+
+    await prisma.scrapeRunSource.create({
+      data: {
+        runId,
+        source: result.source,
+        status: sourceStatus(result),
+        executionTime: result.executionTime,
+        ...stages,
+        found: result.stats?.found ?? result.events.length,
+        parsed: result.events.length,
+        missingDate: result.stats?.missingDate ?? 0,
+        networkErrors: errorCount('network'),
+        selectorMisses: errorCount('selector-miss'),
+        parseFailures: errorCount('parse-failure'),
+        firecrawlUnavailable: errorCount('firecrawl-unavailable'),
+        errors: storedErrors(errors),
+        dateFillRate: fillRates.date,
+        priceFillRate: fillRates.price,
+        imageFillRate: fillRates.image,
+        locationFillRate: fillRates.location,
+        degraded: drift.degraded,
+        degradedReasons: drift.reasons,
+      },
+    });
+  }
+
+  let status: SourceStatus = 'success';
+  if (error || (statuses.length > 0 && statuses.every((s) => s === 'error'))) {
+    status = 'error';
+  } else if (statuses.some((s) => s !== 'success')) {
+    status = 'partial';
+  }
+
+  const run = await prisma.scrapeRun.findUnique({ where: { id: runId } });
+  const finishedAt = new Date();
+
+  await prisma.scrapeRun.update({
+    where: { id: runId },
+    data: {
+      status,
+      finishedAt,
+      durationMs: run ? finishedAt.getTime() - run.startedAt.getTime() : undefined,
+      errorMessage: error ? String(error) : undefined,
+    },
+  });
+}
+
+/**
+ * Health of one source computed from its run records
+ */
+export interface SourceHealth {
+  source: string;
+  status: HealthStatus;
+  reason: string | null;
+  lastActive: Date | null;
+  lastSuccessAt: Date | null;
+  consecutiveFailures: number;
+  lastRun: ScrapeRunSource | null;
+  errorCounts: Record<ScrapeErrorType, number>;
+  degraded: boolean;
+  degradedReasons: string[];
+}
+
+/**
+ * Messages of the errors stored in a run record (classified objects, or plain
+ * strings in rows backfilled from ScrapeLog)
+ */
+export function storedErrorMessages(record: Pick<ScrapeRunSource, 'errors'>): string[] {
+  if (!Array.isArray(record.errors)) return [];
+  return record.errors.map((error) =>
+    typeof error === 'string' ? error : String((error as Partial<ScrapeError> | null)?.message ?? '')
+  );
+}
+
+/**
+ * Stored errors of a type in a run record
+ */
+function storedErrorCount(record: ScrapeRunSource, type: ScrapeErrorType): number {
+  if (!Array.isArray(record.errors)) return 0;
+  return record.errors.filter((error) => (error as Partial<ScrapeError> | null)?.type === type).length;
+}
+
+/**
+ * Evaluate a source's health
+ * @param source Source name
+ * @param records The source's recent run records, newest first
+ * @param now Reference time for staleness
+ */
+export function evaluateSourceHealth(source: string, records: ScrapeRunSource[], now: Date = new Date()): SourceHealth {
+  const errorCounts: Record<ScrapeErrorType, number> = {
+    network: 0,
+    'selector-miss': 0,
+    'parse-failure': 0,
+    'firecrawl-unavailable': 0,
+    'renderer-unavailable': 0,
+    'replay-miss': 0,
+  };
+  for (const record of records) {
+    errorCounts.network += record.networkErrors;
+    errorCounts['selector-miss'] += record.selectorMisses;
+    errorCounts['parse-failure'] += record.parseFailures;
+    errorCounts['firecrawl-unavailable'] += record.firecrawlUnavailable;
+    // No columns of their own: both are configuration problems, not site failures
+    errorCounts['renderer-unavailable'] += storedErrorCount(record, 'renderer-unavailable');
+    errorCounts['replay-miss'] += storedErrorCount(record, 'replay-miss');
+  }
+
+  const [lastRun] = records;
+  const lastSuccess = records.find((record) => record.status !== 'error' && record.parsed > 0);
+  const firstWorking = records.findIndex((record) => record.status !== 'error');
+  const consecutiveFailures = firstWorking === -1 ? records.length : firstWorking;
+
+  const health: SourceHealth = {
+    source,
+    status: 'healthy',
+    reason: null,
+    lastActive: lastRun?.createdAt || null,
+    lastSuccessAt: lastSuccess?.createdAt || null,
+    consecutiveFailures,
+    lastRun: lastRun || null,
+    errorCounts,
+    degraded: lastRun?.degraded || false,
+    degradedReasons: lastRun?.degradedReasons || [],
+  };
+
+  if (!lastRun) {
+    return { ...health, status: 'error', reason: 'No scrape runs recorded' };
+  }
+
+  if (lastRun.status === 'error') {
+    const lastErrors = {
+      network: lastRun.networkErrors,
+      'selector-miss': lastRun.selectorMisses,
+      'parse-failure': lastRun.parseFailures,
+      'firecrawl-unavailable': lastRun.firecrawlUnavailable,
+    };
+    const [dominant] = Object.entries(lastErrors).sort((a, b) => b[1] - a[1]);
+    return {
+      ...health,
+      status: 'error',
+      reason: `Last run failed (${dominant[0]}), ${consecutiveFailures} failure(s) in a row`,
+    };
+  }
+
+  const ageHours = (now.getTime() - lastRun.createdAt.getTime()) / (60 * 60 * 1000);
+  if (ageHours > STALE_AFTER_HOURS) {
+    return { ...health, status: 'warning', reason: `No run for ${Math.round(ageHours)} hours` };
+  }
+  if (lastRun.degraded) {
+    return { ...health, status: 'warning', reason: `Degraded: ${lastRun.degradedReasons.join('; ')}` };
+  }
+  if (lastRun.parsed === 0) {
+    return { ...health, status: 'warning', reason: 'Last run returned no events' };
+  }
+  if (lastRun.status === 'partial') {
+    return { ...health, status: 'warning', reason: 'Last run reported errors' };
+  }
+
+  return health;
+}
+
+/**
+ * Compute health for the given sources from recorded runs
+ * @param sources Registered source names
+ */
+export async function getScraperHealth(sources: string[]): Promise<SourceHealth[]> {
+  const now = new Date();
+
+  return Promise.all(
+    sources.map(async (source) => {
+      const records = await prisma.scrapeRunSource.findMany({
+        where: { source },
+        orderBy: { createdAt: 'desc' },
+        take: HEALTH_WINDOW,
+      });
+      return evaluateSourceHealth(source, records, now);
+    })
+  );
+}
+
+/**
+ * Historical accuracy of sources
+ * Share of a source's listings whose event never had its dates or prices
+ * corrected by a later run, smoothed so that sources with few listings stay
+ * near DEFAULT_ACCURACY (one accurate and one corrected listing are added)
+ * @param listed Listings per source
+ * @param corrected Listings per source whose event has date or price revisions
+ */
+export function sourceAccuracy(listed: Record<string, number>, corrected: Record<string, number>): SourceAccuracy {
+  return Object.fromEntries(
+    Object.entries(listed).map(([source, total]) => [source, (total - (corrected[source] || 0) + 1) / (total + 2)])
+  );
+}
+
+/**
+ * Historical accuracy of every source with stored listings (see sourceAccuracy)
+ */
+export async function getSourceAccuracy(): Promise<SourceAccuracy> {
+  const [listed, corrected] = await Promise.all([
+    prisma.eventSource.groupBy({ by: ['source'], _count: { _all: true } }),
+    prisma.eventSource.groupBy({
+      by: ['source'],
+      where: { event: { revisions: { some: { kind: { in: ['date', 'price'] } } } } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const counts = (groups: typeof listed) =>
+    Object.fromEntries(groups.map((group) => [group.source, group._count._all]));
+  return sourceAccuracy(counts(listed), counts(corrected));
+}
@@ -0,0 +1,142 @@
+/**
+ * Selector drift detection
+ * Compares a source's yield and field fill rates with its rolling baseline
+ * so a site redesign that silently breaks selectors gets flagged
+ */
+
+import { ScraperResult } from '../types';
+
+// Previous run records forming the baseline
+export const BASELINE_RUNS = 7;
+// Baseline needs this many usable runs before drift is reported
+const MIN_BASELINE_RUNS = 3;
+// Sources yielding fewer events than this are too small to judge yield drops
+const MIN_BASELINE_YIELD = 5;
+// Degraded when yield falls below this share of the baseline
+const YIELD_DROP_RATIO = 0.5;
+// Degraded when a fill rate falls by this much (absolute) from a meaningful baseline
+const FILL_RATE_DROP = 0.3;
+
+export type FillRateField = 'date' | 'price' | 'image' | 'location';
+
+export type FillRates = Record<FillRateField, number | null>;
+
+/**
+ * Yield and fill rates of a single run
+ */
+export interface YieldSnapshot {
+  parsed: number;
+  fillRates: FillRates;
+}
+
+/**
+ * Rolling baseline from previous runs (medians)
+ */
+export interface DriftBaseline {
+  runs: number;
+  parsed: number;
+  fillRates: FillRates;
+}
+
+export interface DriftResult {
+  degraded: boolean;
+  reasons: string[];
+}
+
+const FIELDS: FillRateField[] = ['date', 'price', 'image', 'location'];
+
+/**
+ * Share of items having a value, null when there are no items
+ */
+function rate(count: number, total: number): number | null {
+  return total > 0 ? count / total : null;
+}
+
+/**
+ * Compute field fill rates of a scraper result
+ * The date rate is measured on candidates (events without a date never make it into the result)
+ */
+export function computeFillRates(result: ScraperResult): FillRates {
+  const { events } = result;
+  const found = result.stats?.found ?? events.length;
+  const missingDate = result.stats?.missingDate ?? 0;
+
+  return {
+    date: rate(found - missingDate, found),
+    price: rate(
+      events.filter((e) => e.adultPrice !== undefined || e.childPrice !== undefined || e.familyPrice !== undefined)
+        .length,
+      events.length
+    ),
+    image: rate(events.filter((e) => e.imageUrl).length, events.length),
+    location: rate(events.filter((e) => e.locationName || e.address).length, events.length),
+  };
+}
+
+/**
+ * Median of the non-null values, null if there are none
+ */
+function median(values: Array<number | null>): number | null {
+  const sorted = values.filter((v): v is number => v !== null).sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Build the rolling baseline from previous runs
+ * Failed runs (no events) are left out so one outage doesn't drag the baseline down
+ * @param previous Previous snapshots of the source, newest first
+ * @returns Baseline, or null when there is not enough history
+ */
+export function computeBaseline(previous: YieldSnapshot[]): DriftBaseline | null {
+  const usable = previous.filter((snapshot) => snapshot.parsed > 0).slice(0, BASELINE_RUNS);
+  if (usable.length < MIN_BASELINE_RUNS) return null;
+
+  const fillRates = {} as FillRates;
+  for (const field of FIELDS) {
+    fillRates[field] = median(usable.map((snapshot) => snapshot.fillRates[field]));
+  }
+
+  return {
+    runs: usable.length,
+    parsed: median(usable.map((snapshot) => snapshot.parsed)) || 0,
+    fillRates,
+  };
+}
+
+/**
+ * Format a 0-1 rate as a percentage
+ */
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Compare a run with the baseline
+ * @param current Snapshot of the run being recorded
+ * @param baseline Baseline from previous runs (null = not enough history)
+ */
+export function detectDrift(current: YieldSnapshot, baseline: DriftBaseline | null): DriftResult {
+  if (!baseline) {
+    return { degraded: false, reasons: [] };
+  }
+
+  const reasons: string[] = [];
+
+  if (baseline.parsed >= MIN_BASELINE_YIELD && current.parsed < baseline.parsed * YIELD_DROP_RATIO) {
+    reasons.push(`Yield dropped to ${current.parsed} events (baseline ${Math.round(baseline.parsed)})`);
+  }
+
+  for (const field of FIELDS) {
+    const expected = baseline.fillRates[field];
+    const actual = current.fillRates[field];
+    if (expected === null || actual === null || expected < FILL_RATE_DROP) continue;
+
+    if (actual <= expected - FILL_RATE_DROP) {
+      reasons.push(`${field} fill rate dropped to ${percent(actual)} (baseline ${percent(expected)})`);
+    }
+  }
+
+  return { degraded: reasons.length > 0, reasons };
+}
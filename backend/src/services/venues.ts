@@ -0,0 +1,228 @@
+/**
+ * Venue matching
+ * Links events to a shared Venue so different spellings of a place
+ * ("Národní technické muzeum", "NTM Praha") resolve to one record whose
+ * coordinates and facilities are reused instead of geocoding every event.
+ */
+
+import { PrismaClient, Venue } from '@prisma/client';
+import { calculateDistance } from '../utils/distance';
+import { combineSetting } from '../utils/setting';
+import { Setting } from '../types';
+
+const prisma = new PrismaClient();
+
+// Words that say where, not which place ("NTM Praha", "Divadlo v Praze")
+const NAME_NOISE_WORDS = ['praha', 'prague', 'praze', 'cz', 'spol', 'sro'];
+
+// Venues this close with similar names are the same place
+const SAME_PLACE_METERS = 100;
+
+/**
+ * What an event or place says about its venue
+ */
+export interface VenueCandidate {
+  locationName?: string;
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+  setting?: Setting;
+}
+
+export type VenueRecord = Pick<Venue, 'name' | 'aliases' | 'normalizedAddress' | 'latitude' | 'longitude'>;
+
+export interface VenueLocation {
+  latitude: number;
+  longitude: number;
+  distanceFromPrague: number;
+}
+
+let venueCache: Venue[] | null = null;
+
+/**
+ * Lowercase ASCII words of a text (diacritics and punctuation removed)
+ */
+function words(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Comparable form of a venue name: the part before the first comma, without
+ * diacritics, city names and legal forms
+ * @example normalizeVenueName('Národní technické muzeum, Kostelní 42') // 'narodni technicke muzeum'
+ */
+export function normalizeVenueName(name: string): string {
+  return words(name.split(',')[0])
+    .filter((word) => word.length > 1 && !NAME_NOISE_WORDS.includes(word))
+    .join(' ');
+}
+
+/**
+ * Comparable form of an address: street and first house number of the first part
+ * @example normalizeAddress('U Trojského zámku 3/120, 171 00 Praha 7') // 'u trojskeho zamku 3'
+ * @returns Normalized address, or null when it has no street with a house number
+ */
+export function normalizeAddress(address: string): string | null {
+  const match = words(address.split(',')[0]).join(' ').match(/^(\D*[a-z]\D*?) (\d+)/);
+  // "Praha 7" is a district, not a street
+  if (!match || NAME_NOISE_WORDS.includes(match[1])) return null;
+  return `${match[1]} ${match[2]}`;
+}
+
+/**
+ * Initials of a multi-word name ("narodni technicke muzeum" -> "ntm")
+ */
+function acronym(normalizedName: string): string | null {
+  const parts = normalizedName.split(' ');
+  return parts.length > 1 ? parts.map((part) => part[0]).join('') : null;
+}
+
+/**
+ * Share of words two names have in common (Jaccard index)
+ */
+function nameOverlap(a: string, b: string): number {
+  const first = new Set(a.split(' '));
+  const second = new Set(b.split(' '));
+  const common = [...first].filter((word) => second.has(word)).length;
+  const all = new Set([...first, ...second]).size;
+  return all === 0 ? 0 : common / all;
+}
+
+/**
+ * Find the venue an event refers to
+ * Tries, in order: the same name or alias, an acronym of one ("NTM"), the same
+ * street address, and a nearby venue with a similar name
+ * @param candidate Location fields of the event
+ * @param venues Known venues
+ * @returns Matching venue or null
+ */
+export function matchVenue<T extends VenueRecord>(candidate: VenueCandidate, venues: T[]): T | null {
+  const name = candidate.locationName ? normalizeVenueName(candidate.locationName) : '';
+  const address = candidate.address ? normalizeAddress(candidate.address) : null;
+  const venueNames = (venue: T) => [venue.name, ...venue.aliases].map(normalizeVenueName).filter(Boolean);
+
+  if (name) {
+    const byName = venues.find((venue) => venueNames(venue).includes(name));
+    if (byName) return byName;
+
+    const byAcronym = venues.find((venue) =>
+      venueNames(venue).some((venueName) => acronym(venueName) === name || acronym(name) === venueName)
+    );
+    if (byAcronym) return byAcronym;
+  }
+
+  if (address) {
+    const byAddress = venues.find((venue) => venue.normalizedAddress === address);
+    if (byAddress) return byAddress;
+  }
+
+  if (name && candidate.latitude !== undefined && candidate.longitude !== undefined) {
+    const nearby = venues.find(
+      (venue) =>
+        venue.latitude !== null &&
+        venue.longitude !== null &&
+        calculateDistance(candidate.latitude!, candidate.longitude!, venue.latitude, venue.longitude) * 1000 <=
+          SAME_PLACE_METERS &&
+        venueNames(venue).some((venueName) => nameOverlap(name, venueName) >= 0.5)
+    );
+    if (nearby) return nearby;
+  }
+
+  return null;
+}
+
+/**
+ * Known venues, loaded once per process
+ */
+async function loadVenues(): Promise<Venue[]> {
+  if (!venueCache) {
+    venueCache = await prisma.venue.findMany();
+  }
+  return venueCache;
+}
+
+/**
+ * Find the venue of an event or place, creating it when the place is new
+ * A new spelling of a known venue is added to its aliases.
+ * @param event Scraped event or place
+ * @returns Venue, or null when the event has no location
+ */
+export async function findOrCreateVenue(event: VenueCandidate): Promise<Venue | null> {
+  const locationName = event.locationName || event.address;
+  if (!locationName) return null;
+
+  const normalizedAddress = event.address ? normalizeAddress(event.address) : null;
+  // Just a city ("Praha") - not a place to link events to
+  if (!normalizeVenueName(locationName) && !normalizedAddress) return null;
+
+  const venues = await loadVenues();
+  const venue = matchVenue({ ...event, locationName }, venues);
+  const name = locationName.split(',')[0].trim();
+
+  if (venue) {
+    if (name !== venue.name && !venue.aliases.includes(name)) {
+      const updated = await prisma.venue.update({
+        where: { id: venue.id },
+        data: { aliases: { push: name } },
+      });
+      venues[venues.indexOf(venue)] = updated;
+      return updated;
+    }
+    return venue;
+  }
+
+  const created = await prisma.venue.create({
+    data: {
+      name,
+      address: event.address,
+      normalizedAddress,
+      latitude: event.latitude,
+      longitude: event.longitude,
+    },
+  });
+  venues.push(created);
+  console.log(`[Venues] New venue: ${created.name}`);
+  return created;
+}
+
+/**
+ * Stored coordinates of a venue
+ * @returns Location, or null when the venue has not been geocoded yet
+ */
+export function venueLocation(venue: Venue | null): VenueLocation | null {
+  if (!venue || venue.latitude === null || venue.longitude === null || venue.distanceFromPrague === null) {
+    return null;
+  }
+  return { latitude: venue.latitude, longitude: venue.longitude, distanceFromPrague: venue.distanceFromPrague };
+}
+
+/**
+ * Setting of an event or place, from the venue's indoor and outdoor facilities
+ * when its own text did not tell
+ */
+export function venueSetting(setting: Setting | undefined, venue: Pick<Venue, 'hasIndoor' | 'hasOutdoor'> | null): Setting {
+  if (setting && setting !== 'unknown') return setting;
+  return venue ? combineSetting(!!venue.hasIndoor, !!venue.hasOutdoor) : 'unknown';
+}
+
+/**
+ * Store geocoded coordinates on a venue so later events reuse them
+ */
+export async function setVenueLocation(venue: Venue, location: VenueLocation): Promise<void> {
+  const updated = await prisma.venue.update({ where: { id: venue.id }, data: location });
+  if (venueCache) {
+    venueCache = venueCache.map((cached) => (cached.id === updated.id ? updated : cached));
+  }
+}
+
+/**
+ * Forget loaded venues (e.g. after venues were edited elsewhere)
+ */
+export function clearVenueCache(): void {
+  venueCache = null;
+}
@@ -2,9 +2,9 @@
  * Weather service using OpenWeatherMap API
  */
 
-import axios from 'axios';
 import { WeatherData } from '../types';
-import { addDays, format } from 'date-fns';
+import { pragueDateKey, pragueWallClock } from '../utils/timezone';
+import { fetchPage, httpFetcher } from '../utils/fetcher';
 
 const OPENWEATHER_API = 'https://api.openweathermap.org/data/2.5/forecast';
 const PRAGUE_LAT = 50.0755;
@@ -34,7 +34,8 @@ export async function fetchWeatherForecast(): Promise<WeatherData[]> {
   }
 
   try {
-    const response = await axios.get(OPENWEATHER_API, {
+    const response = await fetchPage(httpFetcher, {
+      url: OPENWEATHER_API,
       params: {
         lat: PRAGUE_LAT,
         lon: PRAGUE_LON,
@@ -48,15 +49,17 @@ export async function fetchWeatherForecast(): Promise<WeatherData[]> {
     const weatherData: WeatherData[] = [];
     const processedDates = new Set<string>();
 
-    if (response.data && response.data.list) {
-      for (const item of response.data.list) {
+    const data = response ? JSON.parse(response.body) : null;
+
+    if (data && data.list) {
+      for (const item of data.list) {
         const date = new Date(item.dt * 1000);
-        const dateStr = format(date, 'yyyy-MM-dd');
+        const dateStr = pragueDateKey(date);
 
         // Only keep one entry per day (use midday forecast)
         if (processedDates.has(dateStr)) continue;
 
-        const hour = date.getHours();
+        const hour = pragueWallClock(date).hours;
         if (hour < 10 || hour > 16) continue; // Skip early morning and evening
 
         processedDates.add(dateStr);
@@ -101,7 +104,7 @@ export async function fetchWeatherForecast(): Promise<WeatherData[]> {
  */
 export async function getWeatherForDate(date: Date): Promise<WeatherData | null> {
   const forecast = await fetchWeatherForecast();
-  const dateStr = format(date, 'yyyy-MM-dd');
+  const dateStr = pragueDateKey(date);
 
   return forecast.find((w) => w.date === dateStr) || null;
 }
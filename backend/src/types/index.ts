@@ -2,6 +2,8 @@
  * Type definitions for the Prague Family Events application
  */
 
+import type { Cheerio, CheerioAPI } from 'cheerio';
+
 export interface RawEvent {
   externalId: string;
   source: string;
@@ -11,22 +13,132 @@ export interface RawEvent {
   endDateTime?: Date;
   locationName?: string;
   address?: string;
+  /** Main category (an EventCategory) */
   category?: string;
+  /** Every category the event matches, the main one included */
+  tags?: string[];
+  /** Ages in years, fractional for months (1.5 = 18 months) */
   ageMin?: number;
   ageMax?: number;
+  /** How sure the ages are (0-1), see extractAgeRange */
+  ageConfidence?: number;
   adultPrice?: number;
   childPrice?: number;
   familyPrice?: number;
-  isOutdoor?: boolean;
+  /** Ticket prices as listed; adult/child/familyPrice summarize them in CZK */
+  priceTiers?: PriceTier[];
+  /** Indoor/outdoor, see inferSetting */
+  setting?: Setting;
   durationMinutes?: number;
   imageUrl?: string;
   bookingUrl?: string;
+  /** Source marks the event as cancelled */
+  cancelled?: boolean;
+  /** Repeating schedule; endDateTime (if any) bounds it as well */
+  recurrence?: RecurrenceRule;
+  /** Every source listing merged into the event, see eventListings */
+  listings?: SourceListing[];
+  /** Source each merged field came from, see eventProvenance */
+  provenance?: Provenance;
+}
+
+/**
+ * Fields merged from one source each (see MERGE_POLICY)
+ */
+export type MergeField =
+  | 'title'
+  | 'description'
+  | 'dates'
+  | 'location'
+  | 'category'
+  | 'ages'
+  | 'prices'
+  | 'image'
+  | 'booking';
+
+/**
+ * Source of each merged field of an event, e.g. { prices: 'goout', ages: 'kudyznudy' }
+ */
+export type Provenance = Partial<Record<MergeField, string>>;
+
+/**
+ * One source's listing of an event
+ */
+export interface SourceListing {
+  source: string;
+  externalId: string;
+  bookingUrl?: string;
+}
+
+/**
+ * Where an event or place happens; mixed has indoor and outdoor parts
+ */
+export type Setting = 'indoor' | 'outdoor' | 'mixed' | 'unknown';
+
+export type Currency = 'CZK' | 'EUR';
+
+export type PriceTierLabel = 'adult' | 'child' | 'toddler' | 'family' | 'reduced' | 'general';
+
+/**
+ * One ticket price, e.g. "děti 3–15 let: 80 Kč" or "děti do 3 let zdarma"
+ * - label: who the ticket is for; 'general' when the source does not say
+ * - amount: price in currency, 0 for free tickets
+ * - maxAmount: upper end of a range ("100–200 Kč")
+ * - isFrom: lowest of several prices ("od 100 Kč")
+ * - ageMin / ageMax: ages the ticket applies to
+ * - withEntry: on top of a paid entry ("zdarma ke vstupnému"), not a free visit
+ */
+export interface PriceTier {
+  label: PriceTierLabel;
+  amount: number;
+  currency: Currency;
+  maxAmount?: number;
+  isFrom?: boolean;
+  ageMin?: number;
+  ageMax?: number;
+  withEntry?: boolean;
+}
+
+/**
+ * Who goes on family outings, used to estimate what an event costs
+ * - childAges: ages in years, fractions allowed (1.5 for a toddler)
+ */
+export interface FamilyProfile {
+  adults: number;
+  childAges: number[];
+}
+
+/**
+ * What an outing costs a family, in CZK
+ * - tickets: individual tickets only, or a family ticket plus individual
+ *   tickets for anyone it does not cover
+ * - savings: family ticket compared with individual tickets
+ * - freeEntries: family members who go free (e.g. toddlers)
+ */
+export interface FamilyCost {
+  total: number;
+  tickets: 'individual' | 'family';
+  savings?: number;
+  freeEntries: number;
+}
+
+/**
+ * Repeating schedule of an event, e.g. "každou sobotu v 10:00 do 31. 12."
+ * - weekdays: days the event takes place (0 = Sunday ... 6 = Saturday), empty for every day
+ * - time: start time of each occurrence (default: time of startDateTime)
+ * - until: last day of the schedule
+ */
+export interface RecurrenceRule {
+  weekdays: number[];
+  time?: { hours: number; minutes: number };
+  until?: Date;
 }
 
 export interface GeocodedEvent extends RawEvent {
   latitude?: number;
   longitude?: number;
   distanceFromPrague?: number;
+  venueId?: string;
 }
 
 export interface ScoredEvent extends GeocodedEvent {
@@ -35,6 +147,51 @@ export interface ScoredEvent extends GeocodedEvent {
   scoreFamily: number;
 }
 
+/**
+ * Permanent attraction (playground, zoo, museum) - not tied to a date
+ * - openingHours: schema.org format, e.g. "Tu-Su 09:00-18:00"; empty when unknown
+ * - seasonMonths: months it is open (1-12); empty for all year
+ */
+export interface RawPlace {
+  externalId: string;
+  source: string;
+  name: string;
+  description?: string;
+  locationName?: string;
+  address?: string;
+  /** Main category (an EventCategory) */
+  category?: string;
+  /** Every category the event matches, the main one included */
+  tags?: string[];
+  /** Ages in years, fractional for months (1.5 = 18 months) */
+  ageMin?: number;
+  ageMax?: number;
+  /** How sure the ages are (0-1), see extractAgeRange */
+  ageConfidence?: number;
+  adultPrice?: number;
+  childPrice?: number;
+  familyPrice?: number;
+  /** Indoor/outdoor, see inferSetting */
+  setting?: Setting;
+  openingHours: string[];
+  seasonMonths: number[];
+  imageUrl?: string;
+  url?: string;
+}
+
+export interface GeocodedPlace extends RawPlace {
+  latitude?: number;
+  longitude?: number;
+  distanceFromPrague?: number;
+  venueId?: string;
+}
+
+export interface ScoredPlace extends GeocodedPlace {
+  scoreToddler: number;
+  scoreChild: number;
+  scoreFamily: number;
+}
+
 export interface ScoreFactors {
   ageAppropriatenessScore: number;
   distanceScore: number;
@@ -49,10 +206,55 @@ export interface ScoreFactors {
 export interface ScraperResult {
   source: string;
   events: RawEvent[];
+  /** Permanent attractions, from sources that list places rather than events */
+  places?: RawPlace[];
   errors: string[];
   executionTime: number;
+  stats?: ScraperStats;
+}
+
+/**
+ * Counts collected while a scraper runs
+ * - found: candidate elements (cards, JSON-LD events) on listing pages
+ * - missingDate: candidates dropped because no date could be parsed
+ */
+export interface ScraperStats {
+  found: number;
+  missingDate: number;
 }
 
+/**
+ * Scrape error classes recorded per source
+ */
+export type ScrapeErrorType =
+  | 'network'
+  | 'selector-miss'
+  | 'parse-failure'
+  | 'firecrawl-unavailable'
+  | 'renderer-unavailable'
+  | 'replay-miss';
+
+export interface ScrapeError {
+  type: ScrapeErrorType;
+  message: string;
+}
+
+/**
+ * Pipeline stages counted per source in a scrape run
+ */
+export type ScrapeStage =
+  | 'found'
+  | 'parsed'
+  | 'missingDate'
+  | 'deduplicated'
+  | 'geocoded'
+  | 'outOfRadius'
+  | 'stored'
+  | 'updated'
+  | 'unchanged';
+
+export type StageCounts = Record<ScrapeStage, number>;
+
 export interface WeatherData {
   date: string;
   temperature: number;
@@ -72,17 +274,27 @@ export enum AgeGroup {
   FAMILY = 'family'
 }
 
+/**
+ * Categories and tags of events and places (see utils/categories for labels and rules)
+ */
 export enum EventCategory {
   MUSEUM = 'museum',
   THEATER = 'theater',
+  PUPPETS = 'puppets',
   WORKSHOP = 'workshop',
   OUTDOOR = 'outdoor',
+  INDOOR = 'indoor',
   SPORT = 'sport',
   PLAYGROUND = 'playground',
   EXHIBITION = 'exhibition',
   CONCERT = 'concert',
   FESTIVAL = 'festival',
+  CINEMA = 'cinema',
   EDUCATIONAL = 'educational',
+  SCIENCE = 'science',
+  READING = 'reading',
+  ZOO = 'zoo',
+  AQUAPARK = 'aquapark',
   OTHER = 'other'
 }
 
@@ -94,6 +306,157 @@ export interface FilterOptions {
   ageGroup?: AgeGroup;
   indoorOnly?: boolean;
   outdoorOnly?: boolean;
+  setting?: Setting[];
   dateFrom?: Date;
   dateTo?: Date;
 }
+
+/**
+ * Raw string fields a declarative scraper extracts from each listing item
+ */
+export type ScraperFieldName =
+  | 'title'
+  | 'description'
+  | 'date'
+  | 'time'
+  | 'dateTime'
+  | 'location'
+  | 'address'
+  | 'price'
+  | 'image'
+  | 'link';
+
+/**
+ * A single listing item (event card) matched by a scraper definition
+ */
+export interface ScraperItem {
+  $: CheerioAPI;
+  $el: Cheerio<any>;
+  index: number;
+  pageUrl: string;
+}
+
+/**
+ * Listing item together with its extracted raw fields
+ */
+export interface ScraperItemContext extends ScraperItem {
+  text: string;
+  fields: Partial<Record<ScraperFieldName, string>>;
+}
+
+/**
+ * How to extract one field from a listing item:
+ * - list of selectors tried in order (text content)
+ * - selectors plus optional attribute and string transform
+ * - custom extractor for markup that selectors can't describe
+ */
+export type ScraperFieldSpec =
+  | string[]
+  | {
+      selectors: string[];
+      attr?: string;
+      transform?: (value: string) => string;
+    }
+  | ((item: ScraperItem) => string | undefined);
+
+/**
+ * Browser rendering backend for JavaScript-heavy pages
+ */
+export type Renderer = 'firecrawl' | 'puppeteer';
+
+/**
+ * Options for rendering a page in a browser
+ * - waitFor: ms to wait after the page loaded
+ * - timeout: request/navigation timeout in ms
+ * - waitForSelector: wait until this selector matches (Puppeteer only)
+ * - scroll: scroll steps to trigger lazy loading (Puppeteer only)
+ */
+export interface RenderOptions {
+  waitFor?: number;
+  timeout?: number;
+  waitForSelector?: string;
+  scroll?: number;
+}
+
+/**
+ * How listing pages are fetched
+ * 'firecrawl' falls back to Puppeteer when Firecrawl is not configured,
+ * 'puppeteer' always renders locally
+ */
+export type ScraperFetchOptions =
+  | {
+      strategy: 'axios';
+      params?: Record<string, string>;
+      headers?: Record<string, string>;
+      timeout?: number;
+    }
+  | ({ strategy: Renderer } & RenderOptions);
+
+/**
+ * How to follow listing pages beyond the first one
+ */
+export interface ScraperPagination {
+  /** Selector of the "next page" link */
+  nextSelector?: string;
+  /** Query parameter carrying the page number, used when there is no next link */
+  pageParam?: string;
+  /** Maximum listing pages per list URL (default: 5) */
+  maxPages?: number;
+}
+
+/**
+ * Raw fields read from an event's detail page (bookingUrl)
+ * - text: content searched for age range, prices and duration
+ */
+export type ScraperDetailFieldName = 'description' | 'address' | 'price' | 'text';
+
+/**
+ * Optional detail-page pass filling in what listing cards omit
+ */
+export interface ScraperDetailDefinition {
+  fields: Partial<Record<ScraperDetailFieldName, ScraperFieldSpec>>;
+  /** How detail pages are fetched (default: same as listing pages) */
+  fetch?: ScraperFetchOptions;
+  /** Maximum detail pages fetched per run (default: 50) */
+  maxEvents?: number;
+}
+
+/**
+ * Declarative scraper definition executed by the shared scraper engine
+ */
+export interface ScraperDefinition {
+  /** Source name, used as RawEvent.source and externalId prefix */
+  name: string;
+  /** Origin used to resolve relative image and booking URLs */
+  baseUrl: string;
+  /** Listing pages to scrape, in order */
+  listUrls: string[];
+  fetch: ScraperFetchOptions;
+  /** Delay in ms between listing pages (default: 2000) */
+  delayBetweenPages?: number;
+  /** Prefer schema.org JSON-LD events embedded in listing and detail pages (default: true) */
+  jsonLd?: boolean;
+  pagination?: ScraperPagination;
+  detail?: ScraperDetailDefinition;
+  /** Selector matching one element per event */
+  itemSelector: string;
+  /** Optional predicate narrowing down itemSelector matches */
+  itemFilter?: (item: ScraperItem) => boolean;
+  fields: Partial<Record<ScraperFieldName, ScraperFieldSpec>> & { title: ScraperFieldSpec };
+  /** Text searched for prices, age range and duration (default: item text) */
+  itemText?: (item: ScraperItem) => string;
+  /** Items with shorter titles are ignored (default: 1) */
+  minTitleLength?: number;
+  /** Custom start date parsing, replaces dateTime/date/time handling */
+  parseDate?: (ctx: ScraperItemContext) => Date | null;
+  /** Report events without a parseable date as errors instead of skipping them */
+  reportMissingDate?: boolean;
+  /** Extra keywords in title/description that mark an event as outdoor (see inferSetting) */
+  outdoorKeywords?: string[];
+  /** Custom externalId hash input (default: title + date + location) */
+  externalIdKey?: (ctx: ScraperItemContext) => string;
+  /** Drop events that don't belong to the source (past, out of region, ...) */
+  filter?: (event: RawEvent, ctx: ScraperItemContext) => boolean;
+  /** Final per-event adjustment */
+  transform?: (event: RawEvent, ctx: ScraperItemContext) => RawEvent;
+}
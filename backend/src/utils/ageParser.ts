@@ -0,0 +1,167 @@
+/**
+ * Czech age range parser
+ * Reads the ages an event is meant for from Czech text: years and months
+ * ("od 18 měsíců", "3–6 let"), "+" notation, school grades ("1. stupeň ZŠ")
+ * and audiences ("batolata", "předškoláci", "teenageři"). Ages are decimal
+ * years (18 months = 1.5).
+ */
+
+/**
+ * Ages found in a text
+ * - confidence: 1 for explicit ranges, lower for "+" notation, grades and
+ *   audience words; 0 when no age was found
+ */
+export interface AgeRange {
+  ageMin?: number;
+  ageMax?: number;
+  confidence: number;
+}
+
+const RANGE_CONFIDENCE = 1;
+const BOUND_CONFIDENCE = 0.9;
+const GRADE_CONFIDENCE = 0.8;
+const AUDIENCE_CONFIDENCE = 0.6;
+
+// "3", "1,5", "1.5"
+const NUMBER = String.raw`(\d{1,2}(?:[,.]\d{1,2})?)`;
+// Months or years after a number: (1) months, (2) years
+const UNIT = String.raw`(?:(měsíc\p{L}*|měs\.|months?)|(let|roků|roku|roky|rok|r\.|years?))(?!\p{L})`;
+
+// "3–6 let", "6-18 měsíců", "18 měsíců - 3 roky", "3 až 6 let"
+const RANGE_REGEX = new RegExp(
+  String.raw`(?<![\d.,:])${NUMBER}\s*(?:${UNIT})?\s*(?:[-–]|až)\s*${NUMBER}\s*${UNIT}`,
+  'iu'
+);
+// "od 3 do 6 let", "od 18 měsíců do 3 let"
+const FROM_TO_REGEX = new RegExp(String.raw`(?<!\p{L})od\s+${NUMBER}\s*(?:${UNIT})?\s*do\s+${NUMBER}\s*${UNIT}`, 'iu');
+const FROM_REGEX = new RegExp(String.raw`(?<!\p{L})od\s+${NUMBER}\s*${UNIT}`, 'iu');
+const TO_REGEX = new RegExp(String.raw`(?<!\p{L})do\s+${NUMBER}\s*${UNIT}`, 'iu');
+// "3+", "6+ let", "6 let+", "6 let a starší" - not "2+2" family tickets
+const PLUS_REGEX = new RegExp(
+  String.raw`(?<![\d.,:+])${NUMBER}\s*(?:${UNIT})?\s*(?:\+(?!\s*\d)|a\s+(?:starší|více|výše)(?!\p{L}))`,
+  'iu'
+);
+
+// "1. stupeň ZŠ", "2. stupně základní školy"
+const SCHOOL_STAGE_REGEX = /([12])\.\s*stup\p{L}*\s*(?:zš|základn)/giu;
+// "1.–5. třída", "3. ročník"
+const GRADE_RANGE_REGEX = /(?<!\d)([1-9])\.\s*[-–]\s*([1-9])\.\s*(?:tříd|ročník)/giu;
+const GRADE_REGEX = /(?<![\d.–-]\s*)([1-9])\.\s*(?:tříd|ročník)/giu;
+
+const SCHOOL_STAGES: Record<string, [number, number]> = {
+  '1': [6, 11],
+  '2': [11, 15],
+};
+
+// Audience words and the ages they stand for
+const AUDIENCES: [RegExp, number, number][] = [
+  [/(?<!\p{L})(?:miminka|miminek|miminko|kojen|novoroz)/iu, 0, 1],
+  [/(?<!\p{L})batol/iu, 1, 3],
+  [/(?<!\p{L})(?:předškol|mš(?!\p{L})|školk)/iu, 3, 6],
+  [/(?<!\p{L})(?:školá|školní\s+dět|žác|žák|zš(?!\p{L}))/iu, 6, 15],
+  [/(?<!\p{L})mládež/iu, 12, 18],
+  [/(?<!\p{L})(?:teenage|teen|náctilet|dospívající)/iu, 13, 18],
+];
+
+/**
+ * Age in years from a number and its unit match groups
+ */
+function toYears(value: string, months?: string): number {
+  const number = parseFloat(value.replace(',', '.'));
+  return months ? Math.round((number / 12) * 100) / 100 : number;
+}
+
+/**
+ * Range from bounds, or null when they make no sense (min above max, over 99)
+ */
+function range(ageMin: number | undefined, ageMax: number | undefined, confidence: number): AgeRange | null {
+  if (ageMin !== undefined && (isNaN(ageMin) || ageMin > 99)) return null;
+  if (ageMax !== undefined && (isNaN(ageMax) || ageMax > 99)) return null;
+  if (ageMin !== undefined && ageMax !== undefined && ageMin > ageMax) return null;
+
+  const result: AgeRange = { confidence };
+  if (ageMin !== undefined) result.ageMin = ageMin;
+  if (ageMax !== undefined) result.ageMax = ageMax;
+  return result;
+}
+
+/**
+ * "3–6 let", "od 3 do 6 let" - a first number without a unit takes the second's
+ */
+function explicitRange(text: string): AgeRange | null {
+  const match = text.match(RANGE_REGEX) || text.match(FROM_TO_REGEX);
+  if (!match) return null;
+
+  const [, min, minMonths, minYears, max, maxMonths] = match;
+  const minInMonths = minMonths || (minYears ? undefined : maxMonths);
+  return range(toYears(min, minInMonths), toYears(max, maxMonths), RANGE_CONFIDENCE);
+}
+
+/**
+ * "od 18 měsíců", "do 12 let", "6+" (either bound, or both from separate phrases)
+ */
+function bounds(text: string): AgeRange | null {
+  const from = text.match(FROM_REGEX) || text.match(PLUS_REGEX);
+  const to = text.match(TO_REGEX);
+  if (!from && !to) return null;
+
+  return range(
+    from ? toYears(from[1], from[2]) : undefined,
+    to ? toYears(to[1], to[2]) : undefined,
+    BOUND_CONFIDENCE
+  );
+}
+
+/**
+ * Union of ranges (lowest minimum, highest maximum)
+ */
+function union(ranges: [number, number][], confidence: number): AgeRange | null {
+  if (ranges.length === 0) return null;
+  return range(
+    Math.min(...ranges.map(([min]) => min)),
+    Math.max(...ranges.map(([, max]) => max)),
+    confidence
+  );
+}
+
+/**
+ * School stages and grades; a child in grade N is N + 5 to N + 6 years old
+ */
+function grades(text: string): AgeRange | null {
+  const ranges: [number, number][] = [];
+
+  for (const match of text.matchAll(SCHOOL_STAGE_REGEX)) {
+    ranges.push(SCHOOL_STAGES[match[1]]);
+  }
+  for (const match of text.matchAll(GRADE_RANGE_REGEX)) {
+    ranges.push([parseInt(match[1], 10) + 5, parseInt(match[2], 10) + 6]);
+  }
+  for (const match of text.matchAll(GRADE_REGEX)) {
+    ranges.push([parseInt(match[1], 10) + 5, parseInt(match[1], 10) + 6]);
+  }
+
+  return union(ranges, GRADE_CONFIDENCE);
+}
+
+/**
+ * Audience words ("batolata a předškoláci" is 1-6)
+ */
+function audiences(text: string): AgeRange | null {
+  const ranges = AUDIENCES.filter(([pattern]) => pattern.test(text)).map(
+    ([, min, max]): [number, number] => [min, max]
+  );
+  return union(ranges, AUDIENCE_CONFIDENCE);
+}
+
+/**
+ * Extract the age range an event is for
+ * Explicit ranges win over single bounds, which win over grades and audience words
+ * @example extractAgeRange('Pro děti od 18 měsíců do 3 let') // { ageMin: 1.5, ageMax: 3, confidence: 1 }
+ * @param text Text containing age information
+ * @returns Ages in decimal years; confidence 0 and no ages when none were found
+ */
+export function extractAgeRange(text: string): AgeRange {
+  if (!text) return { confidence: 0 };
+
+  return explicitRange(text) || bounds(text) || grades(text) || audiences(text) || { confidence: 0 };
+}
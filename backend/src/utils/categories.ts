@@ -0,0 +1,193 @@
+/**
+ * Event category taxonomy and keyword classification
+ * One list of categories shared by scrapers, scoring, placeholder images and the
+ * API. Text is classified by weighted keyword rules: every category scoring at
+ * least MIN_TAG_SCORE becomes a tag (e.g. theater + puppets + indoor) and the
+ * best scoring one the main category.
+ */
+
+import { EventCategory } from '../types';
+
+/**
+ * A category with its labels
+ * - setting: where the event happens (indoor, outdoor); main category only when
+ *   no activity category matched
+ * - usualSetting: where events of the category usually are, when the text does not say
+ * - imageSeed: Lorem Picsum seed of the placeholder image
+ */
+export interface CategoryDefinition {
+  id: EventCategory;
+  cs: string;
+  en: string;
+  imageSeed: number;
+  setting?: boolean;
+  usualSetting?: 'indoor' | 'outdoor';
+}
+
+/**
+ * Keyword rule of a category
+ * Keywords are regular expressions matched at the start of a word, case-insensitive,
+ * each counted once; negative weights cancel keywords that match the wrong thing
+ * ("parkoviště" is no park).
+ */
+export interface CategoryRule {
+  category: EventCategory;
+  keywords: [string, number][];
+}
+
+/**
+ * Main category and tags of a text
+ */
+export interface CategoryMatch {
+  category: EventCategory;
+  tags: EventCategory[];
+}
+
+// Score a category needs to become a tag
+export const MIN_TAG_SCORE = 2;
+
+// In order of preference when scores tie
+export const CATEGORIES: CategoryDefinition[] = [
+  { id: EventCategory.THEATER, cs: 'Divadlo', en: 'Theater', imageSeed: 102, usualSetting: 'indoor' },
+  { id: EventCategory.PUPPETS, cs: 'Loutky', en: 'Puppets', imageSeed: 120, usualSetting: 'indoor' },
+  { id: EventCategory.CINEMA, cs: 'Kino', en: 'Cinema', imageSeed: 109, usualSetting: 'indoor' },
+  { id: EventCategory.CONCERT, cs: 'Koncert', en: 'Concert', imageSeed: 106 },
+  { id: EventCategory.WORKSHOP, cs: 'Dílna', en: 'Workshop', imageSeed: 103 },
+  { id: EventCategory.MUSEUM, cs: 'Muzeum', en: 'Museum', imageSeed: 101, usualSetting: 'indoor' },
+  { id: EventCategory.EXHIBITION, cs: 'Výstava', en: 'Exhibition', imageSeed: 107, usualSetting: 'indoor' },
+  { id: EventCategory.SCIENCE, cs: 'Věda a technika', en: 'Science', imageSeed: 118, usualSetting: 'indoor' },
+  { id: EventCategory.EDUCATIONAL, cs: 'Vzdělávání', en: 'Educational', imageSeed: 113 },
+  { id: EventCategory.READING, cs: 'Čtení', en: 'Reading', imageSeed: 119, usualSetting: 'indoor' },
+  { id: EventCategory.ZOO, cs: 'Zoo a zvířata', en: 'Zoo & animals', imageSeed: 111, usualSetting: 'outdoor' },
+  { id: EventCategory.AQUAPARK, cs: 'Koupání', en: 'Swimming', imageSeed: 121 },
+  { id: EventCategory.PLAYGROUND, cs: 'Hřiště a herny', en: 'Playground', imageSeed: 112, usualSetting: 'outdoor' },
+  { id: EventCategory.SPORT, cs: 'Sport', en: 'Sport', imageSeed: 104 },
+  { id: EventCategory.FESTIVAL, cs: 'Festival', en: 'Festival', imageSeed: 108, usualSetting: 'outdoor' },
+  { id: EventCategory.OUTDOOR, cs: 'Venku', en: 'Outdoor', imageSeed: 105, setting: true },
+  { id: EventCategory.INDOOR, cs: 'Uvnitř', en: 'Indoor', imageSeed: 122, setting: true },
+  { id: EventCategory.OTHER, cs: 'Ostatní', en: 'Other', imageSeed: 100 },
+];
+
+export const CATEGORY_RULES: CategoryRule[] = [
+  {
+    category: EventCategory.THEATER,
+    keywords: [['divadl', 3], ['theat', 3], ['představení', 2], ['činohr', 3], ['muzikál', 2], ['pohád', 1]],
+  },
+  {
+    category: EventCategory.PUPPETS,
+    keywords: [['loutk', 3], ['marionet', 3], ['puppet', 3], ['maňás', 3]],
+  },
+  {
+    category: EventCategory.CINEMA,
+    keywords: [['kino', 3], ['cinema', 3], ['film', 2], ['promítání', 3]],
+  },
+  {
+    category: EventCategory.CONCERT,
+    keywords: [['koncert', 3], ['concert', 3], ['hudb', 2], ['hudeb', 2], ['písn', 1], ['zpív', 1]],
+  },
+  {
+    category: EventCategory.WORKSHOP,
+    keywords: [['workshop', 3], ['díln', 3], ['tvoř', 2], ['výtvarn', 2], ['kreativ', 1]],
+  },
+  {
+    category: EventCategory.MUSEUM,
+    keywords: [['muze', 3], ['museum', 3], ['galeri', 2]],
+  },
+  {
+    category: EventCategory.EXHIBITION,
+    keywords: [['výstav', 3], ['exhibit', 3], ['expozic', 2], ['výstaviště', -3]],
+  },
+  {
+    category: EventCategory.SCIENCE,
+    keywords: [
+      ['věd[aye]', 3], ['vědeck', 3], ['science', 3], ['techni', 2], ['experiment', 2],
+      ['planetári', 3], ['hvězdárn', 3], ['robot', 2],
+    ],
+  },
+  {
+    category: EventCategory.EDUCATIONAL,
+    keywords: [['vzdělá', 2], ['educat', 3], ['kurz', 2], ['přednášk', 2], ['lekc', 1]],
+  },
+  {
+    category: EventCategory.READING,
+    keywords: [['čten', 2], ['předčítá', 3], ['knih', 2], ['knihovn', 1], ['reading', 3]],
+  },
+  {
+    category: EventCategory.ZOO,
+    keywords: [['zoo', 3], ['zvíř', 2], ['farm[aěuy]', 2], ['statek', 2], ['mazlíč', 2], ['pon[ií]', 1]],
+  },
+  {
+    category: EventCategory.AQUAPARK,
+    keywords: [['aquapark', 3], ['akvapark', 3], ['bazén', 3], ['koupališt', 3], ['plavání', 2], ['plaveck', 2]],
+  },
+  {
+    category: EventCategory.PLAYGROUND,
+    keywords: [['hřišt', 3], ['playground', 3], ['hern[aěy](?!\\p{L})', 3], ['trampolín', 2], ['prolézač', 2]],
+  },
+  {
+    category: EventCategory.SPORT,
+    keywords: [
+      ['sport', 3], ['běh(?!em)', 2], ['fotbal', 3], ['florbal', 3], ['hokej', 3], ['brusl', 2],
+      ['lyž', 2], ['cykl', 2], ['závod', 2], ['turnaj', 2],
+    ],
+  },
+  {
+    category: EventCategory.FESTIVAL,
+    keywords: [['festival', 3], ['slavnost', 2], ['jarmark', 2], ['pouť', 2], ['masopust', 3]],
+  },
+  {
+    category: EventCategory.OUTDOOR,
+    keywords: [
+      ['venku', 2], ['outdoor', 3], ['park', 2], ['přírod', 2], ['zahrad', 1], ['výlet', 2], ['procházk', 2],
+      ['drakiád', 3], ['pod širým nebem', 3], ['parkovišt', -2], ['parkován', -2],
+    ],
+  },
+  {
+    category: EventCategory.INDOOR,
+    keywords: [['uvnitř', 2], ['indoor', 3], ['v sále', 2], ['krytý', 2], ['kryté', 2], ['hern[aěy](?!\\p{L})', 2]],
+  },
+];
+
+const CATEGORY_ORDER = CATEGORIES.map((definition) => definition.id);
+
+const COMPILED_RULES = CATEGORY_RULES.map((rule) => ({
+  category: rule.category,
+  keywords: rule.keywords.map(([pattern, weight]) => [new RegExp(`(?<!\\p{L})${pattern}`, 'iu'), weight] as const),
+}));
+
+/**
+ * Taxonomy entry of a category, or undefined for unknown categories
+ */
+export function categoryDefinition(category?: string | null): CategoryDefinition | undefined {
+  return CATEGORIES.find((definition) => definition.id === category);
+}
+
+/**
+ * Keyword score of every category matching a text (above zero)
+ */
+export function scoreCategories(text: string): Map<EventCategory, number> {
+  const scores = new Map<EventCategory, number>();
+  if (!text) return scores;
+
+  for (const rule of COMPILED_RULES) {
+    const score = rule.keywords.reduce((sum, [pattern, weight]) => (pattern.test(text) ? sum + weight : sum), 0);
+    if (score > 0) scores.set(rule.category, score);
+  }
+  return scores;
+}
+
+/**
+ * Classify a text into a main category and tags
+ * @example classifyCategories('Loutkové divadlo v sále') // { category: 'theater', tags: ['theater', 'puppets', 'indoor'] }
+ * @param text Title and description
+ * @returns Tags by descending score (ties in taxonomy order); 'other' without tags when nothing matched
+ */
+export function classifyCategories(text: string): CategoryMatch {
+  const tags = [...scoreCategories(text)]
+    .filter(([, score]) => score >= MIN_TAG_SCORE)
+    .sort(([a, scoreA], [b, scoreB]) => scoreB - scoreA || CATEGORY_ORDER.indexOf(a) - CATEGORY_ORDER.indexOf(b))
+    .map(([category]) => category);
+
+  const activity = tags.find((tag) => !categoryDefinition(tag)?.setting);
+  return { category: activity || tags[0] || EventCategory.OTHER, tags };
+}
@@ -2,31 +2,13 @@
  * Czech date format parser utilities
  */
 
-import { parse, isValid } from 'date-fns';
-
-/**
- * Common Czech date formats
- */
-const CZECH_DATE_FORMATS = [
-  'd.M.yyyy',
-  'dd.MM.yyyy',
-  'd. M. yyyy',
-  'dd. MM. yyyy',
-  'd.M.yyyy HH:mm',
-  'dd.MM.yyyy HH:mm',
-  'd. M. yyyy HH:mm',
-  'dd. MM. yyyy HH:mm',
-  'd.M.yyyy H:mm',
-  'dd.MM.yyyy H:mm',
-  'yyyy-MM-dd',
-  'yyyy-MM-dd HH:mm:ss',
-  'yyyy-MM-dd\'T\'HH:mm:ss',
-];
+import { RecurrenceRule } from '../types';
+import { pragueTime, pragueWallClock } from './timezone';
 
 /**
  * Czech month names mapping
  */
-const CZECH_MONTHS: { [key: string]: number } = {
+export const CZECH_MONTHS: { [key: string]: number } = {
   'ledna': 1, 'leden': 1,
   'února': 2, 'únor': 2,
   'března': 3, 'březen': 3,
@@ -42,94 +24,368 @@ const CZECH_MONTHS: { [key: string]: number } = {
 };
 
 /**
- * Parse Czech date string to Date object
- * @param dateStr Date string to parse
- * @returns Date object or null if parsing fails
+ * Czech weekday names (nominative, accusative, plural and locative) to day numbers (0 = Sunday)
  */
-export function parseCzechDate(dateStr: string): Date | null {
-  if (!dateStr) return null;
+const CZECH_WEEKDAYS: { [key: string]: number } = {
+  'pondělí': 1, 'pondělky': 1, 'pondělích': 1,
+  'úterý': 2, 'úterky': 2, 'úterých': 2,
+  'středa': 3, 'středu': 3, 'středy': 3, 'středách': 3,
+  'čtvrtek': 4, 'čtvrtky': 4, 'čtvrtcích': 4,
+  'pátek': 5, 'pátky': 5, 'pátcích': 5,
+  'sobota': 6, 'sobotu': 6, 'soboty': 6, 'sobotách': 6,
+  'neděle': 0, 'neděli': 0, 'nedělích': 0,
+};
 
-  // Clean up the string - handle date ranges by taking first date
-  let cleaned = dateStr.trim();
+// Longest names first so "pondělích" is not read as "pondělí"
+const WEEKDAY_PATTERN = Object.keys(CZECH_WEEKDAYS)
+  .sort((a, b) => b.length - a.length)
+  .join('|');
 
-  // Handle date ranges like "27. 10.–29. 10." - take first date
-  if (cleaned.includes('–') || cleaned.includes('-')) {
-    cleaned = cleaned.split(/[–-]/)[0].trim();
-  }
+// "každou sobotu", "každé úterý a čtvrtek", "o sobotách a nedělích"
+const RECURRENCE_REGEX = new RegExp(
+  `(?<!\\p{L})(?:každ[ýáéouí]+|o)\\s+((?:${WEEKDAY_PATTERN})(?:\\s*(?:,|a|i)\\s*(?:${WEEKDAY_PATTERN}))*)(?!\\p{L})`,
+  'iu'
+);
+const DAILY_REGEX = /(^|[^\p{L}])(denně|každý den|každodenně)(?!\p{L})/iu;
+const UNTIL_REGEX = /(?:^|[^\p{L}])do\s+(\d{1,2}\.\s*\d{1,2}\.(?:\s*\d{4})?)/iu;
+
+// Month names, longest first so "listopadu" is not read as "listopad"
+const MONTH_PATTERN = Object.keys(CZECH_MONTHS)
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+
+// Dates in a text, tried in order at each position:
+// 1-5: ISO "2025-10-27" (with optional time), 6-8: "27. 10. 2025" / "27.10.",
+// 9-11: "27. října 2025" / "27. října", 12: a bare day before a range separator ("27.–29. 10.")
+const DATE_TOKEN_REGEX = new RegExp(
+  [
+    '(?<!\\d)(\\d{4})-(\\d{2})-(\\d{2})(?:[T ](\\d{2}):(\\d{2})(?::\\d{2})?)?',
+    '(?<![\\d.])(\\d{1,2})\\.\\s*(\\d{1,2})\\.(?:\\s*(\\d{4})(?!\\d))?',
+    `(?<![\\d.])(\\d{1,2})\\.\\s*(${MONTH_PATTERN})(?!\\p{L})(?:\\s+(\\d{4})(?!\\d))?`,
+    '(?<![\\d.])(\\d{1,2})\\.(?=\\s*(?:[-–—]|do(?!\\p{L})|až(?!\\p{L})))',
+  ].join('|'),
+  'giu'
+);
+
+// What may stand between the two dates of a range ("27. 10. – 29. 10.", "od 1. do 15. 11.");
+// a time of the first day may precede the separator
+const RANGE_BETWEEN_REGEX = /^(?:\d{1,2}[:.]\d{2})?\s*(?:[-–—]|do|až)$/iu;
+
+// "10:00", "9.30" - not part of a date ("18.10.")
+const TIME_REGEX = /(?<![\d.:])(\d{1,2})[:.](\d{2})(?![\d:]|\.\d)/gu;
+const TIME_RANGE_BETWEEN_REGEX = /^\s*(?:[-–—]|do|až)\s*$/iu;
+
+// Time used when a text has a date but no time; flagged with allDay
+const DEFAULT_TIME = { hours: 10, minutes: 0 };
+
+// A date without year is in the next year once it is this many months in the past
+const PAST_MONTHS_KEPT = 2;
+
+const RELATIVE_DAYS: { [key: string]: number } = {
+  'dnes': 0, 'dneska': 0,
+  'zítra': 1, 'zejtra': 1,
+  'pozítří': 2,
+};
+const RELATIVE_DAY_REGEX = new RegExp(`(?<!\\p{L})(${Object.keys(RELATIVE_DAYS).join('|')})(?!\\p{L})`, 'iu');
+
+// "v sobotu", "tuto neděli"
+const WEEKDAY_REGEX = new RegExp(
+  `(?<!\\p{L})(?:v|ve|tuto|tento|toto)\\s+(${WEEKDAY_PATTERN})(?!\\p{L})`,
+  'iu'
+);
+const WEEKEND_REGEX = /(?<!\p{L})(?:o\s+(?:tomto\s+|tom(?:hle)?\s+)?víkendu|(?:tento|tenhle)\s+víkend)(?!\p{L})/iu;
+const WEEKEND_RECURRENCE_REGEX = /(?<!\p{L})(?:o\s+víkendech|každý\s+víkend)(?!\p{L})/iu;
+
+// "2025-10-27T14:00:00Z", "2025-10-27T14:00:00+01:00" - an exact instant
+const ISO_INSTANT_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/;
+
+/**
+ * Result of parsing a date text
+ * - start, end: instants (Prague local time converted to UTC)
+ * - allDay: the text names days but no time; start (and end) are at DEFAULT_TIME
+ * - recurrence: weekly or daily schedule the text describes
+ * - confidence: 1 for explicit dates with year, lower for inferred years,
+ *   relative days ("zítra"), weekdays and schedules without a date
+ */
+export interface ParsedDate {
+  start: Date;
+  end?: Date;
+  allDay: boolean;
+  recurrence?: RecurrenceRule;
+  confidence: number;
+}
+
+export interface DateParseOptions {
+  /** Reference time for relative dates and years (default: now) */
+  now?: Date;
+}
+
+/**
+ * Calendar day in Prague (month 1-12)
+ */
+interface Day {
+  year: number;
+  month: number;
+  day: number;
+}
 
-  // Try standard formats first
-  for (const format of CZECH_DATE_FORMATS) {
-    try {
-      const date = parse(cleaned, format, new Date());
-      if (isValid(date)) {
-        return date;
-      }
-    } catch (error) {
-      // Continue to next format
+type TimeOfDay = { hours: number; minutes: number };
+
+/**
+ * Date found in a text; year and month are missing when the text omits them
+ */
+interface DateToken {
+  day: number;
+  month?: number;
+  year?: number;
+  time?: TimeOfDay;
+  index: number;
+  end: number;
+}
+
+/**
+ * Day a number of days after another
+ */
+function shiftDay(day: Day, days: number): Day {
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function weekdayOf(day: Day): number {
+  return new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+}
+
+function dayNumber(day: Day): number {
+  return Date.UTC(day.year, day.month - 1, day.day);
+}
+
+/**
+ * Whether day and month exist (no 31. 2.)
+ */
+function isValidDay(day: Day): boolean {
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day));
+  return date.getUTCMonth() === day.month - 1 && date.getUTCDate() === day.day;
+}
+
+/**
+ * Year of a date given without one: this year, or next year when the date is
+ * more than PAST_MONTHS_KEPT months in the past (recent dates stay in this year)
+ */
+function inferYear(month: number, day: number, today: Day): number {
+  const limit = Date.UTC(today.year, today.month - 1 - PAST_MONTHS_KEPT, today.day);
+  return Date.UTC(today.year, month - 1, day) < limit ? today.year + 1 : today.year;
+}
+
+/**
+ * Dates mentioned in a text, in order
+ */
+function findDateTokens(text: string): DateToken[] {
+  const tokens: DateToken[] = [];
+
+  for (const match of text.matchAll(DATE_TOKEN_REGEX)) {
+    const index = match.index!;
+    const end = index + match[0].length;
+    const num = (value?: string) => (value ? parseInt(value, 10) : undefined);
+
+    if (match[1]) {
+      const time = match[4] ? { hours: num(match[4])!, minutes: num(match[5])! } : undefined;
+      tokens.push({ year: num(match[1]), month: num(match[2]), day: num(match[3])!, time, index, end });
+    } else if (match[6]) {
+      tokens.push({ day: num(match[6])!, month: num(match[7]), year: num(match[8]), index, end });
+    } else if (match[9]) {
+      tokens.push({ day: num(match[9])!, month: CZECH_MONTHS[match[10].toLowerCase()], year: num(match[11]), index, end });
+    } else {
+      tokens.push({ day: num(match[12])!, index, end });
     }
   }
 
-  // Try parsing date without year (e.g., "30. 10." from kudyznudy.cz)
-  const shortDateMatch = cleaned.match(/^(\d{1,2})\.\s*(\d{1,2})\.?$/);
-  if (shortDateMatch) {
-    const day = parseInt(shortDateMatch[1], 10);
-    const month = parseInt(shortDateMatch[2], 10);
+  return tokens.filter((token) => token.month === undefined || (token.month >= 1 && token.month <= 12));
+}
 
-    if (day >= 1 && day <= 31 && month >= 1 && month <= 12) {
-      const now = new Date();
-      const currentYear = now.getFullYear();
+/**
+ * Times of day in a text outside its dates, with the end of a time range ("10:00–12:00")
+ */
+function findTimes(text: string, tokens: DateToken[]): { start?: TimeOfDay; end?: TimeOfDay } {
+  // Blank out dates so "18.10." is not read as a time
+  let rest = text;
+  for (const token of tokens) {
+    rest = rest.slice(0, token.index) + ' '.repeat(token.end - token.index) + rest.slice(token.end);
+  }
 
-      // Try current year first - set to 10 AM Prague time as default time for family events
-      // Use UTC to avoid timezone issues (Prague is UTC+1/UTC+2)
-      let date = new Date(Date.UTC(currentYear, month - 1, day, 9, 0, 0, 0)); // 9 AM UTC = 10 AM Prague (winter)
+  const times = [...rest.matchAll(TIME_REGEX)]
+    .map((match) => ({ hours: parseInt(match[1], 10), minutes: parseInt(match[2], 10), index: match.index!, end: match.index! + match[0].length }))
+    .filter((time) => time.hours < 24 && time.minutes < 60);
+  if (times.length === 0) return {};
 
-      // Only bump to next year if date is more than 2 months in the past
-      // This prevents recent past dates (like yesterday) from jumping to next year
-      const twoMonthsAgo = new Date();
-      twoMonthsAgo.setMonth(twoMonthsAgo.getMonth() - 2);
+  const [first, second] = times;
+  const start = { hours: first.hours, minutes: first.minutes };
+  if (second && TIME_RANGE_BETWEEN_REGEX.test(rest.slice(first.end, second.index))) {
+    return { start, end: { hours: second.hours, minutes: second.minutes } };
+  }
+  // A range across days: time of the first day before the separator, of the last day after the second date
+  if (second && tokens.length > 1 && first.index < tokens[1].index && second.index > tokens[1].end) {
+    return { start, end: { hours: second.hours, minutes: second.minutes } };
+  }
+  return { start };
+}
 
-      if (date < twoMonthsAgo) {
-        date = new Date(Date.UTC(currentYear + 1, month - 1, day, 9, 0, 0, 0));
-      }
+/**
+ * Complete a date token; a range start takes month and year from the range end
+ * @returns Day and whether the year had to be inferred
+ */
+function resolveDay(token: DateToken, today: Day, rangeEnd?: Day): { day: Day; inferredYear: boolean } | null {
+  let month = token.month;
+  let year = token.year;
 
-      if (isValid(date)) {
-        return date;
-      }
-    }
+  if (rangeEnd) {
+    month = month ?? rangeEnd.month;
+    // "1. 11. – 31. 1. 2026" and "20. 12.–6. 1." start the year before
+    year = year ?? (month > rangeEnd.month ? rangeEnd.year - 1 : rangeEnd.year);
   }
+  if (month === undefined) return null;
 
-  // Try parsing Czech month names (e.g., "15. ledna 2024")
-  const czechMonthMatch = cleaned.match(/(\d{1,2})\.\s*([a-záčďéěíňóřšťúůýž]+)\s*(\d{4})/i);
-  if (czechMonthMatch) {
-    const day = parseInt(czechMonthMatch[1], 10);
-    const monthName = czechMonthMatch[2].toLowerCase();
-    const year = parseInt(czechMonthMatch[3], 10);
-    const month = CZECH_MONTHS[monthName];
-
-    if (month && day >= 1 && day <= 31) {
-      // Set to 10 AM Prague time as default time for family events
-      // Use UTC to avoid timezone issues (Prague is UTC+1/UTC+2)
-      const date = new Date(Date.UTC(year, month - 1, day, 9, 0, 0, 0)); // 9 AM UTC = 10 AM Prague (winter)
-      if (isValid(date)) {
-        return date;
-      }
-    }
+  const inferredYear = year === undefined;
+  const day = { year: year ?? inferYear(month, token.day, today), month, day: token.day };
+  return isValidDay(day) ? { day, inferredYear } : null;
+}
+
+/**
+ * Next day (today included) falling on a weekday
+ */
+function nextWeekday(today: Day, weekday: number): Day {
+  return shiftDay(today, (weekday - weekdayOf(today) + 7) % 7);
+}
+
+/**
+ * Days a text names without a date: "dnes", "zítra", "v sobotu", "o víkendu"
+ */
+function relativeDays(text: string, today: Day): { start: Day; end?: Day; confidence: number } | null {
+  const relative = text.match(RELATIVE_DAY_REGEX);
+  if (relative) {
+    return { start: shiftDay(today, RELATIVE_DAYS[relative[1].toLowerCase()]), confidence: 0.8 };
   }
 
-  // Try parsing relative dates
-  if (cleaned.toLowerCase().includes('dnes')) {
-    return new Date();
+  if (WEEKEND_REGEX.test(text)) {
+    // On Sunday "o víkendu" is what is left of it
+    const start = weekdayOf(today) === 0 ? today : nextWeekday(today, 6);
+    return { start, end: nextWeekday(today, 0), confidence: 0.7 };
   }
 
-  if (cleaned.toLowerCase().includes('zítra')) {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    return tomorrow;
+  const weekday = text.match(WEEKDAY_REGEX);
+  if (weekday) {
+    return { start: nextWeekday(today, CZECH_WEEKDAYS[weekday[1].toLowerCase()]), confidence: 0.7 };
   }
 
   return null;
 }
 
+/**
+ * Parse a Czech date text
+ * Understands single dates ("18. 10. 2025", "18. října", "2025-10-18"), ranges
+ * ("27. 10.–29. 10.", "27.–29. 10. 2025", "od 1. do 15. listopadu"), times and
+ * time ranges ("10:00–12:00"), relative days ("dnes", "zítra", "v sobotu",
+ * "o víkendu") and schedules ("každou sobotu v 10:00"). Dates are Prague local
+ * time whatever the server timezone; dates without year are in the coming months.
+ * @example parseCzechDateText('od 1. do 15. listopadu 10:00–12:00')
+ * // { start: 1. 11. 10:00, end: 15. 11. 12:00, allDay: false, confidence: 0.9 }
+ * @param text Date text, e.g. the date and time fields of a listing
+ * @param options Reference time for relative dates
+ * @returns Parsed date, or null when the text names no date
+ */
+export function parseCzechDateText(text: string, options: DateParseOptions = {}): ParsedDate | null {
+  if (!text) return null;
+
+  const cleaned = text.replace(/\s+/g, ' ').trim();
+  if (ISO_INSTANT_REGEX.test(cleaned)) {
+    const instant = new Date(cleaned);
+    return isNaN(instant.getTime()) ? null : { start: instant, allDay: false, confidence: 1 };
+  }
+
+  const today = pragueWallClock(options.now ?? new Date());
+  const recurrence = parseRecurrence(cleaned, options) ?? undefined;
+  const tokens = findDateTokens(cleaned);
+  const times = findTimes(cleaned, tokens);
+
+  let startDay: Day;
+  let endDay: Day | undefined;
+  let confidence: number;
+
+  const ranged =
+    tokens.length > 1 && RANGE_BETWEEN_REGEX.test(cleaned.slice(tokens[0].end, tokens[1].index).trim());
+  // "každou sobotu do 31. 12." - the date ends the schedule, it is not a start
+  const untilOnly =
+    tokens.length === 1 && /(?:^|[^\p{L}])do\s*$/iu.test(cleaned.slice(0, tokens[0].index));
+
+  if (ranged) {
+    const last = resolveDay(tokens[1], today);
+    const first = last && resolveDay(tokens[0], today, last.day);
+    if (!last || !first) return null;
+
+    startDay = first.day;
+    endDay = last.day;
+    confidence = last.inferredYear ? 0.9 : 1;
+  } else if (tokens.length > 0 && tokens[0].month !== undefined && !untilOnly) {
+    const first = resolveDay(tokens[0], today);
+    if (!first) return null;
+    startDay = first.day;
+    confidence = first.inferredYear ? 0.9 : 1;
+  } else {
+    const relative = relativeDays(cleaned, today);
+    if (relative) {
+      startDay = relative.start;
+      endDay = relative.end;
+      confidence = relative.confidence;
+    } else if (recurrence) {
+      // First day of the schedule from today
+      startDay = recurrence.weekdays.length > 0
+        ? recurrence.weekdays.map((weekday) => nextWeekday(today, weekday)).sort((a, b) => dayNumber(a) - dayNumber(b))[0]
+        : today;
+      confidence = 0.6;
+    } else {
+      return null;
+    }
+  }
+
+  const startTime = tokens[0]?.time ?? times.start ?? recurrence?.time;
+  const allDay = !startTime;
+  const time = startTime ?? DEFAULT_TIME;
+  const start = pragueTime(startDay.year, startDay.month, startDay.day, time.hours, time.minutes);
+
+  let end: Date | undefined;
+  if (endDay || times.end) {
+    const endTime = times.end ?? time;
+    const last = endDay ?? startDay;
+    end = pragueTime(last.year, last.month, last.day, endTime.hours, endTime.minutes);
+  }
+
+  const result: ParsedDate = { start, allDay, confidence };
+  if (end && end > start) result.end = end;
+  if (recurrence) result.recurrence = recurrence;
+  return result;
+}
+
+/**
+ * Parse Czech date string to Date object
+ * Ranges like "27. 10.–29. 10." yield their first date (see parseCzechDateText)
+ * @param dateStr Date string to parse
+ * @returns Date object or null if parsing fails
+ */
+export function parseCzechDate(dateStr: string): Date | null {
+  return parseCzechDateText(dateStr)?.start ?? null;
+}
+
+/**
+ * Parse a Czech date or date range
+ * Handles "27. 10.–29. 10.", "27.–29. 10. 2025" and "1. 10. – 31. 12. 2025";
+ * the start inherits month and year the range only states once.
+ * @param dateStr Date string to parse
+ * @returns Start and (for ranges, including time ranges) end, or null if parsing fails
+ */
+export function parseCzechDateRange(dateStr: string): { start: Date; end?: Date } | null {
+  const parsed = parseCzechDateText(dateStr);
+  return parsed ? { start: parsed.start, end: parsed.end } : null;
+}
+
 /**
  * Parse Czech time string to hours and minutes
  * @param timeStr Time string (e.g., "14:30", "14.30", "14:00 - 16:00")
@@ -162,17 +418,57 @@ export function parseCzechTime(timeStr: string): { hours: number; minutes: numbe
  * @returns Date object or null if parsing fails
  */
 export function combineDateAndTime(dateStr: string, timeStr?: string): Date | null {
-  const date = parseCzechDate(dateStr);
-  if (!date) return null;
+  return parseCzechDate(timeStr ? `${dateStr} ${timeStr}` : dateStr);
+}
 
-  if (timeStr) {
-    const time = parseCzechTime(timeStr);
-    if (time) {
-      date.setHours(time.hours, time.minutes, 0, 0);
-    }
+/**
+ * Parse a weekly or daily schedule from Czech text
+ * e.g. "každou sobotu v 10:00 do 31. 12.", "o sobotách a nedělích od 9.30",
+ * "o víkendech", "denně do 6. 1."
+ * @param text Text potentially describing a schedule
+ * @param options Reference time for an end date without year
+ * @returns Recurrence rule (until is the start of the last day), or null when the text describes none
+ */
+export function parseRecurrence(text: string, options: DateParseOptions = {}): RecurrenceRule | null {
+  if (!text) return null;
+
+  let weekdays: number[];
+  let rest: string;
+
+  const weekly = text.match(RECURRENCE_REGEX);
+  const weekends = text.match(WEEKEND_RECURRENCE_REGEX);
+  const daily = text.match(DAILY_REGEX);
+  if (weekly) {
+    const names = weekly[1].toLowerCase().match(new RegExp(WEEKDAY_PATTERN, 'g')) || [];
+    weekdays = [...new Set(names.map((name) => CZECH_WEEKDAYS[name]))].sort((a, b) => a - b);
+    rest = text.slice(weekly.index! + weekly[0].length);
+  } else if (weekends) {
+    weekdays = [0, 6];
+    rest = text.slice(weekends.index! + weekends[0].length);
+  } else if (daily) {
+    weekdays = [];
+    rest = text.slice(daily.index! + daily[0].length);
+  } else {
+    return null;
   }
 
-  return date;
+  const until = text.match(UNTIL_REGEX);
+  const untilDate = until ? parseCzechDateText(until[1], options)?.start : undefined;
+  // "denně" alone is usually about opening hours, not the event
+  if (!weekly && !weekends && !untilDate) return null;
+
+  const rule: RecurrenceRule = { weekdays };
+  if (untilDate) {
+    const last = pragueWallClock(untilDate);
+    rule.until = pragueTime(last.year, last.month, last.day);
+  }
+
+  // Time right after the days: "v 10:00", "od 9.30"
+  const timeMatch = rest.match(/^\s*,?\s*(?:v|ve|od)\s+(\d{1,2}[:.]\d{2})/i);
+  const time = timeMatch ? parseCzechTime(timeMatch[1]) : null;
+  if (time) rule.time = time;
+
+  return rule;
 }
 
 /**
@@ -0,0 +1,200 @@
+/**
+ * Fetch layer shared by scrapers and external APIs
+ * Backends (plain HTTP, Firecrawl, headless browser) implement Fetcher; every
+ * request goes through fetchPage, which adds the on-disk response cache:
+ * - off: always fetch (default)
+ * - cache: reuse responses younger than FETCH_CACHE_TTL_HOURS, store new ones
+ * - record: always fetch and store the response
+ * - replay: serve stored responses only, never touch the network
+ */
+
+import axios from 'axios';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { acquireHostToken } from './rateLimiter';
+
+export type FetcherName = 'http' | 'firecrawl' | 'puppeteer';
+
+export type FetchCacheMode = 'off' | 'cache' | 'record' | 'replay';
+
+/**
+ * A page or API request
+ * waitFor, waitForSelector and scroll only apply to rendering backends
+ */
+export interface FetchRequest {
+  url: string;
+  params?: Record<string, string | number>;
+  headers?: Record<string, string>;
+  timeout?: number;
+  waitFor?: number;
+  waitForSelector?: string;
+  scroll?: number;
+}
+
+/**
+ * A request missing from the response cache in replay mode
+ * Retrying can't help, so it is reported apart from network errors
+ */
+export class ReplayMissError extends Error {
+  constructor(url: string, fetcher: FetcherName) {
+    super(`Not in replay cache (${fetcher}): ${url}`);
+    this.name = 'ReplayMissError';
+  }
+}
+
+export interface FetchResponse {
+  url: string;
+  status: number;
+  body: string;
+  fetchedAt: Date;
+  fromCache: boolean;
+}
+
+/**
+ * A fetch backend
+ * fetch resolves to the response body, null when the backend is unavailable or
+ * returned nothing usable, and throws on network errors
+ */
+export interface Fetcher {
+  name: FetcherName;
+  fetch: (request: FetchRequest) => Promise<{ status: number; body: string } | null>;
+}
+
+interface CacheEntry {
+  url: string;
+  fetcher: FetcherName;
+  status: number;
+  fetchedAt: string;
+  body: string;
+}
+
+const CACHE_MODES: FetchCacheMode[] = ['off', 'cache', 'record', 'replay'];
+
+export const DEFAULT_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
+  'Accept-Language': 'cs,en;q=0.9',
+};
+
+let cacheMode: FetchCacheMode = CACHE_MODES.includes(process.env.FETCH_CACHE_MODE as FetchCacheMode)
+  ? (process.env.FETCH_CACHE_MODE as FetchCacheMode)
+  : 'off';
+let cacheDir = process.env.FETCH_CACHE_DIR || path.join(__dirname, '../../.fetch-cache');
+const cacheTtlMs = parseFloat(process.env.FETCH_CACHE_TTL_HOURS || '24') * 60 * 60 * 1000;
+
+/**
+ * Current cache mode
+ */
+export function getFetchCacheMode(): FetchCacheMode {
+  return cacheMode;
+}
+
+/**
+ * Switch the cache mode (and optionally the cache directory)
+ */
+export function setFetchCacheMode(mode: FetchCacheMode, dir?: string): void {
+  cacheMode = mode;
+  if (dir) cacheDir = dir;
+}
+
+/**
+ * Full URL including query params, in a stable order
+ */
+function requestUrl(request: FetchRequest): string {
+  const url = new URL(request.url);
+  for (const key of Object.keys(request.params || {}).sort()) {
+    url.searchParams.set(key, String(request.params![key]));
+  }
+  return url.toString();
+}
+
+/**
+ * Cache file for a request - one directory per backend and host, since a
+ * rendered page differs from the raw HTML of the same URL
+ */
+function cachePath(fetcher: FetcherName, request: FetchRequest): string {
+  const url = requestUrl(request);
+  const hash = crypto.createHash('sha1').update(url).digest('hex');
+  return path.join(cacheDir, fetcher, new URL(url).host, `${hash}.json`);
+}
+
+function readCache(fetcher: FetcherName, request: FetchRequest): CacheEntry | null {
+  const filepath = cachePath(fetcher, request);
+  if (!fs.existsSync(filepath)) return null;
+
+  try {
+    return JSON.parse(fs.readFileSync(filepath, 'utf-8'));
+  } catch (error: any) {
+    console.warn(`[fetch] Ignoring unreadable cache file ${filepath}: ${error.message}`);
+    return null;
+  }
+}
+
+function writeCache(fetcher: FetcherName, request: FetchRequest, status: number, body: string): void {
+  const filepath = cachePath(fetcher, request);
+  const entry: CacheEntry = {
+    // The base URL only - query params may carry API keys
+    url: request.url,
+    fetcher,
+    status,
+    fetchedAt: new Date().toISOString(),
+    body,
+  };
+
+  fs.mkdirSync(path.dirname(filepath), { recursive: true });
+  fs.writeFileSync(filepath, JSON.stringify(entry));
+}
+
+/**
+ * Fetch through a backend and the response cache
+ * @param fetcher Backend to use on a cache miss
+ * @param request Request
+ * @returns Response, or null when the backend returned nothing
+ * @throws On network errors, and on cache misses in replay mode
+ */
+export async function fetchPage(fetcher: Fetcher, request: FetchRequest): Promise<FetchResponse | null> {
+  if (cacheMode === 'cache' || cacheMode === 'replay') {
+    const cached = readCache(fetcher.name, request);
+    const fresh = cached && (cacheMode === 'replay' || Date.now() - Date.parse(cached.fetchedAt) < cacheTtlMs);
+
+    if (cached && fresh) {
+      return {
+        url: request.url,
+        status: cached.status,
+        body: cached.body,
+        fetchedAt: new Date(cached.fetchedAt),
+        fromCache: true,
+      };
+    }
+    if (cacheMode === 'replay') {
+      throw new ReplayMissError(requestUrl(request), fetcher.name);
+    }
+  }
+
+  const result = await fetcher.fetch(request);
+  if (!result) return null;
+
+  if (cacheMode === 'cache' || cacheMode === 'record') {
+    writeCache(fetcher.name, request, result.status, result.body);
+  }
+
+  return { url: request.url, ...result, fetchedAt: new Date(), fromCache: false };
+}
+
+/**
+ * Plain HTTP backend (axios), rate limited per host
+ */
+export const httpFetcher: Fetcher = {
+  name: 'http',
+  fetch: async (request) => {
+    await acquireHostToken(request.url);
+    const response = await axios.get(request.url, {
+      params: request.params,
+      headers: { ...DEFAULT_HEADERS, ...request.headers },
+      timeout: request.timeout || 30000,
+    });
+
+    const body = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+    return { status: response.status, body };
+  },
+};
@@ -1,12 +1,22 @@
 /**
  * Firecrawl Helper - Utilities for scraping with Firecrawl API
- * Firecrawl handles JavaScript rendering, dynamic content, and complex sites
+ * Firecrawl handles JavaScript rendering, dynamic content, and complex sites.
+ * scrapeAndLoadCheerio falls back to local Puppeteer rendering when Firecrawl
+ * is not configured.
  */
 
 import FirecrawlApp from '@mendable/firecrawl-js';
 import * as cheerio from 'cheerio';
+import { acquireHostToken } from './rateLimiter';
+import { Fetcher, fetchPage, getFetchCacheMode } from './fetcher';
+import { puppeteerFetcher } from './puppeteerHelper';
+import { Renderer, RenderOptions } from '../types';
 
 const FIRECRAWL_API_KEY = process.env.FIRECRAWL_API_KEY || '';
+// Render with Puppeteer when Firecrawl is not configured (set to "false" to skip those scrapers)
+const PUPPETEER_FALLBACK = process.env.PUPPETEER_FALLBACK !== 'false';
+// Firecrawl API calls share a bucket of their own on top of the target site's
+const FIRECRAWL_API_HOST = 'api.firecrawl.dev';
 
 let firecrawlClient: FirecrawlApp | null = null;
 
@@ -28,9 +38,43 @@ export function getFirecrawlClient(): FirecrawlApp | null {
 
 /**
  * Check if Firecrawl is available
+ * Replay mode serves recorded Firecrawl pages, so no API key is needed then
  */
 export function isFirecrawlAvailable(): boolean {
-  return !!FIRECRAWL_API_KEY;
+  return !!FIRECRAWL_API_KEY || getFetchCacheMode() === 'replay';
+}
+
+/**
+ * Pick the renderer for a page
+ * @param preferred Renderer the scraper asks for (default: firecrawl)
+ * @returns Renderer to use, or null when nothing can render the page
+ */
+export function resolveRenderer(preferred: Renderer = 'firecrawl'): Renderer | null {
+  if (preferred === 'puppeteer' || isFirecrawlAvailable()) {
+    return preferred;
+  }
+  return PUPPETEER_FALLBACK ? 'puppeteer' : null;
+}
+
+/**
+ * Why no renderer could be picked for a scraper asking for one
+ * (only Firecrawl can be unavailable; Puppeteer runs locally)
+ */
+export function rendererUnavailableMessage(preferred: Renderer = 'firecrawl'): string {
+  return (
+    `No renderer available for ${preferred}: FIRECRAWL_API_KEY is not configured ` +
+    'and the Puppeteer fallback is disabled (PUPPETEER_FALLBACK=false)'
+  );
+}
+
+/**
+ * Error message for a page the renderer returned nothing for
+ * (phrased so classifyScrapeError tells Firecrawl and Puppeteer failures apart)
+ */
+export function renderFailureMessage(url: string, preferred?: Renderer): string {
+  return resolveRenderer(preferred) === 'puppeteer'
+    ? `Failed to fetch ${url} with Puppeteer`
+    : `Failed to scrape ${url} with Firecrawl`;
 }
 
 /**
@@ -54,6 +98,8 @@ export async function scrapeWithFirecrawl(
   }
 
   try {
+    await acquireHostToken(url);
+    await acquireHostToken(FIRECRAWL_API_HOST);
     console.log(`[Firecrawl] Scraping: ${url}`);
 
     const scrapeOptions: any = {
@@ -81,19 +127,48 @@ export async function scrapeWithFirecrawl(
 }
 
 /**
- * Scrape a URL with Firecrawl and return a Cheerio instance
+ * Firecrawl backend for the fetch layer
+ */
+export const firecrawlFetcher: Fetcher = {
+  name: 'firecrawl',
+  fetch: async (request) => {
+    const html = await scrapeWithFirecrawl(request.url, {
+      waitFor: request.waitFor,
+      timeout: request.timeout,
+    });
+    return html ? { status: 200, body: html } : null;
+  },
+};
+
+/**
+ * Render a URL and return a Cheerio instance
+ * Uses Firecrawl unless the caller asks for Puppeteer; falls back to Puppeteer
+ * when Firecrawl is not configured. Goes through the fetch layer, so responses
+ * can be cached and replayed.
  * @param url - The URL to scrape
- * @param options - Optional scraping options
+ * @param options - Rendering options and the preferred renderer
  * @returns Cheerio instance, or null if failed
  */
 export async function scrapeAndLoadCheerio(
   url: string,
-  options: {
-    waitFor?: number;
-    timeout?: number;
-  } = {}
+  options: RenderOptions & { renderer?: Renderer } = {}
 ): Promise<cheerio.CheerioAPI | null> {
-  const html = await scrapeWithFirecrawl(url, options);
+  const { renderer: preferred, ...renderOptions } = options;
+  const renderer = resolveRenderer(preferred);
+
+  if (!renderer) {
+    console.log(`${rendererUnavailableMessage(preferred)}, skipping: ${url}`);
+    return null;
+  }
+
+  let html: string | undefined;
+  try {
+    const fetcher = renderer === 'puppeteer' ? puppeteerFetcher : firecrawlFetcher;
+    const response = await fetchPage(fetcher, { url, ...renderOptions });
+    html = response?.body;
+  } catch (error: any) {
+    console.error(`[${renderer === 'puppeteer' ? 'Puppeteer' : 'Firecrawl'}] Error rendering ${url}:`, error.message);
+  }
 
   if (!html) {
     return null;
@@ -0,0 +1,459 @@
+/**
+ * schema.org JSON-LD event extraction
+ * Reads Event / EventSeries / Offer data from <script type="application/ld+json">
+ * blocks and maps it to RawEvent
+ */
+
+import * as cheerio from 'cheerio';
+import { parseISO, isValid, differenceInMinutes } from 'date-fns';
+import { PriceTier, RawEvent, RecurrenceRule } from '../types';
+import { priceTierLabel, summarizePriceTiers } from './priceParser';
+import { extractAgeRange } from './ageParser';
+import { classifyCategories } from './categories';
+import { inferSetting } from './setting';
+import { cleanText, createHash } from './scraperHelper';
+import { isSamePragueDay, pragueTime } from './timezone';
+
+/**
+ * A JSON-LD object; property values are narrowed where they are read
+ */
+type JsonLdNode = { [key: string]: unknown };
+
+/**
+ * Options for mapping JSON-LD events to RawEvent
+ */
+export interface JsonLdOptions {
+  /** Source name used for source and externalId */
+  source: string;
+  /** URL of the page, used to resolve relative image and event URLs */
+  pageUrl?: string;
+  /** Extra keywords in title/description marking an outdoor event (see inferSetting) */
+  outdoorKeywords?: string[];
+}
+
+// Event, ChildrensEvent, TheaterEvent, ExhibitionEvent, Festival, ...
+const EVENT_TYPE_PATTERN = /(Event|Festival)$/;
+const SERIES_TYPE = 'EventSeries';
+
+/**
+ * Whether a JSON value is an object node (not an array)
+ */
+function isNode(value: unknown): value is JsonLdNode {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * A JSON value as an object node, or undefined
+ */
+function asNode(value: unknown): JsonLdNode | undefined {
+  return isNode(value) ? value : undefined;
+}
+
+/**
+ * schema.org types of a node, without context prefix
+ */
+function nodeTypes(node: JsonLdNode): string[] {
+  return asArray(node['@type'])
+    .filter((t): t is string => typeof t === 'string')
+    .map((t) => t.replace(/^.*[/:]/, ''));
+}
+
+/**
+ * Event, EventSeries or any Event subtype
+ */
+function isEventNode(node: JsonLdNode): boolean {
+  return nodeTypes(node).some((type) => type === SERIES_TYPE || EVENT_TYPE_PATTERN.test(type));
+}
+
+/**
+ * Wrap a possibly single value in an array
+ */
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Read a text value that may be a plain string, a number or a localized value list
+ */
+function textValue(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return textValue(value[0]);
+  if (isNode(value)) return textValue(value['@value'] ?? value.name);
+  return undefined;
+}
+
+/**
+ * Strip HTML tags and entities that some sites leave in JSON-LD descriptions
+ */
+function plainText(value: unknown): string | undefined {
+  const text = textValue(value);
+  if (!text) return undefined;
+  const stripped = cleanText(cheerio.load(`<div>${text}</div>`)('div').text());
+  return stripped || undefined;
+}
+
+/**
+ * Entries of an ItemList: the item of each ListItem, other entries as they are
+ */
+function listItems(list: JsonLdNode): unknown[] {
+  return asArray(list.itemListElement).map((element) =>
+    isNode(element) && nodeTypes(element).includes('ListItem') && element.item !== undefined ? element.item : element
+  );
+}
+
+/**
+ * Parse all JSON-LD blocks of a page into a flat list of nodes
+ * (@graph, arrays and ItemList wrappers of listing pages expanded)
+ */
+export function parseJsonLdBlocks($: cheerio.CheerioAPI): JsonLdNode[] {
+  const nodes: JsonLdNode[] = [];
+
+  const collect = (value: unknown) => {
+    for (const node of asArray(value)) {
+      if (!isNode(node)) continue;
+      if (node['@graph']) {
+        collect(node['@graph']);
+      } else if (nodeTypes(node).includes('ItemList')) {
+        collect(listItems(node));
+      } else {
+        nodes.push(node);
+      }
+    }
+  };
+
+  $('script[type="application/ld+json"]').each((i, script) => {
+    const raw = $(script).contents().text().trim();
+    if (!raw) return;
+
+    try {
+      collect(JSON.parse(raw));
+    } catch (error) {
+      // Some CMSs emit raw newlines inside strings - retry once with them removed
+      try {
+        collect(JSON.parse(raw.replace(/[\r\n\t]+/g, ' ')));
+      } catch (retryError: any) {
+        console.log(`Skipping invalid JSON-LD block: ${retryError.message}`);
+      }
+    }
+  });
+
+  return nodes;
+}
+
+/**
+ * Parse an ISO 8601 date; values without an offset are Prague local time
+ * (date-only values are Prague midnight)
+ */
+function parseDate(value: unknown): Date | undefined {
+  const text = textValue(value)?.trim();
+  if (!text) return undefined;
+
+  const local = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/);
+  if (local) {
+    const [, year, month, day, hours, minutes] = local;
+    const date = pragueTime(parseInt(year), parseInt(month), parseInt(day), parseInt(hours || '0'), parseInt(minutes || '0'));
+    return isValid(parseISO(text)) ? date : undefined;
+  }
+
+  const date = parseISO(text);
+  return isValid(date) ? date : undefined;
+}
+
+/**
+ * Parse an ISO 8601 duration (e.g. PT1H30M) into minutes
+ */
+export function parseIsoDuration(value: unknown): number | undefined {
+  const text = textValue(value);
+  const match = text?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/i);
+  if (!match) return undefined;
+
+  const [, days, hours, minutes] = match;
+  const total = (parseInt(days || '0') * 24 + parseInt(hours || '0')) * 60 + parseInt(minutes || '0');
+  return total > 0 ? total : undefined;
+}
+
+/**
+ * Parse schema.org typicalAgeRange ("3-8", "6-", "5+", "1.5-3")
+ */
+export function parseTypicalAgeRange(value: unknown): { ageMin?: number; ageMax?: number } {
+  const text = textValue(value);
+  if (!text) return {};
+
+  const range = text.match(/(\d+(?:\.\d+)?)\s*[-–]\s*(\d+(?:\.\d+)?)?/);
+  if (range) {
+    return {
+      ageMin: parseFloat(range[1]),
+      ageMax: range[2] ? parseFloat(range[2]) : undefined,
+    };
+  }
+
+  const plus = text.match(/(\d+(?:\.\d+)?)\s*\+/);
+  return plus ? { ageMin: parseFloat(plus[1]) } : {};
+}
+
+/**
+ * Resolve a URL against the page it was found on
+ */
+function resolveAgainst(url: string | undefined, pageUrl?: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url, pageUrl).toString();
+  } catch (error) {
+    return url.startsWith('http') ? url : undefined;
+  }
+}
+
+/**
+ * Read the first image URL from a string, ImageObject or list of either
+ */
+function imageUrl(value: unknown): string | undefined {
+  for (const image of asArray(value)) {
+    if (typeof image === 'string') return image;
+    if (isNode(image)) {
+      const url = textValue(image.url) || textValue(image.contentUrl);
+      if (url) return url;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read venue name and address from the location property (Place, PostalAddress or text)
+ */
+function locationFields(value: unknown): { locationName?: string; address?: string } {
+  for (const location of asArray(value)) {
+    if (typeof location === 'string') {
+      return { locationName: location, address: location };
+    }
+    if (!isNode(location) || nodeTypes(location).includes('VirtualLocation')) {
+      continue;
+    }
+
+    const name = textValue(location.name);
+    const address = location.address ?? (nodeTypes(location).includes('PostalAddress') ? location : undefined);
+
+    let addressText: string | undefined;
+    if (typeof address === 'string') {
+      addressText = address;
+    } else if (isNode(address)) {
+      const street = textValue(address.streetAddress);
+      const locality = [textValue(address.postalCode), textValue(address.addressLocality)].filter(Boolean).join(' ');
+      addressText = [street, locality].filter(Boolean).join(', ') || undefined;
+    }
+
+    return {
+      locationName: name ? cleanText(name) : addressText,
+      address: addressText ? cleanText(addressText) : name,
+    };
+  }
+
+  return {};
+}
+
+/**
+ * Read a numeric price; schema.org allows "150", "150.00" or "150,00"
+ */
+function offerPrice(offer: JsonLdNode): number | undefined {
+  const raw = offer.price ?? offer.lowPrice ?? asNode(offer.priceSpecification)?.price;
+  if (raw === undefined || raw === null) return undefined;
+
+  const price = typeof raw === 'number' ? raw : parseFloat(String(raw).replace(/\s/g, '').replace(',', '.'));
+  return isNaN(price) ? undefined : price;
+}
+
+/**
+ * Map offers to ticket tiers (CZK and EUR), summarized as adult / child / family prices
+ */
+function offerPrices(node: JsonLdNode): Pick<RawEvent, 'adultPrice' | 'childPrice' | 'familyPrice' | 'priceTiers'> {
+  if (node.isAccessibleForFree === true || node.isAccessibleForFree === 'true') {
+    return { adultPrice: 0, priceTiers: [{ label: 'general', amount: 0, currency: 'CZK' }] };
+  }
+
+  // AggregateOffer may carry individual offers
+  const offers = asArray(node.offers)
+    .filter(isNode)
+    .flatMap((offer) => (offer.offers ? [offer, ...asArray(offer.offers).filter(isNode)] : [offer]));
+
+  const tiers: PriceTier[] = [];
+  for (const offer of offers) {
+    const currencyValue = offer.priceCurrency ?? asNode(offer.priceSpecification)?.priceCurrency;
+    const currency = (textValue(currencyValue) || 'CZK').toUpperCase();
+    if (currency !== 'CZK' && currency !== 'EUR') continue;
+
+    const price = offerPrice(offer);
+    if (price === undefined) continue;
+
+    const name = `${textValue(offer.name) || ''} ${textValue(offer.category) || ''}`;
+    const { ageMin, ageMax } = extractAgeRange(name);
+    const tier: PriceTier = { label: priceTierLabel(name), amount: price, currency };
+    if (ageMin !== undefined) tier.ageMin = ageMin;
+    if (ageMax !== undefined) tier.ageMax = ageMax;
+
+    const highPrice = offerPrice({ price: offer.highPrice });
+    if (highPrice !== undefined && highPrice > price) tier.maxAmount = highPrice;
+    if (offer.price === undefined && offer.lowPrice !== undefined) tier.isFrom = true;
+
+    tiers.push(tier);
+  }
+
+  return tiers.length > 0 ? { ...summarizePriceTiers(tiers), priceTiers: tiers } : {};
+}
+
+/**
+ * Expand event nodes: series and umbrella events yield their sub-events,
+ * which inherit location, offers, image, audience and description from the parent
+ */
+function expandEventNodes(nodes: JsonLdNode[]): JsonLdNode[] {
+  const events: JsonLdNode[] = [];
+
+  for (const node of nodes) {
+    if (!isEventNode(node)) continue;
+
+    const subEvents = asArray(node.subEvent ?? node.subEvents).filter(isNode);
+
+    if (subEvents.length === 0) {
+      events.push(node);
+      continue;
+    }
+
+    for (const sub of subEvents) {
+      events.push({
+        ...sub,
+        name: sub.name ?? node.name,
+        description: sub.description ?? node.description,
+        location: sub.location ?? node.location,
+        offers: sub.offers ?? node.offers,
+        isAccessibleForFree: sub.isAccessibleForFree ?? node.isAccessibleForFree,
+        image: sub.image ?? node.image,
+        typicalAgeRange: sub.typicalAgeRange ?? node.typicalAgeRange,
+        audience: sub.audience ?? node.audience,
+        url: sub.url ?? node.url,
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Whether eventStatus is schema.org EventCancelled (plain string or { "@id": ... })
+ */
+function isCancelledStatus(value: unknown): boolean {
+  const status = isNode(value) ? value['@id'] : textValue(value);
+  return typeof status === 'string' && status.endsWith('EventCancelled');
+}
+
+const SCHEMA_WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Read a recurrence rule from eventSchedule (schema.org Schedule)
+ * Weekly schedules list byDay ("https://schema.org/Saturday"), daily ones repeatFrequency P1D
+ */
+function scheduleRecurrence(value: unknown): RecurrenceRule | undefined {
+  const schedule = asArray(value).find(isNode);
+  if (!schedule) return undefined;
+
+  const weekdays = asArray(schedule.byDay)
+    .map((day) => SCHEMA_WEEKDAYS.findIndex((name) => (textValue(day) || '').endsWith(name)))
+    .filter((day) => day >= 0);
+  const daily = textValue(schedule.repeatFrequency)?.toUpperCase() === 'P1D';
+  if (weekdays.length === 0 && !daily) return undefined;
+
+  const rule: RecurrenceRule = { weekdays: [...new Set(weekdays)].sort((a, b) => a - b) };
+  const time = (textValue(schedule.startTime) || '').match(/^(\d{1,2}):(\d{2})/);
+  if (time) {
+    rule.time = { hours: parseInt(time[1]), minutes: parseInt(time[2]) };
+  }
+  const until = parseDate(schedule.endDate);
+  if (until) {
+    rule.until = until;
+  }
+  return rule;
+}
+
+/**
+ * Map a single schema.org Event node to a RawEvent
+ * @returns RawEvent, or null when the node lacks a name or a valid startDate, or is online-only
+ */
+function mapEventNode(node: JsonLdNode, options: JsonLdOptions): RawEvent | null {
+  const title = plainText(node.name);
+  const startDateTime = parseDate(node.startDate);
+  if (!title || !startDateTime) return null;
+
+  // Online-only events have no place for a family to go to
+  const locations = asArray(node.location);
+  const isVirtual = (location: unknown) => isNode(location) && nodeTypes(location).includes('VirtualLocation');
+  if (locations.length > 0 && locations.every(isVirtual)) {
+    return null;
+  }
+
+  const endDateTime = parseDate(node.endDate);
+  const description = plainText(node.description);
+  const { locationName, address } = locationFields(node.location);
+
+  let ageRange = parseTypicalAgeRange(node.typicalAgeRange);
+  if (ageRange.ageMin === undefined && node.audience) {
+    const audience = asNode(asArray(node.audience)[0]) || {};
+    const ageMin = parseFloat(textValue(audience.suggestedMinAge) || '');
+    const ageMax = parseFloat(textValue(audience.suggestedMaxAge) || '');
+    ageRange = {
+      ageMin: isNaN(ageMin) ? undefined : ageMin,
+      ageMax: isNaN(ageMax) ? undefined : ageMax,
+    };
+  }
+
+  let durationMinutes = parseIsoDuration(node.duration);
+  if (!durationMinutes && endDateTime && isSamePragueDay(startDateTime, endDateTime)) {
+    const minutes = differenceInMinutes(endDateTime, startDateTime);
+    durationMinutes = minutes > 0 ? minutes : undefined;
+  }
+
+  const contentText = title + ' ' + (description || '');
+  const { category, tags } = classifyCategories(contentText);
+
+  return {
+    externalId: `${options.source}-${createHash(title + startDateTime.toISOString() + (locationName || ''))}`,
+    source: options.source,
+    title,
+    description,
+    startDateTime,
+    endDateTime,
+    locationName,
+    address,
+    category,
+    tags: tags.length > 0 ? tags : undefined,
+    ageMin: ageRange.ageMin,
+    ageMax: ageRange.ageMax,
+    // Structured ages are explicit
+    ageConfidence: ageRange.ageMin !== undefined || ageRange.ageMax !== undefined ? 1 : undefined,
+    ...offerPrices(node),
+    setting: inferSetting(tags, contentText, options.outdoorKeywords),
+    durationMinutes,
+    imageUrl: resolveAgainst(imageUrl(node.image), options.pageUrl),
+    bookingUrl: resolveAgainst(textValue(node.url), options.pageUrl),
+    cancelled: isCancelledStatus(node.eventStatus) || undefined,
+    recurrence: scheduleRecurrence(node.eventSchedule),
+  };
+}
+
+/**
+ * Extract schema.org events embedded in a page
+ * @param page HTML string or loaded cheerio document
+ * @param options Source name, page URL and outdoor keywords
+ * @returns Events in document order (empty if the page has no JSON-LD events)
+ */
+export function extractJsonLdEvents(page: string | cheerio.CheerioAPI, options: JsonLdOptions): RawEvent[] {
+  const $ = typeof page === 'string' ? cheerio.load(page) : page;
+  const events: RawEvent[] = [];
+
+  for (const node of expandEventNodes(parseJsonLdBlocks($))) {
+    const event = mapEventNode(node, options);
+    if (event) {
+      events.push(event);
+    }
+  }
+
+  return events;
+}
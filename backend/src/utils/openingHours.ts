@@ -0,0 +1,169 @@
+/**
+ * Opening hours and seasonal availability of venues and places
+ * Opening hours are stored in schema.org format ("Tu-Su 09:00-18:00",
+ * "Sa,Su 10:00-17:30"); seasons as the months a place is open (1-12).
+ */
+
+import { CZECH_MONTHS } from './dateParser';
+import { pragueWallClock } from './timezone';
+
+// schema.org day codes, indexed by weekday (0 = Sunday)
+const DAY_CODES = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+// Czech day abbreviations and names to day numbers (0 = Sunday)
+const CZECH_DAYS: { [key: string]: number } = {
+  'po': 1, 'pondělí': 1,
+  'út': 2, 'úterý': 2,
+  'st': 3, 'středa': 3,
+  'čt': 4, 'čtvrtek': 4,
+  'pá': 5, 'pátek': 5,
+  'so': 6, 'sobota': 6,
+  'ne': 0, 'neděle': 0,
+};
+
+const CZECH_DAY_PATTERN = Object.keys(CZECH_DAYS)
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+
+// "Út–Ne 9:00–18:00", "po-pá: 8.30 - 17", "denně 10-18"
+const CZECH_HOURS_REGEX = new RegExp(
+  `(?<!\\p{L})(?:(${CZECH_DAY_PATTERN})(?:\\s*[-–]\\s*(${CZECH_DAY_PATTERN}))?|(denně))(?!\\p{L})\\s*:?\\s*` +
+    `(\\d{1,2})(?:[:.](\\d{2}))?\\s*[-–]\\s*(\\d{1,2})(?:[:.](\\d{2}))?`,
+  'giu'
+);
+
+const MONTH_PATTERN = Object.keys(CZECH_MONTHS)
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+
+// "duben–říjen", "od dubna do října"
+const SEASON_REGEX = new RegExp(
+  `(?<!\\p{L})(?:od\\s+)?(${MONTH_PATTERN})\\s*(?:[-–]|do)\\s*(${MONTH_PATTERN})(?!\\p{L})`,
+  'iu'
+);
+
+/**
+ * Time span a place is open on one day, in minutes since midnight
+ */
+export interface OpeningInterval {
+  opens: number;
+  closes: number;
+}
+
+/**
+ * "09:00" -> 540
+ */
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Days a day spec covers: "Mo-Fr", "Sa,Su", "Tu"
+ */
+function specDays(days: string): number[] {
+  const result: number[] = [];
+
+  for (const part of days.split(',')) {
+    const [from, to] = part.split('-').map((code) => DAY_CODES.indexOf(code.trim()));
+    if (from < 0) continue;
+
+    const last = to === undefined || to < 0 ? from : to;
+    for (let day = from; ; day = (day + 1) % 7) {
+      result.push(day);
+      if (day === last) break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Opening intervals on a given day
+ * @param openingHours schema.org opening hours
+ * @param date Day to check (its Prague day)
+ * @returns Intervals in minutes since midnight, empty when closed
+ */
+export function openingIntervals(openingHours: string[], date: Date): OpeningInterval[] {
+  const intervals: OpeningInterval[] = [];
+
+  for (const spec of openingHours) {
+    const match = spec.match(/^([A-Za-z,-]+)\s+(\d{1,2}:\d{2})-(\d{1,2}:\d{2})$/);
+    if (!match || !specDays(match[1]).includes(pragueWallClock(date).weekday)) continue;
+
+    intervals.push({ opens: minutesOf(match[2]), closes: minutesOf(match[3]) });
+  }
+
+  return intervals;
+}
+
+/**
+ * Whether a place is open at some point of a day
+ * Places without known opening hours count as open
+ */
+export function isOpenOn(openingHours: string[], date: Date): boolean {
+  return openingHours.length === 0 || openingIntervals(openingHours, date).length > 0;
+}
+
+/**
+ * Number of days per week with opening hours (7 when unknown)
+ */
+export function openDaysPerWeek(openingHours: string[]): number {
+  if (openingHours.length === 0) return 7;
+  return new Set(openingHours.flatMap((spec) => specDays(spec.split(' ')[0]))).size;
+}
+
+/**
+ * Whether a date falls into the season of a place (empty season: all year)
+ */
+export function isInSeason(seasonMonths: number[], date: Date): boolean {
+  return seasonMonths.length === 0 || seasonMonths.includes(pragueWallClock(date).month);
+}
+
+/**
+ * Read opening hours from Czech text
+ * @example parseCzechOpeningHours('Út–Ne 9:00–18:00, Po zavřeno') // ['Tu-Su 09:00-18:00']
+ * @returns schema.org opening hours, empty when the text has none
+ */
+export function parseCzechOpeningHours(text: string): string[] {
+  if (!text) return [];
+
+  const specs: string[] = [];
+  const time = (hours: string, minutes?: string) => `${hours.padStart(2, '0')}:${minutes || '00'}`;
+
+  for (const match of text.matchAll(CZECH_HOURS_REGEX)) {
+    const [, from, to, daily, openHours, openMinutes, closeHours, closeMinutes] = match;
+    const days = daily
+      ? 'Mo-Su'
+      : [from, to]
+          .filter(Boolean)
+          .map((day) => DAY_CODES[CZECH_DAYS[day.toLowerCase()]])
+          .join('-');
+
+    if (parseInt(openHours, 10) > 24 || parseInt(closeHours, 10) > 24) continue;
+    specs.push(`${days} ${time(openHours, openMinutes)}-${time(closeHours, closeMinutes)}`);
+  }
+
+  return specs;
+}
+
+/**
+ * Read the season from Czech text ("duben–říjen", "od dubna do října")
+ * @returns Months the place is open (1-12), empty for all year or when not stated
+ */
+export function parseSeasonMonths(text: string): number[] {
+  if (!text) return [];
+
+  const match = text.match(SEASON_REGEX);
+  if (!match) return [];
+
+  const from = CZECH_MONTHS[match[1].toLowerCase()];
+  const to = CZECH_MONTHS[match[2].toLowerCase()];
+  const months: number[] = [];
+  for (let month = from; ; month = (month % 12) + 1) {
+    months.push(month);
+    if (month === to) break;
+  }
+
+  return months.length === 12 ? [] : months.sort((a, b) => a - b);
+}
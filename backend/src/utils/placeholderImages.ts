@@ -3,54 +3,38 @@
  * Uses free images from Unsplash with category-based queries
  */
 
+import { EventCategory } from '../types';
+import { categoryDefinition } from './categories';
+
+const DEFAULT_IMAGE_SEED = 100;
+
 /**
  * Get a placeholder image URL based on event category
- * Uses Unsplash's source API for free stock photos
+ * Each category of the taxonomy has its own image; unknown categories get the default
  * @param category Event category
  * @param title Event title for better context
  * @returns Placeholder image URL
  */
 export function getPlaceholderImage(category?: string, title?: string): string {
-  // Map categories to seed numbers for consistent placeholder images
-  const categoryImageMap: Record<string, number> = {
-    museum: 101,
-    theater: 102,
-    workshop: 103,
-    sport: 104,
-    outdoor: 105,
-    music: 106,
-    exhibition: 107,
-    festival: 108,
-    cinema: 109,
-    park: 110,
-    zoo: 111,
-    playground: 112,
-    educational: 113,
-    interactive: 114,
-    nature: 115,
-    adventure: 116,
-    craft: 117,
-    science: 118,
-    reading: 119,
-    default: 100,
-  };
-
-  const cat = category?.toLowerCase() || 'default';
-
-  // Find the best matching category
-  let seedNumber = categoryImageMap.default;
-  for (const [key, value] of Object.entries(categoryImageMap)) {
-    if (cat.includes(key)) {
-      seedNumber = value;
-      break;
-    }
-  }
+  const seedNumber = categoryDefinition(category?.toLowerCase())?.imageSeed ?? DEFAULT_IMAGE_SEED;
 
   // Use Lorem Picsum for reliable placeholder images
   // Size: 800x600 for good quality, with seed for consistency
   return `https://picsum.photos/seed/${seedNumber}/800/600`;
 }
 
+/**
+ * Whether an image URL is a placeholder (ours, or a source's "no image" or logo
+ * picture) rather than a picture of the event
+ */
+export function isPlaceholderImage(url: string): boolean {
+  return (
+    url.includes('picsum.photos') ||
+    url.startsWith('/placeholders/') ||
+    /placeholder|no[-_]?image|no[-_]?photo|default[-_]?(?:image|img)|logo/i.test(url)
+  );
+}
+
 /**
  * Placeholder images from Lorem Picsum (fallback if Unsplash is down)
  * @param seed Seed for consistent images per event
@@ -79,23 +63,16 @@ function hashString(str: string): number {
  * Local placeholder images (as ultimate fallback)
  * These should be stored in the frontend public folder
  */
-export const LOCAL_PLACEHOLDER_IMAGES: Record<string, string> = {
-  museum: '/placeholders/museum.jpg',
-  theater: '/placeholders/theater.jpg',
-  workshop: '/placeholders/workshop.jpg',
-  sport: '/placeholders/sport.jpg',
-  outdoor: '/placeholders/outdoor.jpg',
+export const LOCAL_PLACEHOLDER_IMAGES: Partial<Record<EventCategory, string>> & { default: string } = {
+  [EventCategory.MUSEUM]: '/placeholders/museum.jpg',
+  [EventCategory.THEATER]: '/placeholders/theater.jpg',
+  [EventCategory.WORKSHOP]: '/placeholders/workshop.jpg',
+  [EventCategory.SPORT]: '/placeholders/sport.jpg',
+  [EventCategory.OUTDOOR]: '/placeholders/outdoor.jpg',
   default: '/placeholders/default.jpg',
 };
 
 export function getLocalPlaceholderImage(category?: string): string {
-  const cat = category?.toLowerCase() || 'default';
-
-  for (const [key, value] of Object.entries(LOCAL_PLACEHOLDER_IMAGES)) {
-    if (cat.includes(key)) {
-      return value;
-    }
-  }
-
-  return LOCAL_PLACEHOLDER_IMAGES.default;
+  const definition = categoryDefinition(category?.toLowerCase());
+  return (definition && LOCAL_PLACEHOLDER_IMAGES[definition.id]) || LOCAL_PLACEHOLDER_IMAGES.default;
 }
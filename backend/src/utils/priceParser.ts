@@ -2,6 +2,9 @@
  * Czech price parser utilities
  */
 
+import { Currency, FamilyCost, FamilyProfile, PriceTier, PriceTierLabel } from '../types';
+import { extractAgeRange } from './ageParser';
+
 /**
  * Parse Czech price string to number
  * Examples: "100 Kč", "zdarma", "od 50 Kč", "150,-", "free"
@@ -48,135 +51,358 @@ export function parseCzechPrice(priceStr: string): number | null {
   return null;
 }
 
+// Used to compare and filter prices listed in euros
+export const EUR_TO_CZK = parseFloat(process.env.EUR_TO_CZK || '25');
+
+// "1 500", "1.500", "89,90", "12.50"
+const AMOUNT = String.raw`(\d{1,3}(?:[ \u00a0.]\d{3})+|\d+)(?:[,.](\d{1,2})(?!\d))?`;
+
+// "od 100 Kč", "150,-", "100 - 200 Kč", "€ 12", "12 EUR"; a number only counts with a currency
+const PRICE_REGEX = new RegExp(
+  String.raw`(?:(?<![\p{L}])(od|from)\s+)?(?:(€)\s*)?(?<![\d:.,])${AMOUNT}` +
+    String.raw`(?:\s*(?:kč|czk|,-)?\s*[-–]\s*${AMOUNT})?` +
+    String.raw`\s*(kč|kc\b|czk|korun\p{L}*|,-|€|eur(?:o|a)?(?![\p{L}]))?`,
+  'giu'
+);
+
+const FREE_REGEX = /(?<![\p{L}])(?:zdarma|free|vstup(?:né)? volný|volný vstup|bez vstupného|vstupné:? dobrovolné|dobrovolné vstupné)(?![\p{L}])/giu;
+
+// "zdarma ke vstupnému", "v ceně vstupného", "je součástí vstupného", "k zakoupené vstupence"
+const WITH_ENTRY_REGEX =
+  /(?:v\s+ceně|součástí|zahrnut\p{L}*\s+ve?|(?<![\p{L}])ke?(?:\s+zakoupen\p{L}*)?)\s+vstup(?:ného|nému|ném|ence|enky)/iu;
+
+// Clauses each describing one or more tickets
+const CLAUSE_SEPARATOR = /[;\n|•]|,(?![-–\d])|\.\s+(?=\p{Lu})|\s\/\s/u;
+
+const LABEL_KEYWORDS: [PriceTierLabel, string[]][] = [
+  ['family', ['rodin', 'family']],
+  ['reduced', ['sníž', 'zlevn', 'student', 'senio', 'důchod', 'ztp', 'reduced']],
+  ['toddler', ['batol', 'mimin', 'toddler']],
+  ['child', ['dět', 'dít', 'dite', 'děc', 'žák', 'žác', 'child', 'kid', 'junior']],
+  ['adult', ['dospěl', 'dosp.', 'adult']],
+];
+
+/**
+ * Who a ticket is for, from the words describing it
+ * @example priceTierLabel('Rodinné vstupné (2+2)') // 'family'
+ */
+export function priceTierLabel(text: string): PriceTierLabel {
+  const lower = text.toLowerCase();
+  const found = LABEL_KEYWORDS.filter(([, keywords]) => keywords.some((keyword) => lower.includes(keyword))).map(
+    ([label]) => label
+  );
+
+  // "pro dospělé i děti" is one price for everyone
+  if (found.includes('adult') && found.includes('child')) return 'general';
+  return found[0] || 'general';
+}
+
 /**
- * Extract adult and child prices from text
+ * A price found in a clause, or a free marker (amount 0)
+ */
+interface PriceMarker {
+  index: number;
+  end: number;
+  amount: number;
+  currency: Currency;
+  maxAmount?: number;
+  isFrom?: boolean;
+}
+
+function amountValue(whole: string, decimals?: string): number {
+  const value = parseFloat(`${whole.replace(/[ \u00a0.]/g, '')}.${decimals || '0'}`);
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Prices and free markers of a clause, in text order
+ */
+function priceMarkers(clause: string): PriceMarker[] {
+  const markers: PriceMarker[] = [];
+
+  for (const match of clause.matchAll(PRICE_REGEX)) {
+    const [, from, euroPrefix, whole, decimals, maxWhole, maxDecimals, suffix] = match;
+    if (!euroPrefix && !suffix) continue;
+
+    const currency: Currency = euroPrefix || /^(€|eur)/i.test(suffix) ? 'EUR' : 'CZK';
+    const amount = amountValue(whole, decimals);
+    const maxAmount = maxWhole ? amountValue(maxWhole, maxDecimals) : undefined;
+
+    markers.push({
+      index: match.index!,
+      end: match.index! + match[0].length,
+      amount,
+      currency,
+      maxAmount: maxAmount !== undefined && maxAmount > amount ? maxAmount : undefined,
+      isFrom: from ? true : undefined,
+    });
+  }
+
+  for (const match of clause.matchAll(FREE_REGEX)) {
+    markers.push({ index: match.index!, end: match.index! + match[0].length, amount: 0, currency: 'CZK' });
+  }
+
+  return markers.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Build a tier from the words around a price
+ * Ages up to 3 make a toddler ticket; ages alone make a child ticket
+ */
+function tierFromContext(marker: PriceMarker, context: string, withEntry: boolean): PriceTier {
+  const ages = extractAgeRange(context);
+  let label = priceTierLabel(context);
+
+  if (label === 'general' && (ages.ageMin !== undefined || ages.ageMax !== undefined)) {
+    label = 'child';
+  }
+  if (label === 'child' && ages.ageMax !== undefined && ages.ageMax <= 3) {
+    label = 'toddler';
+  }
+
+  const tier: PriceTier = { label, amount: marker.amount, currency: marker.currency };
+  if (marker.maxAmount !== undefined) tier.maxAmount = marker.maxAmount;
+  if (marker.isFrom) tier.isFrom = true;
+  if (ages.ageMin !== undefined) tier.ageMin = ages.ageMin;
+  if (ages.ageMax !== undefined) tier.ageMax = ages.ageMax;
+  if (withEntry) tier.withEntry = true;
+  return tier;
+}
+
+/**
+ * Parse ticket prices from Czech text
+ * Examples: "Dospělí 120 Kč, děti 3–15 let 80 Kč, děti do 3 let zdarma",
+ * "Rodinné vstupné 350,-", "od 15 €", "Dílna zdarma ke vstupnému"
  * @param text Text containing price information
- * @returns Object with adult and child prices
+ * @returns Tiers in text order, without duplicates
  */
-export function extractPrices(text: string): {
+export function parsePriceTiers(text: string): PriceTier[] {
+  if (!text) return [];
+
+  const tiers: PriceTier[] = [];
+  const seen = new Set<string>();
+
+  for (const clause of text.split(CLAUSE_SEPARATOR)) {
+    const withEntry = WITH_ENTRY_REGEX.test(clause);
+    const markers = priceMarkers(clause);
+
+    // "Program je v ceně vstupného"
+    if (markers.length === 0 && withEntry) {
+      markers.push({ index: clause.length, end: clause.length, amount: 0, currency: 'CZK' });
+    }
+
+    markers.forEach((marker, i) => {
+      // Words before the price describe it ("děti 80 Kč"), else the words after it ("80 Kč děti")
+      const before = clause.slice(i > 0 ? markers[i - 1].end : 0, marker.index);
+      const after = clause.slice(marker.end, i < markers.length - 1 ? markers[i + 1].index : clause.length);
+      const context = priceTierLabel(before) !== 'general' || /\d+\s*let/i.test(before) ? before : after;
+
+      const tier = tierFromContext(marker, context, withEntry);
+      const key = JSON.stringify(tier);
+      if (!seen.has(key)) {
+        seen.add(key);
+        tiers.push(tier);
+      }
+    });
+  }
+
+  return tiers;
+}
+
+/**
+ * Tier amount in CZK
+ */
+export function tierAmountCzk(tier: PriceTier): number {
+  return tier.currency === 'EUR' ? Math.round(tier.amount * EUR_TO_CZK) : tier.amount;
+}
+
+/**
+ * Adult, child and family prices (CZK) summarizing ticket tiers
+ * Takes the cheapest tier of each kind; tickets on top of an entry are left out
+ * @param tiers Tiers from parsePriceTiers
+ */
+export function summarizePriceTiers(tiers: PriceTier[]): {
   adultPrice?: number;
   childPrice?: number;
   familyPrice?: number;
 } {
+  const cheapest = (labels: PriceTierLabel[]) => {
+    const amounts = tiers
+      .filter((tier) => !tier.withEntry && labels.includes(tier.label))
+      .map(tierAmountCzk);
+    return amounts.length > 0 ? Math.min(...amounts) : undefined;
+  };
+
   const result: { adultPrice?: number; childPrice?: number; familyPrice?: number } = {};
+  const adultPrice = cheapest(['adult']) ?? cheapest(['general']);
+  const childPrice = cheapest(['child']);
+  const familyPrice = cheapest(['family']);
 
-  if (!text) return result;
+  if (adultPrice !== undefined) result.adultPrice = adultPrice;
+  if (childPrice !== undefined) result.childPrice = childPrice;
+  if (familyPrice !== undefined) result.familyPrice = familyPrice;
+  return result;
+}
 
-  const lowerText = text.toLowerCase();
+/**
+ * Tiers standing in for plain adult / child / family prices (CZK)
+ * For events and places stored before tiers were parsed
+ */
+export function priceTiersFromPrices(prices: {
+  adultPrice?: number | null;
+  childPrice?: number | null;
+  familyPrice?: number | null;
+}): PriceTier[] {
+  const tiers: PriceTier[] = [];
+  if (prices.adultPrice != null) tiers.push({ label: 'adult', amount: prices.adultPrice, currency: 'CZK' });
+  if (prices.childPrice != null) tiers.push({ label: 'child', amount: prices.childPrice, currency: 'CZK' });
+  if (prices.familyPrice != null) tiers.push({ label: 'family', amount: prices.familyPrice, currency: 'CZK' });
+  return tiers;
+}
 
-  // Try to find adult price
-  const adultPatterns = [
-    /dospělí[:\s]+(\d+[,\s]?\d*)\s*kč/i,
-    /dospělý[:\s]+(\d+[,\s]?\d*)\s*kč/i,
-    /adult[:\s]+(\d+[,\s]?\d*)\s*kč/i,
-  ];
+/**
+ * Whether a tier applies to someone of an age (missing bounds are open)
+ */
+function coversAge(tier: PriceTier, age: number): boolean {
+  return (tier.ageMin === undefined || age >= tier.ageMin) && (tier.ageMax === undefined || age <= tier.ageMax);
+}
 
-  for (const pattern of adultPatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      const price = parseCzechPrice(match[1]);
-      if (price !== null) {
-        result.adultPrice = price;
-        break;
-      }
-    }
-  }
+/**
+ * Price one visitor pays (CZK), cheapest matching tier
+ * Adults pay adult or general tickets; children the child / toddler tier for
+ * their age, else an unbounded child ticket, else the adult price. Toddlers
+ * without a ticket of their own go free.
+ * @param tiers Ticket tiers
+ * @param age Age in years, or 'adult'
+ * @returns Price, or undefined when the tiers do not say
+ */
+export function visitorPrice(tiers: PriceTier[], age: number | 'adult'): number | undefined {
+  const entry = tiers.filter((tier) => !tier.withEntry);
+  const cheapest = (candidates: PriceTier[]) =>
+    candidates.length > 0 ? Math.min(...candidates.map(tierAmountCzk)) : undefined;
 
-  // Try to find child price
-  const childPatterns = [
-    /děti[:\s]+(\d+[,\s]?\d*)\s*kč/i,
-    /dítě[:\s]+(\d+[,\s]?\d*)\s*kč/i,
-    /child[:\s]+(\d+[,\s]?\d*)\s*kč/i,
-    /do\s+\d+\s+let[:\s]+(\d+[,\s]?\d*)\s*kč/i,
-  ];
-
-  for (const pattern of childPatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      const price = parseCzechPrice(match[1]);
-      if (price !== null) {
-        result.childPrice = price;
-        break;
-      }
-    }
-  }
+  const adult =
+    cheapest(entry.filter((tier) => tier.label === 'adult')) ??
+    cheapest(entry.filter((tier) => tier.label === 'general' && tier.ageMin === undefined && tier.ageMax === undefined));
+  if (age === 'adult') return adult;
 
-  // Try to find family price
-  const familyPatterns = [
-    /rodin[a-zá]+[:\s]+(\d+[,\s]?\d*)\s*kč/i,
-    /family[:\s]+(\d+[,\s]?\d*)\s*kč/i,
-  ];
-
-  for (const pattern of familyPatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      const price = parseCzechPrice(match[1]);
-      if (price !== null) {
-        result.familyPrice = price;
-        break;
-      }
-    }
-  }
+  const children = entry.filter((tier) => tier.label === 'child' || tier.label === 'toddler' || tier.label === 'general');
+  const forAge = children.filter(
+    (tier) => (tier.ageMin !== undefined || tier.ageMax !== undefined) && coversAge(tier, age)
+  );
+  const unbounded = children.filter(
+    (tier) => tier.label !== 'general' && tier.ageMin === undefined && tier.ageMax === undefined
+  );
 
-  return result;
+  const price = cheapest(forAge) ?? cheapest(unbounded);
+  if (price !== undefined) return price;
+  return age < 3 ? 0 : adult;
 }
 
 /**
- * Extract age range from text
- * @param text Text containing age information
- * @returns Object with min and max age
+ * Cheapest entry an adult can buy (CZK); used by the price filter
+ * Falls back to any other entry ticket when no adult price is listed
+ * @returns 0 for free entry, undefined when the price is unknown
  */
-export function extractAgeRange(text: string): { ageMin?: number; ageMax?: number } {
-  const result: { ageMin?: number; ageMax?: number } = {};
+export function entryPrice(tiers: PriceTier[]): number | undefined {
+  const adult = visitorPrice(tiers, 'adult');
+  if (adult !== undefined) return adult;
 
-  if (!text) return result;
+  const entry = tiers.filter((tier) => !tier.withEntry);
+  return entry.length > 0 ? Math.min(...entry.map(tierAmountCzk)) : undefined;
+}
 
-  // Patterns like "3-6 let", "od 5 let", "do 12 let"
-  const rangeMatch = text.match(/(\d+)\s*[-–]\s*(\d+)\s*let/i);
-  if (rangeMatch) {
-    result.ageMin = parseInt(rangeMatch[1], 10);
-    result.ageMax = parseInt(rangeMatch[2], 10);
-    return result;
-  }
+/**
+ * Extract adult and child prices from text
+ * @param text Text containing price information
+ * @returns Object with adult and child prices
+ */
+export function extractPrices(text: string): {
+  adultPrice?: number;
+  childPrice?: number;
+  familyPrice?: number;
+} {
+  return summarizePriceTiers(parsePriceTiers(text));
+}
 
-  const fromMatch = text.match(/od\s+(\d+)\s*let/i);
-  if (fromMatch) {
-    result.ageMin = parseInt(fromMatch[1], 10);
-  }
+// Family tickets ("rodinné vstupné") usually cover 2 adults and 2 children
+export const FAMILY_TICKET_ADULTS = 2;
+export const FAMILY_TICKET_CHILDREN = 2;
 
-  const toMatch = text.match(/do\s+(\d+)\s*let/i);
-  if (toMatch) {
-    result.ageMax = parseInt(toMatch[1], 10);
-  }
+// Family assumed for users without a profile, and for price scoring
+export const DEFAULT_FAMILY: FamilyProfile = { adults: 2, childAges: [9, 1.5] };
 
-  return result;
+/**
+ * Sum of the prices left after the most expensive ones are covered
+ */
+function uncoveredTotal(prices: number[], covered: number): number {
+  return [...prices]
+    .sort((a, b) => b - a)
+    .slice(covered)
+    .reduce((total, price) => total + price, 0);
 }
 
 /**
- * Calculate the best price for a family (2 adults + 1 child 9yo + 1 toddler 1.5yo)
- * @param adultPrice Price per adult
- * @param childPrice Price per child
- * @param familyPrice Family package price
- * @returns Best price and type
+ * What an outing costs a family (CZK)
+ * Prices each member by age from the ticket tiers (toddlers without a ticket of
+ * their own go free), then uses a family ticket when that is cheaper. A family
+ * ticket covers the most expensive FAMILY_TICKET_ADULTS adults and
+ * FAMILY_TICKET_CHILDREN children; anyone else buys an individual ticket.
+ * Members without a listed price (adults when only child tiers are listed) must
+ * be covered by the family ticket, otherwise the cost is unknown.
+ * @param prices Ticket tiers, or plain adult / child / family prices when no tiers were parsed
+ * @param family Adults and children's ages
+ * @returns Cost, or null when the prices are unknown for any member of the family
  */
-export function calculateFamilyPrice(
-  adultPrice?: number,
-  childPrice?: number,
-  familyPrice?: number
-): { total: number; type: 'individual' | 'family'; savings?: number } {
-  // Assume toddler under 3 is free
-  const individualTotal = (adultPrice || 0) * 2 + (childPrice || 0) * 1;
+export function calculateFamilyCost(
+  prices: {
+    adultPrice?: number | null;
+    childPrice?: number | null;
+    familyPrice?: number | null;
+    priceTiers?: PriceTier[] | null;
+  },
+  family: FamilyProfile
+): FamilyCost | null {
+  const tiers = prices.priceTiers?.length ? prices.priceTiers : priceTiersFromPrices(prices);
 
-  if (familyPrice && familyPrice < individualTotal) {
-    return {
-      total: familyPrice,
-      type: 'family',
-      savings: individualTotal - familyPrice,
-    };
+  // No tickets, or only extras on top of an entry of unknown price
+  if (!tiers.some((tier) => !tier.withEntry)) {
+    return null;
   }
 
-  return {
-    total: individualTotal,
-    type: 'individual',
-  };
+  const adultPrice = visitorPrice(tiers, 'adult');
+  const childPrices = family.childAges.map((age) => visitorPrice(tiers, age));
+  const familyPrices = tiers.filter((tier) => tier.label === 'family' && !tier.withEntry).map(tierAmountCzk);
+
+  const known = (price: number | undefined): price is number => price !== undefined;
+  const adults: number[] = adultPrice === undefined ? [] : Array(family.adults).fill(adultPrice);
+  const children = childPrices.filter(known);
+  const unpricedAdults = family.adults - adults.length;
+  const unpricedChildren = childPrices.length - children.length;
+  const individual = [...adults, ...children].reduce((total, price) => total + price, 0);
+  const freeEntries = (adultPrice === 0 ? family.adults : 0) + childPrices.filter((price) => price === 0).length;
+
+  // The family ticket covers the unpriced members first, then the most expensive ones
+  const coversUnpriced = unpricedAdults <= FAMILY_TICKET_ADULTS && unpricedChildren <= FAMILY_TICKET_CHILDREN;
+  const withFamilyTicket = coversUnpriced
+    ? Math.min(
+        ...familyPrices.map(
+          (price) =>
+            price +
+            uncoveredTotal(adults, FAMILY_TICKET_ADULTS - unpricedAdults) +
+            uncoveredTotal(children, FAMILY_TICKET_CHILDREN - unpricedChildren)
+        )
+      )
+    : Infinity;
+
+  // Individual prices missing for part of the family: only a family ticket gives a total
+  if (unpricedAdults > 0 || unpricedChildren > 0) {
+    return withFamilyTicket < Infinity ? { total: withFamilyTicket, tickets: 'family', freeEntries } : null;
+  }
+
+  if (withFamilyTicket < individual) {
+    return { total: withFamilyTicket, tickets: 'family', savings: individual - withFamilyTicket, freeEntries };
+  }
+
+  return { total: individual, tickets: 'individual', freeEntries };
 }
@@ -0,0 +1,140 @@
+/**
+ * Puppeteer Helper - local headless browser rendering
+ * Renders JavaScript-heavy pages without an external API; used directly by
+ * scrapers that select it and as the fallback when Firecrawl is unavailable
+ */
+
+import puppeteer, { Browser, Page } from 'puppeteer';
+import { acquireHostToken } from './rateLimiter';
+import { DEFAULT_HEADERS, Fetcher } from './fetcher';
+import { RenderOptions } from '../types';
+
+// Not needed for scraping, skipping them makes rendering much faster
+const BLOCKED_RESOURCES = ['image', 'font', 'media'];
+// How long to wait for new content after each scroll step
+const SCROLL_SETTLE_MS = 1000;
+// Runs in the page: scroll to the bottom and report the document height
+const SCROLL_SCRIPT = 'window.scrollTo(0, document.body.scrollHeight); document.body.scrollHeight';
+
+let browserPromise: Promise<Browser> | null = null;
+
+/**
+ * Get the shared browser, launching it on first use
+ */
+function getBrowser(): Promise<Browser> {
+  if (!browserPromise) {
+    browserPromise = puppeteer.launch({
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage'],
+    });
+    browserPromise.catch(() => {
+      browserPromise = null;
+    });
+  }
+  return browserPromise;
+}
+
+/**
+ * Close the shared browser (call when a scrape run is done)
+ */
+export async function closeBrowser(): Promise<void> {
+  if (!browserPromise) return;
+
+  const pending = browserPromise;
+  browserPromise = null;
+  try {
+    const browser = await pending;
+    await browser.close();
+  } catch (error: any) {
+    console.error(`[Puppeteer] Error closing browser:`, error.message);
+  }
+}
+
+/**
+ * Scroll to the bottom step by step so lazy-loaded (AJAX) content gets loaded
+ * Stops early once the page stops growing
+ * @param page Page to scroll
+ * @param steps Maximum number of scroll steps
+ */
+async function scrollPage(page: Page, steps: number): Promise<void> {
+  let previousHeight = 0;
+
+  for (let step = 0; step < steps; step++) {
+    const height = (await page.evaluate(SCROLL_SCRIPT)) as number;
+    if (height === previousHeight) break;
+
+    previousHeight = height;
+    await new Promise((resolve) => setTimeout(resolve, SCROLL_SETTLE_MS));
+  }
+}
+
+/**
+ * Render a URL in headless Chrome and return the resulting HTML
+ * Images, fonts and media are blocked
+ * @param url - The URL to render
+ * @param options - Optional rendering options (waitFor, timeout, waitForSelector, scroll)
+ * @returns HTML content
+ * @throws When the browser can't be launched or the page fails to load
+ */
+export async function renderWithPuppeteer(url: string, options: RenderOptions = {}): Promise<string> {
+  await acquireHostToken(url);
+  console.log(`[Puppeteer] Rendering: ${url}`);
+
+  const browser = await getBrowser();
+  const page = await browser.newPage();
+  const timeout = options.timeout || 30000;
+
+  try {
+    await page.setUserAgent(DEFAULT_HEADERS['User-Agent']);
+    await page.setExtraHTTPHeaders({ 'Accept-Language': DEFAULT_HEADERS['Accept-Language'] });
+    await page.setRequestInterception(true);
+    page.on('request', (request) => {
+      if (BLOCKED_RESOURCES.includes(request.resourceType())) {
+        request.abort();
+      } else {
+        request.continue();
+      }
+    });
+
+    await page.goto(url, { waitUntil: 'networkidle2', timeout });
+
+    if (options.waitForSelector) {
+      try {
+        await page.waitForSelector(options.waitForSelector, { timeout });
+      } catch (error) {
+        // Render what is there - the scraper reports missing items itself
+        console.warn(`[Puppeteer] Selector "${options.waitForSelector}" not found on ${url}`);
+      }
+    }
+
+    if (options.scroll) {
+      await scrollPage(page, options.scroll);
+    }
+
+    if (options.waitFor) {
+      await new Promise((resolve) => setTimeout(resolve, options.waitFor));
+    }
+
+    const html = await page.content();
+    console.log(`[Puppeteer] Rendered ${url} (${html.length} chars)`);
+    return html;
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Headless browser backend for the fetch layer
+ */
+export const puppeteerFetcher: Fetcher = {
+  name: 'puppeteer',
+  fetch: async (request) => {
+    const html = await renderWithPuppeteer(request.url, {
+      waitFor: request.waitFor,
+      timeout: request.timeout,
+      waitForSelector: request.waitForSelector,
+      scroll: request.scroll,
+    });
+    return { status: 200, body: html };
+  },
+};
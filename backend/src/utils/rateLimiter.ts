@@ -0,0 +1,87 @@
+/**
+ * Per-host token bucket rate limiter
+ * Shared by every outgoing scraper request (axios and Firecrawl), so scrapers
+ * running concurrently stay polite towards each site
+ */
+
+import { delay } from './scraperHelper';
+
+/**
+ * Token bucket settings for a host
+ * - ratePerSecond: tokens refilled per second (Infinity disables limiting)
+ * - burst: bucket capacity, i.e. requests allowed back to back
+ */
+export interface HostLimit {
+  ratePerSecond: number;
+  burst: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+let defaultLimit: HostLimit = {
+  ratePerSecond: parseFloat(process.env.SCRAPER_HOST_RPS || '0.5'),
+  burst: parseInt(process.env.SCRAPER_HOST_BURST || '2'),
+};
+
+const hostLimits = new Map<string, HostLimit>();
+const buckets = new Map<string, Bucket>();
+
+/**
+ * Host key of a URL (or a bare host name)
+ */
+function hostOf(urlOrHost: string): string {
+  try {
+    return new URL(urlOrHost).host;
+  } catch (error) {
+    return urlOrHost;
+  }
+}
+
+/**
+ * Override the limit for one host
+ */
+export function setHostLimit(host: string, limit: HostLimit): void {
+  hostLimits.set(hostOf(host), limit);
+}
+
+/**
+ * Change the limit used for hosts without an override
+ */
+export function setDefaultHostLimit(limit: HostLimit): void {
+  defaultLimit = limit;
+}
+
+/**
+ * Wait for a request token for the URL's host
+ * Tokens are taken before waiting (the bucket may go negative), so concurrent
+ * callers queue up in order instead of bursting when the bucket refills
+ * @param url URL about to be requested
+ */
+export async function acquireHostToken(url: string): Promise<void> {
+  const host = hostOf(url);
+  const limit = hostLimits.get(host) || defaultLimit;
+  if (!isFinite(limit.ratePerSecond) || limit.ratePerSecond <= 0) return;
+
+  const now = Date.now();
+  const bucket = buckets.get(host) || { tokens: limit.burst, updatedAt: now };
+
+  bucket.tokens = Math.min(limit.burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.ratePerSecond);
+  bucket.updatedAt = now;
+  bucket.tokens -= 1;
+  buckets.set(host, bucket);
+
+  if (bucket.tokens < 0) {
+    await delay((-bucket.tokens / limit.ratePerSecond) * 1000);
+  }
+}
+
+/**
+ * Forget bucket state and host overrides
+ */
+export function resetHostLimits(): void {
+  buckets.clear();
+  hostLimits.clear();
+}
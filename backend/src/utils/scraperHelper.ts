@@ -10,8 +10,15 @@ import * as path from 'path';
 
 /**
  * Fetch HTML and save to file for inspection
+ * @param url URL to fetch
+ * @param filename File name to save as
+ * @param htmlDir Target directory (default: debug-html/)
  */
-export async function fetchAndSaveHTML(url: string, filename: string): Promise<string> {
+export async function fetchAndSaveHTML(
+  url: string,
+  filename: string,
+  htmlDir: string = path.join(__dirname, '../../debug-html')
+): Promise<string> {
   try {
     const response = await axios.get(url, {
       headers: {
@@ -20,7 +27,6 @@ export async function fetchAndSaveHTML(url: string, filename: string): Promise<s
       timeout: 30000,
     });
 
-    const htmlDir = path.join(__dirname, '../../debug-html');
     if (!fs.existsSync(htmlDir)) {
       fs.mkdirSync(htmlDir, { recursive: true });
     }
@@ -149,24 +155,30 @@ export function cleanText(text: string): string {
     .trim();
 }
 
+const CANCELLED_PATTERN = /(^|[^\p{L}])(zrušen[oaáý]|cancell?ed)(?!\p{L})/giu;
+const NEGATIONS = new Set([
+  'ne', 'nebude', 'nebudou', 'není', 'nejsou', 'nebyl', 'nebyla', 'nebylo', 'nebyly', 'nikdy',
+  'not', "won't", "isn't", "aren't", "wasn't", "weren't", "hasn't", "haven't", 'never',
+]);
+
+/**
+ * Check whether source text announces a cancellation ("zrušeno", "cancelled")
+ * Nouns like "zrušení" (cancellation policy) or "cancellation" don't count, nor
+ * does negated wording ("nebude zrušena", "won't be cancelled")
+ */
+export function isCancelledText(text: string | undefined): boolean {
+  if (!text) return false;
+  for (const match of text.matchAll(CANCELLED_PATTERN)) {
+    if (!isNegated(text.slice(0, match.index! + match[1].length))) return true;
+  }
+  return false;
+}
+
 /**
- * Determine category from Czech text
+ * Whether one of the last three words before a match (within its clause) negates it
  */
-export function determineCategoryFromText(text: string): string {
-  const lower = text.toLowerCase();
-
-  if (lower.includes('muzeum') || lower.includes('museum')) return 'museum';
-  if (lower.includes('divadlo') || lower.includes('theater') || lower.includes('představení')) return 'theater';
-  if (lower.includes('workshop') || lower.includes('dílna')) return 'workshop';
-  if (lower.includes('park') || lower.includes('venku') || lower.includes('outdoor')) return 'outdoor';
-  if (lower.includes('sport') || lower.includes('běh') || lower.includes('fotbal')) return 'sport';
-  if (lower.includes('hřiště') || lower.includes('playground')) return 'playground';
-  if (lower.includes('výstava') || lower.includes('exhibition')) return 'exhibition';
-  if (lower.includes('koncert') || lower.includes('concert') || lower.includes('hudba')) return 'concert';
-  if (lower.includes('festival')) return 'festival';
-  if (lower.includes('vzdělávání') || lower.includes('educational') || lower.includes('kurz')) return 'educational';
-  if (lower.includes('zoo') || lower.includes('zvířata')) return 'zoo';
-  if (lower.includes('aquapark') || lower.includes('bazén') || lower.includes('plavání')) return 'aquapark';
-
-  return 'other';
+function isNegated(before: string): boolean {
+  const clause = before.split(/[.,;:!?()\n]/).pop() || '';
+  const words = clause.toLowerCase().replace(/’/g, "'").split(/[^\p{L}']+/u).filter(Boolean);
+  return words.slice(-3).some((word) => NEGATIONS.has(word));
 }
@@ -0,0 +1,47 @@
+/**
+ * Indoor/outdoor setting of events and places
+ * Inferred from the category tags (explicit "venku"/"v sále" keywords first,
+ * then what the categories usually are) and, when the text says nothing, from
+ * the venue's facilities. Unknown stays unknown instead of defaulting to indoor.
+ */
+
+import { EventCategory, Setting } from '../types';
+import { categoryDefinition } from './categories';
+
+/**
+ * Setting from indoor and outdoor evidence
+ */
+export function combineSetting(indoor: boolean, outdoor: boolean): Setting {
+  if (indoor && outdoor) return 'mixed';
+  if (indoor) return 'indoor';
+  if (outdoor) return 'outdoor';
+  return 'unknown';
+}
+
+/**
+ * Infer the setting of an event or place
+ * @example inferSetting(['theater', 'puppets']) // 'indoor'
+ * @param tags Category tags (see classifyCategories)
+ * @param text Title and description, checked for outdoorKeywords
+ * @param outdoorKeywords Source-specific keywords marking an outdoor event
+ */
+export function inferSetting(tags: string[], text = '', outdoorKeywords: string[] = []): Setting {
+  const lowerText = text.toLowerCase();
+  const explicit = combineSetting(
+    tags.includes(EventCategory.INDOOR),
+    tags.includes(EventCategory.OUTDOOR) || outdoorKeywords.some((keyword) => lowerText.includes(keyword))
+  );
+  if (explicit !== 'unknown') return explicit;
+
+  const usual = tags.map((tag) => categoryDefinition(tag)?.usualSetting);
+  return combineSetting(usual.includes('indoor'), usual.includes('outdoor'));
+}
+
+/**
+ * Setting of two sources describing the same event; indoor and outdoor make mixed
+ */
+export function mergeSettings(a?: Setting, b?: Setting): Setting {
+  if (!a || a === 'unknown') return b || 'unknown';
+  if (!b || b === 'unknown' || a === b) return a;
+  return 'mixed';
+}
@@ -0,0 +1,123 @@
+/**
+ * Europe/Prague wall-clock time
+ * Scraped dates and times are Prague local time whatever timezone the server
+ * runs in; these helpers convert between Prague wall-clock fields and instants,
+ * daylight saving time included.
+ */
+
+export const PRAGUE_TIMEZONE = 'Europe/Prague';
+
+/**
+ * Date and time as shown on a clock in Prague
+ * - month: 1-12
+ * - weekday: 0 = Sunday
+ */
+export interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: PRAGUE_TIMEZONE,
+  hourCycle: 'h23',
+  weekday: 'short',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric',
+});
+
+/**
+ * Prague wall-clock time of an instant
+ */
+export function pragueWallClock(date: Date): WallClock {
+  const parts: { [type: string]: string } = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hours: parseInt(parts.hour, 10),
+    minutes: parseInt(parts.minute, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Offset of Prague from UTC at an instant, in milliseconds (whole hours)
+ */
+function pragueOffset(time: number): number {
+  const minute = time - (time % 60000);
+  const clock = pragueWallClock(new Date(minute));
+  return Date.UTC(clock.year, clock.month - 1, clock.day, clock.hours, clock.minutes) - minute;
+}
+
+/**
+ * Instant of a Prague wall-clock time
+ * Times skipped when clocks go forward resolve to the hour after.
+ * @example pragueTime(2025, 7, 1, 10, 0) // 2025-07-01T08:00:00.000Z
+ * @param month 1-12
+ */
+export function pragueTime(year: number, month: number, day: number, hours = 0, minutes = 0): Date {
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes);
+  const offset = pragueOffset(asUtc - pragueOffset(asUtc));
+  return new Date(asUtc - offset);
+}
+
+/**
+ * Midnight in Prague starting the Prague day of an instant
+ */
+export function pragueDayStart(date: Date): Date {
+  const clock = pragueWallClock(date);
+  return pragueTime(clock.year, clock.month, clock.day);
+}
+
+/**
+ * Last millisecond of the Prague day of an instant
+ */
+export function pragueDayEnd(date: Date): Date {
+  return new Date(addPragueDays(pragueDayStart(date), 1).getTime() - 1);
+}
+
+/**
+ * Same Prague wall-clock time a number of days later (23 or 25 hours across DST changes)
+ */
+export function addPragueDays(date: Date, days: number): Date {
+  const clock = pragueWallClock(date);
+  return pragueTime(clock.year, clock.month, clock.day + days, clock.hours, clock.minutes);
+}
+
+/**
+ * The Prague day of an instant at a wall-clock time
+ */
+export function atPragueTime(date: Date, hours: number, minutes: number): Date {
+  const clock = pragueWallClock(date);
+  return pragueTime(clock.year, clock.month, clock.day, hours, minutes);
+}
+
+/**
+ * Prague day of an instant as "yyyy-MM-dd" (calendar keys)
+ */
+export function pragueDateKey(date: Date): string {
+  const clock = pragueWallClock(date);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${clock.year}-${pad(clock.month)}-${pad(clock.day)}`;
+}
+
+/**
+ * Whether two instants fall on the same Prague day
+ */
+export function isSamePragueDay(a: Date, b: Date): boolean {
+  return pragueDateKey(a) === pragueDateKey(b);
+}
@@ -0,0 +1,80 @@
+/**
+ * Age range extraction and age scoring tests
+ */
+
+import { extractAgeRange } from '../src/utils/ageParser';
+import { scoreEvent } from '../src/services/scoring';
+import { AgeGroup, GeocodedEvent } from '../src/types';
+
+describe('extractAgeRange', () => {
+  it.each([
+    ['3–6 let', { ageMin: 3, ageMax: 6, confidence: 1 }],
+    ['děti 3 až 6 let', { ageMin: 3, ageMax: 6, confidence: 1 }],
+    ['od 3 do 6 let', { ageMin: 3, ageMax: 6, confidence: 1 }],
+    ['6-18 měsíců', { ageMin: 0.5, ageMax: 1.5, confidence: 1 }],
+    ['od 18 měsíců do 3 let', { ageMin: 1.5, ageMax: 3, confidence: 1 }],
+    ['18 měsíců - 3 roky', { ageMin: 1.5, ageMax: 3, confidence: 1 }],
+  ])('reads the range in "%s"', (text, expected) => {
+    expect(extractAgeRange(text)).toEqual(expected);
+  });
+
+  it.each([
+    ['Pro děti od 18 měsíců', { ageMin: 1.5, confidence: 0.9 }],
+    ['pro děti od 5 let, max do 12 let', { ageMin: 5, ageMax: 12, confidence: 0.9 }],
+    ['6+', { ageMin: 6, confidence: 0.9 }],
+    ['1,5 roku+', { ageMin: 1.5, confidence: 0.9 }],
+    ['6 let a starší', { ageMin: 6, confidence: 0.9 }],
+  ])('reads the bounds in "%s"', (text, expected) => {
+    expect(extractAgeRange(text)).toEqual(expected);
+  });
+
+  it.each([
+    ['1. stupeň ZŠ', { ageMin: 6, ageMax: 11, confidence: 0.8 }],
+    ['1.–5. třída', { ageMin: 6, ageMax: 11, confidence: 0.8 }],
+    ['3. třída', { ageMin: 8, ageMax: 9, confidence: 0.8 }],
+  ])('reads school grades in "%s"', (text, expected) => {
+    expect(extractAgeRange(text)).toEqual(expected);
+  });
+
+  it.each([
+    ['batolata', { ageMin: 1, ageMax: 3, confidence: 0.6 }],
+    ['pro předškoláky', { ageMin: 3, ageMax: 6, confidence: 0.6 }],
+    ['miminka a batolata', { ageMin: 0, ageMax: 3, confidence: 0.6 }],
+    ['pro školáky', { ageMin: 6, ageMax: 15, confidence: 0.6 }],
+    ['teenageři', { ageMin: 13, ageMax: 18, confidence: 0.6 }],
+  ])('reads audience words in "%s"', (text, expected) => {
+    expect(extractAgeRange(text)).toEqual(expected);
+  });
+
+  it.each(['rodinné 2+2', 'Vstupné 120 Kč', 'od 10:00 do 12:00', ''])('finds no ages in "%s"', (text) => {
+    expect(extractAgeRange(text)).toEqual({ confidence: 0 });
+  });
+});
+
+describe('age scoring', () => {
+  const event = (fields: Partial<GeocodedEvent>): GeocodedEvent => ({
+    externalId: 'test-1',
+    source: 'test',
+    title: 'Dílna',
+    startDateTime: new Date(2025, 10, 8, 10),
+    ...fields,
+  });
+  const ageScore = (fields: Partial<GeocodedEvent>, ageGroup = AgeGroup.TODDLER) =>
+    scoreEvent(event(fields), ageGroup).factors.ageAppropriatenessScore;
+
+  it('scores ranges starting at 0 as age ranges', () => {
+    expect(ageScore({ ageMin: 0, ageMax: 3 })).toBe(35);
+    expect(ageScore({})).toBe(5);
+  });
+
+  it('scores fractional ages', () => {
+    expect(ageScore({ ageMin: 1.5, ageMax: 3 })).toBe(35);
+    expect(ageScore({ ageMin: 2.5 })).toBe(20);
+  });
+
+  it('weighs guessed ages by their confidence', () => {
+    expect(ageScore({ ageMin: 1, ageMax: 3, ageConfidence: 1 })).toBe(35);
+    expect(ageScore({ ageMin: 1, ageMax: 3, ageConfidence: 0.6 })).toBe(23);
+    expect(ageScore({ ageMin: 6, ageMax: 15, ageConfidence: 0.6 }, AgeGroup.CHILD)).toBe(27);
+  });
+});
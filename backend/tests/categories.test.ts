@@ -0,0 +1,61 @@
+/**
+ * Category taxonomy and classification tests
+ */
+
+import { CATEGORIES, CATEGORY_RULES, classifyCategories, scoreCategories } from '../src/utils/categories';
+import { getPlaceholderImage } from '../src/utils/placeholderImages';
+import { EventCategory } from '../src/types';
+
+describe('category taxonomy', () => {
+  it('has labels for every category and rules only for known categories', () => {
+    expect(CATEGORIES.map((definition) => definition.id).sort()).toEqual(Object.values(EventCategory).sort());
+    for (const rule of CATEGORY_RULES) {
+      expect(CATEGORIES.some((definition) => definition.id === rule.category)).toBe(true);
+    }
+  });
+
+  it('gives every category its own placeholder image', () => {
+    const seeds = CATEGORIES.map((definition) => definition.imageSeed);
+    expect(new Set(seeds).size).toBe(seeds.length);
+    expect(getPlaceholderImage('zoo')).toBe('https://picsum.photos/seed/111/800/600');
+    expect(getPlaceholderImage('Theater')).toBe('https://picsum.photos/seed/102/800/600');
+    expect(getPlaceholderImage('unknown')).toBe('https://picsum.photos/seed/100/800/600');
+    expect(getPlaceholderImage()).toBe('https://picsum.photos/seed/100/800/600');
+  });
+});
+
+describe('classifyCategories', () => {
+  it.each([
+    ['Loutkové divadlo v sále', 'theater', ['theater', 'puppets', 'indoor']],
+    ['Spejbl a Hurvínek: loutkové představení', 'puppets', ['puppets', 'theater']],
+    ['Dinosauři v Národním muzeu, interaktivní výstava', 'museum', ['museum', 'exhibition']],
+    ['Dětská herna Hopsárium', 'playground', ['playground', 'indoor']],
+    ['Plavání pro batolata v krytém bazénu', 'aquapark', ['aquapark', 'indoor']],
+    ['Drakiáda na Letné', 'outdoor', ['outdoor']],
+    ['Zoo Praha', 'zoo', ['zoo']],
+  ])('"%s" is %s', (text, category, tags) => {
+    expect(classifyCategories(text)).toEqual({ category, tags });
+  });
+
+  it('prefers an activity over the setting as the main category', () => {
+    expect(classifyCategories('Podzimní tvoření v zahradě, venku v přírodě')).toEqual({
+      category: 'workshop',
+      tags: ['outdoor', 'workshop'],
+    });
+  });
+
+  it('matches keywords at the start of words only', () => {
+    expect(classifyCategories('Aquapark Čestlice').tags).toEqual(['aquapark']);
+    expect(classifyCategories('Během odpoledne herní koutek')).toEqual({ category: 'other', tags: [] });
+  });
+
+  it('cancels keywords with negative weights', () => {
+    expect(scoreCategories('Parkoviště u divadla').has(EventCategory.OUTDOOR)).toBe(false);
+    expect(scoreCategories('Výstaviště Holešovice').has(EventCategory.EXHIBITION)).toBe(false);
+  });
+
+  it('needs more than a weak keyword for a tag', () => {
+    expect(scoreCategories('Pohádka').get(EventCategory.THEATER)).toBe(1);
+    expect(classifyCategories('Pohádka')).toEqual({ category: 'other', tags: [] });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Czech date parsing tests: natural-language dates, ranges and recurrence rules
+ */
+
+import { combineDateAndTime, parseCzechDateRange, parseCzechDateText, parseRecurrence } from '../src/utils/dateParser';
+import { pragueWallClock } from '../src/utils/timezone';
+
+function day(date: Date | undefined): string | undefined {
+  return date && `${date.getDate()}.${date.getMonth() + 1}.${date.getFullYear()}`;
+}
+
+/**
+ * Prague wall-clock time of an instant, "2025-10-18 10:00"
+ */
+function prague(date: Date | null | undefined): string | undefined {
+  if (!date) return undefined;
+  const clock = pragueWallClock(date);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${clock.year}-${pad(clock.month)}-${pad(clock.day)} ${pad(clock.hours)}:${pad(clock.minutes)}`;
+}
+
+// Wednesday 15. 10. 2025, noon in Prague
+const NOW = new Date('2025-10-15T10:00:00Z');
+
+describe('parseCzechDateText', () => {
+  describe.each([
+    // Single dates
+    ['18. 10. 2025', '2025-10-18 10:00', undefined, true, 1],
+    ['18.10.2025 14:30', '2025-10-18 14:30', undefined, false, 1],
+    ['2025-10-18', '2025-10-18 10:00', undefined, true, 1],
+    ['2025-10-18T14:00:00', '2025-10-18 14:00', undefined, false, 1],
+    ['2025-10-18T14:00:00Z', '2025-10-18 16:00', undefined, false, 1],
+    ['sobota 25. října 2025 v 15:00', '2025-10-25 15:00', undefined, false, 1],
+    ['18. října 2026', '2026-10-18 10:00', undefined, true, 1],
+    ['so 1.11. 14:00', '2025-11-01 14:00', undefined, false, 0.9],
+    // Dates without year: in the coming months, recent past dates stay in this year
+    ['18. 10.', '2025-10-18 10:00', undefined, true, 0.9],
+    ['18. října', '2025-10-18 10:00', undefined, true, 0.9],
+    ['1. 9.', '2025-09-01 10:00', undefined, true, 0.9],
+    ['5. 1.', '2026-01-05 10:00', undefined, true, 0.9],
+    // Date ranges
+    ['27. 10.–29. 10.', '2025-10-27 10:00', '2025-10-29 10:00', true, 0.9],
+    ['27. 10. - 29. 10.', '2025-10-27 10:00', '2025-10-29 10:00', true, 0.9],
+    ['27.–29. 10. 2025', '2025-10-27 10:00', '2025-10-29 10:00', true, 1],
+    ['od 1. do 15. listopadu', '2025-11-01 10:00', '2025-11-15 10:00', true, 0.9],
+    ['od 1.3.2025 do 31.12.2025', '2025-03-01 10:00', '2025-12-31 10:00', true, 1],
+    ['1. 11. – 31. 1. 2026', '2025-11-01 10:00', '2026-01-31 10:00', true, 1],
+    ['20. 12.–6. 1.', '2025-12-20 10:00', '2026-01-06 10:00', true, 0.9],
+    ['1. až 3. prosince 2025', '2025-12-01 10:00', '2025-12-03 10:00', true, 1],
+    // Times and time ranges
+    ['18. 10. 2025 10:00–12:00', '2025-10-18 10:00', '2025-10-18 12:00', false, 1],
+    ['18. 10. 2025 10.00 - 12.00', '2025-10-18 10:00', '2025-10-18 12:00', false, 1],
+    ['18. 10. 2025 od 9:30 do 11:00', '2025-10-18 09:30', '2025-10-18 11:00', false, 1],
+    ['1. 11. 2025 10:00 – 2. 11. 2025 18:00', '2025-11-01 10:00', '2025-11-02 18:00', false, 1],
+    ['1.–2. 11. 2025 10:00–18:00', '2025-11-01 10:00', '2025-11-02 18:00', false, 1],
+    // Relative days
+    ['dnes', '2025-10-15 10:00', undefined, true, 0.8],
+    ['zítra v 16:00', '2025-10-16 16:00', undefined, false, 0.8],
+    ['pozítří', '2025-10-17 10:00', undefined, true, 0.8],
+    ['v sobotu', '2025-10-18 10:00', undefined, true, 0.7],
+    ['ve středu 17:00', '2025-10-15 17:00', undefined, false, 0.7],
+    ['o víkendu', '2025-10-18 10:00', '2025-10-19 10:00', true, 0.7],
+    // Schedules without a date start on their next day
+    ['každou sobotu v 10:00', '2025-10-18 10:00', undefined, false, 0.6],
+    ['každou sobotu v 10:00 do 31. 12.', '2025-10-18 10:00', undefined, false, 0.6],
+    ['o sobotách a nedělích', '2025-10-18 10:00', undefined, true, 0.6],
+    ['denně do 6. 1.', '2025-10-15 10:00', undefined, true, 0.6],
+  ])('"%s"', (text, start, end, allDay, confidence) => {
+    const parsed = parseCzechDateText(text, { now: NOW });
+
+    it(`starts ${start}${end ? ` and ends ${end}` : ''}`, () => {
+      expect([prague(parsed?.start), prague(parsed?.end)]).toEqual([start, end]);
+    });
+
+    it(`is ${allDay ? '' : 'not '}all day with confidence ${confidence}`, () => {
+      expect([parsed?.allDay, parsed?.confidence]).toEqual([allDay, confidence]);
+    });
+  });
+
+  it.each(['', 'Vstupné 120 Kč', '31. 2. 2025', 'do 6. 1.', '14:00', 'Od pondělí do soboty'])(
+    'returns null for "%s"',
+    (text) => {
+      expect(parseCzechDateText(text, { now: NOW })).toBeNull();
+    }
+  );
+
+  it('adds the schedule of recurring events', () => {
+    expect(parseCzechDateText('každou sobotu v 10:00 do 31. 12.', { now: NOW })?.recurrence).toEqual({
+      weekdays: [6],
+      time: { hours: 10, minutes: 0 },
+      until: new Date('2025-12-30T23:00:00Z'),
+    });
+    expect(parseCzechDateText('18. 10. 2025', { now: NOW })?.recurrence).toBeUndefined();
+  });
+
+  it.each([
+    ['25. 10. 2025 10:00', '2025-10-25T08:00:00.000Z'],
+    ['26. 10. 2025 10:00', '2025-10-26T09:00:00.000Z'],
+    ['28. 3. 2026 10:00', '2026-03-28T09:00:00.000Z'],
+    ['29. 3. 2026 10:00', '2026-03-29T08:00:00.000Z'],
+  ])('converts "%s" from Prague time across daylight saving changes', (text, instant) => {
+    expect(parseCzechDateText(text, { now: NOW })?.start.toISOString()).toBe(instant);
+  });
+});
+
+describe('combineDateAndTime', () => {
+  it('sets the time on the date', () => {
+    expect(prague(combineDateAndTime('1. 7. 2025', '14:30'))).toBe('2025-07-01 14:30');
+    expect(prague(combineDateAndTime('1. 12. 2025', '14:00 - 16:00'))).toBe('2025-12-01 14:00');
+    expect(prague(combineDateAndTime('1. 12. 2025'))).toBe('2025-12-01 10:00');
+  });
+});
+
+describe('parseCzechDateRange', () => {
+  beforeAll(() => {
+    jest.useFakeTimers({ now: new Date(2025, 9, 15, 12, 0) });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it.each([
+    ['27. 10.–29. 10.', '27.10.2025', '29.10.2025'],
+    ['27. 10. - 29. 10.', '27.10.2025', '29.10.2025'],
+    ['27.–29. 10. 2025', '27.10.2025', '29.10.2025'],
+    ['1. 10. – 31. 12. 2025', '1.10.2025', '31.12.2025'],
+    ['1. 11. 2025 – 31. 1. 2026', '1.11.2025', '31.1.2026'],
+    ['1. 11. – 31. 1. 2026', '1.11.2025', '31.1.2026'],
+    ['20. 12.–6. 1.', '20.12.2025', '6.1.2026'],
+  ])('reads "%s" as %s to %s', (text, start, end) => {
+    const range = parseCzechDateRange(text);
+    expect([day(range?.start), day(range?.end)]).toEqual([start, end]);
+  });
+
+  it.each([
+    ['18. 10. 2025', '18.10.2025'],
+    ['2025-10-18', '18.10.2025'],
+  ])('reads "%s" as a single date', (text, start) => {
+    const range = parseCzechDateRange(text);
+    expect([day(range?.start), range?.end]).toEqual([start, undefined]);
+  });
+
+  it('ends time ranges on the same day', () => {
+    const range = parseCzechDateRange('18. 10. 2025 14:00 - 16:00');
+    expect([prague(range?.start), prague(range?.end)]).toEqual(['2025-10-18 14:00', '2025-10-18 16:00']);
+  });
+});
+
+describe('parseRecurrence', () => {
+  it('reads weekdays, time and end of weekly schedules', () => {
+    const rule = parseRecurrence('Pohádky každou sobotu v 10:00 do 31. 12. 2025');
+    expect(rule).toEqual({ weekdays: [6], time: { hours: 10, minutes: 0 }, until: new Date(2025, 11, 31) });
+  });
+
+  it('reads several days', () => {
+    expect(parseRecurrence('Hrajeme o sobotách a nedělích od 9.30')).toEqual({
+      weekdays: [0, 6],
+      time: { hours: 9, minutes: 30 },
+    });
+    expect(parseRecurrence('Každé úterý, čtvrtek a pátek')?.weekdays).toEqual([2, 4, 5]);
+    expect(parseRecurrence('Dílny o víkendech od 14:00')).toEqual({
+      weekdays: [0, 6],
+      time: { hours: 14, minutes: 0 },
+    });
+  });
+
+  it('only treats "denně" as a schedule when it has an end', () => {
+    expect(parseRecurrence('Výstava otevřena denně do 6. 1. 2026')).toEqual({
+      weekdays: [],
+      until: new Date(2026, 0, 6),
+    });
+    expect(parseRecurrence('Pokladna otevřena denně 9-17')).toBeNull();
+  });
+
+  it('ignores texts without a schedule', () => {
+    expect(parseRecurrence('Od pondělí do soboty hlídání dětí')).toBeNull();
+    expect(parseRecurrence('Divadelní představení 18. 10.')).toBeNull();
+  });
+});
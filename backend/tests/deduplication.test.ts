@@ -0,0 +1,182 @@
+/**
+ * Event deduplication tests
+ */
+
+import {
+  blockingKeys,
+  calculateDuplicateScore,
+  crossDayCeiling,
+  dedupFeatures,
+  deduplicateEvents,
+  findDuplicateGroups,
+  mergeEvents,
+} from '../src/services/deduplication';
+import { pragueTime } from '../src/utils/timezone';
+import { RawEvent } from '../src/types';
+import { syntheticEvents } from './helpers/syntheticEvents';
+
+function event(fields: Partial<RawEvent> = {}): RawEvent {
+  return {
+    externalId: 'test-1',
+    source: 'goout',
+    title: 'Loutkové divadlo: Perníková chaloupka',
+    startDateTime: pragueTime(2025, 11, 8, 10),
+    locationName: 'Divadlo Minor',
+    adultPrice: 150,
+    ...fields,
+  };
+}
+
+describe('calculateDuplicateScore', () => {
+  it('scores the same event from two sources as a duplicate', () => {
+    const score = calculateDuplicateScore(
+      event(),
+      event({ source: 'kudyznudy', title: 'LOUTKOVÉ DIVADLO - Perníková chaloupka', startDateTime: pragueTime(2025, 11, 8, 10, 30) })
+    );
+    expect(score).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('does not score the same show on another day as a duplicate', () => {
+    expect(calculateDuplicateScore(event(), event({ startDateTime: pragueTime(2025, 11, 9, 10) }))).toBeLessThan(0.8);
+  });
+
+  it('leaves out features missing on either event', () => {
+    const withoutPrice = calculateDuplicateScore(event(), event({ adultPrice: undefined }));
+    expect(withoutPrice).toBe(1);
+  });
+
+  it('uses configured weights', () => {
+    const other = event({ adultPrice: 400 });
+    expect(calculateDuplicateScore(event(), other)).toBeLessThan(1);
+    expect(calculateDuplicateScore(event(), other, dedupFeatures({ price: 0 }))).toBe(1);
+  });
+
+  it('accepts custom features', () => {
+    const sameSource = { name: 'source', weight: 1, similarity: (a: RawEvent, b: RawEvent) => (a.source === b.source ? 1 : 0) };
+    expect(calculateDuplicateScore(event(), event({ source: 'kdykde' }), [sameSource])).toBe(0);
+  });
+});
+
+describe('crossDayCeiling', () => {
+  it('keeps events on different days below the default threshold', () => {
+    expect(crossDayCeiling(dedupFeatures())).toBeCloseTo(0.7);
+  });
+
+  it('lets custom features reach any score across days', () => {
+    const sameSource = { name: 'source', weight: 1, similarity: () => 1 };
+    expect(crossDayCeiling([sameSource])).toBe(1);
+  });
+});
+
+describe('blockingKeys', () => {
+  it('combines the Prague day with title and location words', () => {
+    expect(blockingKeys(event())).toEqual([
+      '2025-11-08|t:loutkove',
+      '2025-11-08|t:divadlo',
+      '2025-11-08|t:pernikova',
+      '2025-11-08|t:chaloupka',
+      '2025-11-08|l:divadlo',
+      '2025-11-08|l:minor',
+    ]);
+  });
+
+  it('blocks events without usable words on their day', () => {
+    expect(blockingKeys(event({ title: 'Pro děti', locationName: undefined }))).toEqual(['2025-11-08|*']);
+  });
+
+  it('leaves out the day when blocking across days', () => {
+    expect(blockingKeys(event({ locationName: undefined }), false)).toEqual([
+      't:loutkove',
+      't:divadlo',
+      't:pernikova',
+      't:chaloupka',
+    ]);
+  });
+});
+
+describe('deduplicateEvents', () => {
+  it('merges duplicates and keeps distinct events', () => {
+    const events = [
+      event(),
+      event({ externalId: 'other', title: 'Výtvarná dílna', locationName: 'DOX' }),
+      event({ source: 'kudyznudy', title: 'Loutkové divadlo: Perníková chaloupka (pro děti)' }),
+    ];
+
+    const deduplicated = deduplicateEvents(events);
+    expect(deduplicated).toHaveLength(2);
+    expect(deduplicated[0].source).toBe('goout,kudyznudy');
+    expect(findDuplicateGroups(events)).toEqual([[events[0], events[2]]]);
+  });
+
+  it('finds the same duplicates with blocking as comparing every pair', () => {
+    const events = syntheticEvents(400);
+    const blocked = findDuplicateGroups(events);
+    const pairwise = findDuplicateGroups(events, 0.8, { blocking: false });
+
+    expect(blocked.length).toBeGreaterThan(0);
+    expect(blocked).toEqual(pairwise);
+  });
+
+  it('compares events on different days when the weights let them match', () => {
+    // Without much weight on the date, the same show a day later is a duplicate
+    const features = dedupFeatures({ date: 0.05 });
+    const events = [event(), event({ source: 'kudyznudy', startDateTime: pragueTime(2025, 11, 9, 10) })];
+
+    expect(crossDayCeiling(features)).toBeGreaterThanOrEqual(0.8);
+    expect(findDuplicateGroups(events, 0.8, { features })).toEqual([events]);
+    expect(findDuplicateGroups(events)).toEqual([]);
+  });
+});
+
+describe('mergeEvents', () => {
+  const goout = event({
+    description: 'Klasická pohádka.',
+    adultPrice: 150,
+    ageMin: 3,
+    ageConfidence: 0.6,
+    imageUrl: 'https://goout.net/images/no-image.png',
+  });
+  const kudyznudy = event({
+    externalId: 'test-2',
+    source: 'kudyznudy',
+    description: 'Klasická pohádka o perníkové chaloupce pro celou rodinu.',
+    adultPrice: 120,
+    ageMin: 4,
+    ageMax: 8,
+    ageConfidence: 1,
+    imageUrl: 'https://www.kudyznudy.cz/files/chaloupka.jpg',
+  });
+
+  it('takes each field by the merge policy and records its source', () => {
+    const merged = mergeEvents(goout, kudyznudy, { goout: 0.9, kudyznudy: 0.6 });
+
+    expect(merged).toMatchObject({
+      description: kudyznudy.description,
+      adultPrice: 150,
+      ageMin: 4,
+      ageMax: 8,
+      imageUrl: kudyznudy.imageUrl,
+    });
+    expect(merged.provenance).toMatchObject({
+      description: 'kudyznudy',
+      prices: 'goout',
+      ages: 'kudyznudy',
+      image: 'kudyznudy',
+      dates: 'goout',
+    });
+  });
+
+  it('prefers the more accurate source', () => {
+    const merged = mergeEvents(goout, kudyznudy, { goout: 0.5, kudyznudy: 0.8 });
+    expect(merged.adultPrice).toBe(120);
+    expect(merged.provenance?.prices).toBe('kudyznudy');
+  });
+
+  it('keeps provenance when merging more sources', () => {
+    const kdykde = event({ externalId: 'test-3', source: 'kdykde', description: undefined, adultPrice: undefined });
+    const merged = mergeEvents(mergeEvents(goout, kudyznudy, { goout: 0.9 }), kdykde, { kdykde: 0.95 });
+
+    expect(merged.source).toBe('goout,kudyznudy,kdykde');
+    expect(merged.provenance).toMatchObject({ prices: 'goout', ages: 'kudyznudy', location: 'kdykde' });
+  });
+});
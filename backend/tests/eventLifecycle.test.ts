@@ -0,0 +1,109 @@
+/**
+ * Cancelled and vanished event detection tests
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { sweepableSources, updateEventPresence } from '../src/services/eventLifecycle';
+import { isCancelledText } from '../src/utils/scraperHelper';
+import { RawEvent, ScraperResult } from '../src/types';
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    event: { findMany: jest.fn(), updateMany: jest.fn() },
+    eventSource: { updateMany: jest.fn() },
+    eventRevision: { createMany: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  return { ...jest.requireActual('@prisma/client'), PrismaClient: jest.fn(() => client) };
+});
+
+function result(source: string, events: number, errors: string[] = []): ScraperResult {
+  const event = { title: 'Akce', startDateTime: new Date(), source, externalId: `${source}-1` } as RawEvent;
+  return { source, events: Array(events).fill(event), errors, executionTime: 100 };
+}
+
+describe('isCancelledText', () => {
+  it.each(['ZRUŠENO', 'Akce zrušena z důvodu nemoci', 'Koncert (zrušený)', 'Cancelled', 'Event canceled'])(
+    'matches "%s"',
+    (text) => {
+      expect(isCancelledText(text)).toBe(true);
+    }
+  );
+
+  it.each(['Zrušení rezervace do 24 hodin', 'Free cancellation', 'Divadlo pro nejmenší'])('ignores "%s"', (text) => {
+    expect(isCancelledText(text)).toBe(false);
+  });
+
+  it.each([
+    'Akce nebude zrušena ani při dešti',
+    'Představení není zrušeno, jen přesunuto',
+    'The show will not be cancelled',
+    'Don’t worry, it won’t be canceled in bad weather',
+    'Never cancelled due to weather',
+  ])('ignores negated "%s"', (text) => {
+    expect(isCancelledText(text)).toBe(false);
+  });
+
+  it('still matches a cancellation in another clause than the negation', () => {
+    expect(isCancelledText('Nebude to venku. Akce zrušena')).toBe(true);
+  });
+});
+
+describe('sweepableSources', () => {
+  it('only trusts error-free runs that returned events', () => {
+    const sources = sweepableSources([
+      result('Kudy z nudy', 12),
+      result('Praguest', 0),
+      result('Prague Zoo', 5, ['Failed to parse event: missing date']),
+      result('Národní muzeum', 3),
+    ]);
+
+    expect(sources).toEqual(['Kudy z nudy', 'Národní muzeum']);
+  });
+});
+
+describe('updateEventPresence', () => {
+  const prisma = new PrismaClient() as unknown as {
+    event: { findMany: jest.Mock; updateMany: jest.Mock };
+    eventSource: { updateMany: jest.Mock };
+  };
+  const NOW = new Date('2025-11-10T08:00:00Z');
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    prisma.event.findMany.mockReset().mockResolvedValue([]);
+    prisma.event.updateMany.mockReset().mockResolvedValue({ count: 1 });
+    prisma.eventSource.updateMany.mockReset().mockResolvedValue({ count: 0 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * updateMany calls that count a missed run
+   */
+  const missedSweeps = () =>
+    prisma.event.updateMany.mock.calls.filter(([args]) => args.data.missedRuns?.increment === 1);
+
+  it('counts one missed run for an event listed by two sweepable sources', async () => {
+    // A merged goout + kudyznudy event listed by neither this run
+    const counts = await updateEventPresence([result('goout', 3), result('kudyznudy', 2)], 'run', NOW);
+
+    expect(missedSweeps()).toHaveLength(1);
+    const [[{ where }]] = missedSweeps();
+    expect(where.sources).toEqual({
+      some: { source: { in: ['goout', 'kudyznudy'] } },
+      none: { externalId: { in: ['goout-1', 'kudyznudy-1'] } },
+    });
+    expect(where).not.toHaveProperty('source');
+    expect(counts.missed).toBe(1);
+  });
+
+  it('counts no missed runs when no source is sweepable', async () => {
+    const counts = await updateEventPresence([result('goout', 0), result('kudyznudy', 2, ['HTTP 503'])], 'run', NOW);
+
+    expect(missedSweeps()).toHaveLength(0);
+    expect(counts.missed).toBe(0);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Event change detection and cross-run linking tests
+ */
+
+import { Event, PrismaClient } from '@prisma/client';
+import {
+  DuplicateCandidate,
+  diffEventFields,
+  findStoredDuplicate,
+  isCancelled,
+  joinSources,
+  mergedColumns,
+  reclassifyEvents,
+} from '../src/services/eventStore';
+import { eventListings, mergeEvents } from '../src/services/deduplication';
+import { RawEvent } from '../src/types';
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    event: { findMany: jest.fn(), update: jest.fn() },
+    eventRevision: { createMany: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  return { ...jest.requireActual('@prisma/client'), PrismaClient: jest.fn(() => client) };
+});
+
+const STORED = {
+  title: 'Drakiáda na Letné',
+  description: 'Pouštění draků',
+  startDateTime: new Date('2025-10-18T14:00:00Z'),
+  endDateTime: null,
+  adultPrice: 150,
+  childPrice: null,
+  locationName: 'Letenská pláň',
+  latitude: 50.1,
+  scoreFamily: 70,
+};
+
+describe('diffEventFields', () => {
+  it('reports nothing when the scraped data matches', () => {
+    expect(diffEventFields(STORED, { ...STORED, startDateTime: new Date('2025-10-18T14:00:00Z') })).toEqual([]);
+  });
+
+  it('records moved dates and price changes with their kind', () => {
+    const changes = diffEventFields(STORED, {
+      ...STORED,
+      startDateTime: new Date('2025-10-25T14:00:00Z'),
+      adultPrice: 200,
+      childPrice: 100,
+    });
+
+    expect(changes).toEqual([
+      {
+        field: 'startDateTime',
+        kind: 'date',
+        oldValue: new Date('2025-10-18T14:00:00Z'),
+        newValue: new Date('2025-10-25T14:00:00Z'),
+      },
+      { field: 'adultPrice', kind: 'price', oldValue: 150, newValue: 200 },
+      { field: 'childPrice', kind: 'price', oldValue: null, newValue: 100 },
+    ]);
+  });
+
+  it('treats undefined and null alike', () => {
+    expect(diffEventFields(STORED, { ...STORED, endDateTime: undefined, childPrice: undefined })).toEqual([]);
+  });
+
+  it('ignores derived columns such as coordinates and scores', () => {
+    expect(diffEventFields(STORED, { ...STORED, latitude: 50.2, scoreFamily: 40 })).toEqual([]);
+  });
+
+  it('compares ticket tiers by content, not key order', () => {
+    const stored = { ...STORED, priceTiers: [{ amount: 150, currency: 'CZK', label: 'adult' }] };
+
+    expect(diffEventFields(stored, { ...STORED, priceTiers: [{ label: 'adult', amount: 150, currency: 'CZK' }] })).toEqual([]);
+    expect(
+      diffEventFields(stored, { ...STORED, priceTiers: [{ label: 'adult', amount: 180, currency: 'CZK' }] }).map(
+        (c) => [c.field, c.kind]
+      )
+    ).toEqual([['priceTiers', 'price']]);
+  });
+
+  it('records status changes', () => {
+    expect(diffEventFields({ ...STORED, status: 'active' }, { ...STORED, status: 'cancelled' })).toEqual([
+      { field: 'status', kind: 'status', oldValue: 'active', newValue: 'cancelled' },
+    ]);
+  });
+
+  it('records edited descriptions and locations', () => {
+    const changes = diffEventFields(STORED, {
+      ...STORED,
+      description: 'Pouštění draků a opékání buřtů',
+      locationName: 'Ladronka',
+    });
+
+    expect(changes.map((c) => [c.field, c.kind])).toEqual([
+      ['locationName', 'location'],
+      ['description', 'description'],
+    ]);
+  });
+});
+
+describe('cross-run linking', () => {
+  const stored: DuplicateCandidate = {
+    id: 'event-1',
+    externalId: 'goout-123',
+    source: 'goout',
+    title: 'Drakiáda na Letné',
+    startDateTime: new Date('2025-10-18T14:00:00Z'),
+    locationName: 'Letenská pláň',
+    address: null,
+    adultPrice: null,
+    sources: [{ source: 'goout' }],
+  };
+  const listing: RawEvent = {
+    externalId: 'kudyznudy-456',
+    source: 'kudyznudy',
+    title: 'Drakiáda na Letné 2025',
+    startDateTime: new Date('2025-10-18T14:00:00Z'),
+    locationName: 'Letenská pláň, Praha 7',
+    bookingUrl: 'https://www.kudyznudy.cz/akce/drakiada',
+  };
+
+  it('links a listing from another source to the stored event', () => {
+    expect(findStoredDuplicate(listing, [stored])).toBe(stored);
+  });
+
+  it('does not link a listing to an event its source already lists', () => {
+    expect(findStoredDuplicate({ ...listing, source: 'goout' }, [stored])).toBeNull();
+  });
+
+  it('does not link different events', () => {
+    expect(findStoredDuplicate({ ...listing, title: 'Lampionový průvod' }, [stored])).toBeNull();
+  });
+
+  it('keeps every merged listing with its booking URL', () => {
+    const merged = mergeEvents({ ...listing, externalId: 'goout-123', source: 'goout', bookingUrl: undefined }, listing);
+
+    expect(eventListings(merged)).toEqual([
+      { source: 'goout', externalId: 'goout-123', bookingUrl: undefined },
+      { source: 'kudyznudy', externalId: 'kudyznudy-456', bookingUrl: 'https://www.kudyznudy.cz/akce/drakiada' },
+    ]);
+    expect(joinSources('goout', eventListings(merged))).toBe('goout,kudyznudy');
+  });
+});
+
+describe('mergedColumns', () => {
+  const stored = {
+    externalId: 'goout-123',
+    source: 'goout,kudyznudy',
+    title: 'Drakiáda na Letné',
+    description: null,
+    startDateTime: new Date('2025-10-18T14:00:00Z'),
+    locationName: 'Letenská pláň',
+    address: null,
+    category: 'outdoor',
+    ageMin: 3,
+    ageMax: null,
+    ageConfidence: 0.6,
+    adultPrice: 150,
+    childPrice: null,
+    familyPrice: null,
+    priceTiers: [],
+    imageUrl: null,
+    bookingUrl: 'https://goout.net/drakiada',
+    provenance: { title: 'goout', dates: 'goout', location: 'goout', category: 'goout', ages: 'goout', prices: 'goout', booking: 'goout' },
+  } as unknown as Event;
+  const listing: RawEvent = {
+    externalId: 'kudyznudy-456',
+    source: 'kudyznudy',
+    title: 'Drakiáda',
+    description: 'Pouštění draků pro celou rodinu',
+    startDateTime: new Date('2025-10-18T14:00:00Z'),
+    ageMin: 4,
+    ageMax: 10,
+    ageConfidence: 1,
+    adultPrice: 100,
+  };
+  const scraped = { title: 'Drakiáda', description: listing.description, ageMin: 4, ageMax: 10, ageConfidence: 1, adultPrice: 100 };
+
+  it('lets a linked source replace fields it wins and fill missing ones', () => {
+    const { columns, provenance } = mergedColumns(stored, listing, scraped, { goout: 0.9, kudyznudy: 0.7 });
+
+    expect(columns).toMatchObject({ description: listing.description, ageMin: 4, ageMax: 10, ageConfidence: 1 });
+    expect(columns).not.toHaveProperty('adultPrice');
+    expect(columns).not.toHaveProperty('title');
+    expect(provenance).toMatchObject({ description: 'kudyznudy', ages: 'kudyznudy', prices: 'goout', title: 'goout' });
+  });
+
+  it("updates the fields a source supplied from that source's listing", () => {
+    const update = { ...listing, externalId: 'goout-123', source: 'goout', ageConfidence: 0.6 };
+    const { columns, provenance } = mergedColumns(stored, update, { ...scraped, ageConfidence: 0.6 });
+
+    expect(columns).toMatchObject({ adultPrice: 100, ageMin: 4, title: 'Drakiáda' });
+    expect(provenance.prices).toBe('goout');
+  });
+});
+
+describe('isCancelled', () => {
+  it('flags cancellation notes in the title or description', () => {
+    expect(isCancelled({ title: 'ZRUŠENO: Drakiáda', description: undefined })).toBe(true);
+    expect(isCancelled({ title: 'Drakiáda', description: 'Akce je zrušena z důvodu počasí.' })).toBe(true);
+    expect(isCancelled({ title: 'Drakiáda', cancelled: true })).toBe(true);
+  });
+
+  it('keeps events whose text says they will not be cancelled', () => {
+    expect(isCancelled({ title: 'Drakiáda', description: 'Akce nebude zrušena ani při dešti.' })).toBe(false);
+    expect(isCancelled({ title: 'Kite festival', description: "Don't worry, it won't be cancelled." })).toBe(false);
+  });
+});
+
+describe('reclassifyEvents', () => {
+  const prisma = new PrismaClient() as unknown as {
+    event: { findMany: jest.Mock; update: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  const stored = [
+    { id: 'e1', source: 'goout', sources: ['goout'], title: 'Loutkové divadlo Minor', category: 'other', tags: [] },
+    { id: 'e2', source: 'goout,kudyznudy', sources: ['goout', 'kudyznudy'], title: 'Loutkové divadlo', category: 'other', tags: [] },
+    { id: 'e3', source: 'kdykde', sources: ['kdykde'], title: 'Loutkové divadlo Alfa', category: 'other', tags: [] },
+  ];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    prisma.event.findMany.mockImplementation(({ where }) =>
+      stored
+        .filter((event) => where.source === undefined || event.source === where.source)
+        .filter((event) => !where.sources || event.sources.includes(where.sources.some.source))
+        .map(({ id, title, category, tags }) => ({ id, title, description: null, category, tags }))
+    );
+    prisma.event.update.mockImplementation(({ where }) => where.id);
+    prisma.$transaction.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    prisma.event.update.mockClear();
+  });
+
+  it('includes events merged from the source', async () => {
+    const result = await reclassifyEvents('kudyznudy');
+
+    expect(result).toEqual({ checked: 1, changed: 1 });
+    expect(prisma.event.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'e2' } }));
+  });
+
+  it('checks every event without a source', async () => {
+    expect(await reclassifyEvents()).toEqual({ checked: 3, changed: 3 });
+  });
+});
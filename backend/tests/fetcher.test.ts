@@ -0,0 +1,87 @@
+/**
+ * Fetch layer tests: response cache, record and replay modes
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Fetcher, ReplayMissError, fetchPage, setFetchCacheMode } from '../src/utils/fetcher';
+
+function fakeFetcher(body: string | null = '<html>live</html>') {
+  const fetch = jest.fn(async () => (body === null ? null : { status: 200, body }));
+  const fetcher: Fetcher = { name: 'http', fetch };
+  return { fetcher, fetch };
+}
+
+describe('fetchPage', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fetch-cache-'));
+  });
+
+  afterEach(() => {
+    setFetchCacheMode('off');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('fetches without caching when the cache is off', async () => {
+    setFetchCacheMode('off', dir);
+    const { fetcher, fetch } = fakeFetcher();
+
+    await fetchPage(fetcher, { url: 'https://example.cz/akce' });
+    await fetchPage(fetcher, { url: 'https://example.cz/akce' });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it('replays recorded responses without calling the backend', async () => {
+    setFetchCacheMode('record', dir);
+    const recorder = fakeFetcher('<html>recorded</html>');
+    await fetchPage(recorder.fetcher, { url: 'https://example.cz/akce', params: { page: 2, q: 'deti' } });
+
+    setFetchCacheMode('replay', dir);
+    const replayer = fakeFetcher();
+    const response = await fetchPage(replayer.fetcher, {
+      url: 'https://example.cz/akce',
+      params: { q: 'deti', page: 2 },
+    });
+
+    expect(replayer.fetch).not.toHaveBeenCalled();
+    expect(response).toMatchObject({ body: '<html>recorded</html>', status: 200, fromCache: true });
+  });
+
+  it('fails a replay cache miss with a replay miss error', async () => {
+    setFetchCacheMode('replay', dir);
+    const { fetcher, fetch } = fakeFetcher();
+
+    const miss = fetchPage(fetcher, { url: 'https://example.cz/jine' });
+    await expect(miss).rejects.toBeInstanceOf(ReplayMissError);
+    await expect(miss).rejects.toThrow('Not in replay cache (http): https://example.cz/jine');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('reuses fresh entries in cache mode and keeps backends apart', async () => {
+    setFetchCacheMode('cache', dir);
+    const http = fakeFetcher('<html>raw</html>');
+    const rendered = fakeFetcher('<html>rendered</html>');
+    rendered.fetcher.name = 'puppeteer';
+
+    await fetchPage(http.fetcher, { url: 'https://example.cz/akce' });
+    const again = await fetchPage(http.fetcher, { url: 'https://example.cz/akce' });
+    const other = await fetchPage(rendered.fetcher, { url: 'https://example.cz/akce' });
+
+    expect(http.fetch).toHaveBeenCalledTimes(1);
+    expect(again?.fromCache).toBe(true);
+    expect(other).toMatchObject({ body: '<html>rendered</html>', fromCache: false });
+  });
+
+  it('does not store empty backend results', async () => {
+    setFetchCacheMode('record', dir);
+    const { fetcher } = fakeFetcher(null);
+
+    await expect(fetchPage(fetcher, { url: 'https://example.cz/akce' })).resolves.toBeNull();
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Deduplication benchmark on synthetic events
+ *
+ * Usage: npm run bench:dedup -- [count] [pairwiseCount]
+ * Deduplicates count events (default 10000) with blocking keys, and a smaller
+ * sample (default 2000) with both blocking and every pair compared, reporting
+ * run time, comparisons and whether both found the same duplicates.
+ */
+
+import { performance } from 'perf_hooks';
+import { RawEvent } from '../../src/types';
+import { DedupFeature, DedupOptions, dedupFeatures, deduplicateEvents } from '../../src/services/deduplication';
+import { syntheticEvents } from './syntheticEvents';
+
+interface BenchmarkResult {
+  events: number;
+  deduplicated: number;
+  comparisons: number;
+  milliseconds: number;
+}
+
+/**
+ * Default features with the first one counting comparisons
+ */
+function countingFeatures(counter: { comparisons: number }): DedupFeature[] {
+  return dedupFeatures().map((feature, index) =>
+    index === 0
+      ? {
+          ...feature,
+          similarity: (event1: RawEvent, event2: RawEvent) => {
+            counter.comparisons++;
+            return feature.similarity(event1, event2);
+          },
+        }
+      : feature
+  );
+}
+
+function run(events: RawEvent[], options: DedupOptions): BenchmarkResult & { result: RawEvent[] } {
+  const counter = { comparisons: 0 };
+  const start = performance.now();
+  const result = deduplicateEvents(events, undefined, { ...options, features: countingFeatures(counter) });
+
+  return {
+    events: events.length,
+    deduplicated: result.length,
+    comparisons: counter.comparisons,
+    milliseconds: Math.round(performance.now() - start),
+    result,
+  };
+}
+
+function report(label: string, { result, ...stats }: BenchmarkResult & { result: RawEvent[] }): RawEvent[] {
+  console.log(
+    `${label.padEnd(10)} ${String(stats.events).padStart(6)} events -> ${String(stats.deduplicated).padStart(6)}` +
+      `  ${String(stats.comparisons).padStart(10)} comparisons  ${String(stats.milliseconds).padStart(7)} ms`
+  );
+  return result;
+}
+
+const count = parseInt(process.argv[2] || '10000', 10);
+const pairwiseCount = parseInt(process.argv[3] || '2000', 10);
+
+report('blocking', run(syntheticEvents(count), {}));
+
+const sample = syntheticEvents(pairwiseCount);
+const blocked = report('blocking', run(sample, {}));
+const pairwise = report('pairwise', run(sample, { blocking: false }));
+const signature = (events: RawEvent[]) => JSON.stringify(events.map((event) => `${event.externalId}:${event.source}`));
+const same = signature(blocked) === signature(pairwise);
+console.log(`Same duplicates found: ${same ? 'yes' : 'no'}`);
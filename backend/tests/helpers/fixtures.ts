@@ -0,0 +1,127 @@
+/**
+ * Offline HTML fixture loader for scraper tests
+ * Replaces axios and Firecrawl with saved snapshots from tests/fixtures/scrapers/<source>/
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cheerio from 'cheerio';
+import { RawEvent, RawPlace, ScraperResult } from '../../src/types';
+
+export const FIXTURES_DIR = path.join(__dirname, '../fixtures/scrapers');
+
+let activeSource: string | null = null;
+
+/**
+ * Fixture metadata written when snapshots are recorded
+ */
+export interface FixtureMeta {
+  capturedAt: string;
+}
+
+/**
+ * Map a URL to its snapshot file name
+ * e.g. https://www.kdykde.cz/calendar/zanr/deti -> www-kdykde-cz-calendar-zanr-deti.html
+ */
+export function fixtureFileName(url: string): string {
+  const slug = url
+    .replace(/^https?:\/\//, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug}.html`;
+}
+
+/**
+ * Directory holding snapshots and golden output for a source
+ */
+export function fixtureDir(source: string): string {
+  return path.join(FIXTURES_DIR, source);
+}
+
+/**
+ * List sources that have recorded fixtures
+ */
+export function listFixtureSources(): string[] {
+  if (!fs.existsSync(FIXTURES_DIR)) return [];
+  return fs
+    .readdirSync(FIXTURES_DIR)
+    .filter((name) => fs.statSync(path.join(FIXTURES_DIR, name)).isDirectory());
+}
+
+/**
+ * Serve subsequent fetches from the given source's snapshots
+ */
+export function useFixtures(source: string): FixtureMeta {
+  activeSource = source;
+  return JSON.parse(fs.readFileSync(path.join(fixtureDir(source), 'meta.json'), 'utf-8'));
+}
+
+/**
+ * Load the saved HTML for a URL of the active source
+ * @returns HTML or null if no snapshot exists
+ */
+export function loadFixture(url: string): string | null {
+  if (!activeSource) {
+    throw new Error(`No fixture source selected, refusing to fetch ${url}`);
+  }
+
+  const filepath = path.join(fixtureDir(activeSource), fixtureFileName(url));
+  return fs.existsSync(filepath) ? fs.readFileSync(filepath, 'utf-8') : null;
+}
+
+/**
+ * Drop-in replacement for axios.get
+ */
+export async function fixtureAxiosGet(url: string): Promise<{ data: string; status: number }> {
+  const html = loadFixture(url);
+  if (html === null) {
+    throw new Error(`No fixture for ${url}`);
+  }
+  return { data: html, status: 200 };
+}
+
+/**
+ * Drop-in replacements for the Firecrawl helpers
+ */
+export const fixtureFirecrawl = {
+  isFirecrawlAvailable: () => true,
+  resolveRenderer: (preferred: string = 'firecrawl') => preferred,
+  scrapeWithFirecrawl: async (url: string) => loadFixture(url),
+  scrapeAndLoadCheerio: async (url: string) => {
+    const html = loadFixture(url);
+    return html ? cheerio.load(html) : null;
+  },
+};
+
+/**
+ * Golden output stored next to the snapshots
+ */
+export interface GoldenResult {
+  events: Array<Omit<RawEvent, 'startDateTime' | 'endDateTime'> & { startDateTime: string; endDateTime?: string }>;
+  places?: RawPlace[];
+  errors: string[];
+}
+
+/**
+ * Convert a scraper result into its JSON-comparable golden form
+ */
+export function toGolden(result: ScraperResult): GoldenResult {
+  const places = result.places ? { places: result.places } : {};
+  return JSON.parse(JSON.stringify({ events: result.events, ...places, errors: result.errors }));
+}
+
+/**
+ * Read the golden file, or (re)write it when UPDATE_GOLDEN=1
+ */
+export function readGolden(source: string, actual: GoldenResult): GoldenResult {
+  const filepath = path.join(fixtureDir(source), 'expected.json');
+
+  if (process.env.UPDATE_GOLDEN === '1') {
+    fs.writeFileSync(filepath, JSON.stringify(actual, null, 2) + '\n');
+  } else if (!fs.existsSync(filepath)) {
+    throw new Error(`Missing golden file ${filepath} - run "npm run test:update-golden"`);
+  }
+
+  return JSON.parse(fs.readFileSync(filepath, 'utf-8'));
+}
@@ -0,0 +1,69 @@
+/**
+ * Record HTML snapshots for the offline scraper tests
+ *
+ * Usage: npm run fixtures:record -- <source> [url...]
+ * Declarative scrapers default to their listUrls; hand-written ones need URLs.
+ * Afterwards run "npm run test:update-golden" and review the expected.json diff.
+ */
+
+// Load .env before the Firecrawl helper reads FIRECRAWL_API_KEY
+import 'dotenv/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SCRAPERS } from '../../src/scrapers';
+import { fetchAndSaveHTML } from '../../src/utils/scraperHelper';
+import { scrapeWithFirecrawl } from '../../src/utils/firecrawlHelper';
+import { fixtureDir, fixtureFileName } from './fixtures';
+
+async function recordFixtures(source: string, urls: string[]): Promise<void> {
+  const scraper = SCRAPERS.find((s) => s.name === source);
+  if (!scraper) {
+    throw new Error(`Unknown source: ${source}`);
+  }
+
+  const definition = 'definition' in scraper ? scraper.definition : undefined;
+  const targetUrls = urls.length > 0 ? urls : definition?.listUrls || [];
+  if (targetUrls.length === 0) {
+    throw new Error(`${source} is a hand-written scraper - pass the URLs to record`);
+  }
+
+  const dir = fixtureDir(source);
+  fs.mkdirSync(dir, { recursive: true });
+
+  for (const url of targetUrls) {
+    const filename = fixtureFileName(url);
+
+    if (definition?.fetch.strategy === 'axios') {
+      await fetchAndSaveHTML(url, filename, dir);
+    } else {
+      const html = await scrapeWithFirecrawl(url, { waitFor: 5000, timeout: 60000 });
+      if (!html) {
+        throw new Error(`Firecrawl returned no HTML for ${url}`);
+      }
+      fs.writeFileSync(path.join(dir, filename), html);
+      console.log(`✓ Saved HTML to: ${path.join(dir, filename)}`);
+    }
+  }
+
+  fs.writeFileSync(
+    path.join(dir, 'meta.json'),
+    JSON.stringify({ capturedAt: new Date().toISOString() }, null, 2) + '\n'
+  );
+}
+
+if (require.main === module) {
+  const [source, ...urls] = process.argv.slice(2);
+
+  if (!source) {
+    console.log('Usage: npm run fixtures:record -- <source> [url...]');
+    console.log(`Sources: ${SCRAPERS.map((s) => s.name).join(', ')}`);
+    process.exit(1);
+  }
+
+  recordFixtures(source, urls)
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Recording failed:', error.message);
+      process.exit(1);
+    });
+}
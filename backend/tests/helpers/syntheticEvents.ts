@@ -0,0 +1,81 @@
+/**
+ * Synthetic scraped events for deduplication tests and benchmarks
+ * A deterministic mix of distinct events and copies of them as another source
+ * would list them (reworded title, shifted time, venue written differently).
+ */
+
+import { RawEvent } from '../../src/types';
+import { pragueTime } from '../../src/utils/timezone';
+
+const SHOWS = [
+  'Perníková chaloupka', 'O Červené Karkulce', 'Broučci', 'Krtek a kamarádi', 'Dlouhý, Široký a Bystrozraký',
+  'Sněhová královna', 'Pejsek a kočička', 'O Smolíčkovi', 'Budulínek', 'Hurvínek a Mánička', 'Ferda Mravenec',
+  'Popelka', 'Kocour v botách', 'Šípková Růženka', 'Zlatovláska', 'Malá mořská víla', 'Pinocchio', 'Bob a Bobek',
+];
+const FORMATS = [
+  'Loutkové divadlo', 'Pohádka', 'Výtvarná dílna', 'Koncert', 'Komentovaná prohlídka', 'Promítání', 'Workshop',
+  'Čtení', 'Výstava', 'Hudební dílna',
+];
+const VENUES = [
+  'Divadlo Minor', 'Národní technické muzeum', 'Zoo Praha', 'Divadlo Spejbla a Hurvínka', 'Kino Lucerna',
+  'Městská knihovna v Praze', 'DOX', 'Planetárium Praha', 'Divadlo Alfa', 'Botanická zahrada Troja',
+  'Národní muzeum', 'Kulturní dům Ládví', 'Švandovo divadlo', 'Galerie Rudolfinum', 'Dům dětí Praha 2',
+];
+const SOURCES = ['goout', 'kudyznudy', 'kdykde', 'ententyky', 'slevomat'];
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32)
+ */
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Synthetic events with known duplicates
+ * @param count Number of events
+ * @param duplicateRate Share of events that copy an earlier one
+ * @param seed Random seed
+ * @returns The events; duplicates share a groupId in externalId ("<group>-<n>")
+ */
+export function syntheticEvents(count: number, duplicateRate = 0.25, seed = 42): RawEvent[] {
+  const next = random(seed);
+  const pick = <T>(values: T[]): T => values[Math.floor(next() * values.length)];
+  const events: RawEvent[] = [];
+  const originals: RawEvent[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (originals.length > 0 && next() < duplicateRate) {
+      const original = pick(originals);
+      const group = original.externalId.split('-')[0];
+      events.push({
+        ...original,
+        externalId: `${group}-${i}`,
+        source: pick(SOURCES),
+        title: next() < 0.5 ? original.title.toUpperCase() : `${original.title} (pro děti)`,
+        startDateTime: new Date(original.startDateTime.getTime() + Math.floor(next() * 3) * 30 * 60 * 1000),
+        locationName: next() < 0.5 ? original.locationName : `${original.locationName}, Praha`,
+        adultPrice: next() < 0.3 ? undefined : original.adultPrice,
+      });
+      continue;
+    }
+
+    const event: RawEvent = {
+      externalId: `g${i}-${i}`,
+      source: pick(SOURCES),
+      title: `${pick(FORMATS)}: ${pick(SHOWS)}`,
+      startDateTime: pragueTime(2025, 10 + Math.floor(next() * 3), 1 + Math.floor(next() * 28), 9 + Math.floor(next() * 9)),
+      locationName: pick(VENUES),
+      adultPrice: next() < 0.2 ? 0 : 50 + Math.floor(next() * 10) * 20,
+    };
+    originals.push(event);
+    events.push(event);
+  }
+
+  return events;
+}
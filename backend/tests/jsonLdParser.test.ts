@@ -0,0 +1,211 @@
+/**
+ * schema.org JSON-LD extraction tests
+ */
+
+import { extractJsonLdEvents, parseIsoDuration, parseTypicalAgeRange } from '../src/utils/jsonLdParser';
+
+/**
+ * Wrap JSON-LD data in a minimal HTML page
+ */
+function page(...blocks: unknown[]): string {
+  const scripts = blocks
+    .map((block) => `<script type="application/ld+json">${typeof block === 'string' ? block : JSON.stringify(block)}</script>`)
+    .join('\n');
+  return `<html><head>${scripts}</head><body></body></html>`;
+}
+
+const OPTIONS = { source: 'test', pageUrl: 'https://example.cz/akce/' };
+
+describe('extractJsonLdEvents', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('maps a schema.org Event to RawEvent', () => {
+    const [event] = extractJsonLdEvents(
+      page({
+        '@context': 'https://schema.org',
+        '@type': 'Event',
+        name: 'Loutkové divadlo',
+        startDate: '2025-11-01T10:00:00+01:00',
+        endDate: '2025-11-01T11:00:00+01:00',
+        location: {
+          '@type': 'Place',
+          name: 'Divadlo Minor',
+          address: { streetAddress: 'Vodičkova 6', postalCode: '110 00', addressLocality: 'Praha 1' },
+        },
+        offers: [
+          { '@type': 'Offer', name: 'Dospělí', price: '200', priceCurrency: 'CZK' },
+          { '@type': 'Offer', name: 'Děti do 15 let', price: '150,50', priceCurrency: 'CZK' },
+          { '@type': 'Offer', name: 'Rodinné vstupné', price: 500, priceCurrency: 'CZK' },
+        ],
+        typicalAgeRange: '4-',
+        image: ['/img/a.jpg', '/img/b.jpg'],
+        url: 'loutky',
+      }),
+      OPTIONS
+    );
+
+    expect(event).toMatchObject({
+      source: 'test',
+      title: 'Loutkové divadlo',
+      startDateTime: new Date('2025-11-01T09:00:00Z'),
+      endDateTime: new Date('2025-11-01T10:00:00Z'),
+      locationName: 'Divadlo Minor',
+      address: 'Vodičkova 6, 110 00 Praha 1',
+      category: 'theater',
+      ageMin: 4,
+      ageMax: undefined,
+      ageConfidence: 1,
+      adultPrice: 200,
+      childPrice: 150.5,
+      familyPrice: 500,
+      durationMinutes: 60,
+      imageUrl: 'https://example.cz/img/a.jpg',
+      bookingUrl: 'https://example.cz/akce/loutky',
+    });
+    expect(event.externalId).toMatch(/^test-/);
+  });
+
+  it('expands @graph and event series with inherited fields', () => {
+    const events = extractJsonLdEvents(
+      page({
+        '@context': 'https://schema.org',
+        '@graph': [
+          { '@type': 'Organization', name: 'Muzeum' },
+          {
+            '@type': 'EventSeries',
+            name: 'Sobotní dílny',
+            location: { '@type': 'Place', name: 'Muzeum', address: 'Praha 2' },
+            isAccessibleForFree: true,
+            subEvent: [
+              { '@type': 'Event', startDate: '2025-11-08T10:00' },
+              { '@type': 'Event', name: 'Sobotní dílny: Vánoce', startDate: '2025-12-13T10:00' },
+            ],
+          },
+        ],
+      }),
+      OPTIONS
+    );
+
+    expect(events.map((e) => e.title)).toEqual(['Sobotní dílny', 'Sobotní dílny: Vánoce']);
+    expect(events.every((e) => e.locationName === 'Muzeum' && e.adultPrice === 0)).toBe(true);
+  });
+
+  it('unwraps ItemList listings into their events', () => {
+    const events = extractJsonLdEvents(
+      page({
+        '@context': 'https://schema.org',
+        '@type': 'ItemList',
+        itemListElement: [
+          {
+            '@type': 'ListItem',
+            position: 1,
+            item: { '@type': 'ChildrensEvent', name: 'Pohádka o Koblížkovi', startDate: '2025-11-08T10:00:00+01:00' },
+          },
+          { '@type': 'ListItem', position: 2, url: 'https://example.cz/akce/bez-dat' },
+          {
+            '@type': 'ListItem',
+            position: 3,
+            item: {
+              '@type': 'ItemList',
+              itemListElement: [{ '@type': 'ListItem', item: { '@type': 'Event', name: 'Drakiáda', startDate: '2025-11-09' } }],
+            },
+          },
+          { '@type': 'Event', name: 'Výtvarná dílna', startDate: '2025-11-10' },
+        ],
+      }),
+      OPTIONS
+    );
+
+    expect(events.map((event) => event.title)).toEqual(['Pohádka o Koblížkovi', 'Drakiáda', 'Výtvarná dílna']);
+  });
+
+  it('treats date-only startDate as local midnight', () => {
+    const [event] = extractJsonLdEvents(page({ '@type': 'Festival', name: 'Dětský den', startDate: '2026-06-01' }), OPTIONS);
+    expect(event.startDateTime.getHours()).toBe(0);
+    expect(event.startDateTime.getDate()).toBe(1);
+  });
+
+  it('skips non-events, online-only events, foreign currencies and invalid blocks', () => {
+    const events = extractJsonLdEvents(
+      page(
+        { '@type': 'Product', name: 'Sleva', offers: { price: 100 } },
+        { '@type': 'Event', name: 'Stream', startDate: '2025-11-01', location: { '@type': 'VirtualLocation' } },
+        { '@type': 'Event', name: 'Bez data' },
+        { '@type': 'Event', name: 'Koncert', startDate: '2025-11-02', offers: { price: 10, priceCurrency: 'USD' } },
+        '{ "@type": "Event", broken'
+      ),
+      OPTIONS
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0].title).toBe('Koncert');
+    expect(events[0].adultPrice).toBeUndefined();
+  });
+
+  it('keeps offers as ticket tiers, euros included', () => {
+    const [event] = extractJsonLdEvents(
+      page({
+        '@type': 'Event',
+        name: 'Koncert',
+        startDate: '2025-11-02',
+        offers: [
+          { '@type': 'Offer', name: 'Dospělí', price: 12, priceCurrency: 'EUR' },
+          { '@type': 'Offer', name: 'Děti 3-15 let', price: '6', priceCurrency: 'EUR' },
+          { '@type': 'AggregateOffer', name: 'Rodinné vstupné', lowPrice: 30, highPrice: 40, priceCurrency: 'EUR' },
+        ],
+      }),
+      OPTIONS
+    );
+
+    expect(event.priceTiers).toEqual([
+      { label: 'adult', amount: 12, currency: 'EUR' },
+      { label: 'child', amount: 6, currency: 'EUR', ageMin: 3, ageMax: 15 },
+      { label: 'family', amount: 30, currency: 'EUR', maxAmount: 40, isFrom: true },
+    ]);
+    expect(event).toMatchObject({ adultPrice: 300, childPrice: 150, familyPrice: 750 });
+  });
+
+  it('flags cancelled events', () => {
+    const events = extractJsonLdEvents(
+      page(
+        { '@type': 'Event', name: 'Drakiáda', startDate: '2025-10-18', eventStatus: 'https://schema.org/EventCancelled' },
+        { '@type': 'Event', name: 'Lampionový průvod', startDate: '2025-11-11', eventStatus: { '@id': 'EventCancelled' } },
+        { '@type': 'Event', name: 'Koncert', startDate: '2025-11-02', eventStatus: 'https://schema.org/EventScheduled' }
+      ),
+      OPTIONS
+    );
+
+    expect(events.map((event) => event.cancelled)).toEqual([true, true, undefined]);
+  });
+
+  it('returns nothing for pages without JSON-LD', () => {
+    expect(extractJsonLdEvents('<html><body><h1>Akce</h1></body></html>', OPTIONS)).toEqual([]);
+  });
+});
+
+describe('JSON-LD value parsers', () => {
+  it.each([
+    ['3-8', { ageMin: 3, ageMax: 8 }],
+    ['6–12', { ageMin: 6, ageMax: 12 }],
+    ['5+', { ageMin: 5 }],
+    ['1.5-3', { ageMin: 1.5, ageMax: 3 }],
+    ['dospělí', {}],
+  ])('parses typicalAgeRange %s', (value, expected) => {
+    expect(parseTypicalAgeRange(value)).toEqual(expected);
+  });
+
+  it.each([
+    ['PT1H30M', 90],
+    ['PT45M', 45],
+    ['P1D', 1440],
+    ['1 hodina', undefined],
+  ])('parses duration %s', (value, expected) => {
+    expect(parseIsoDuration(value)).toBe(expected);
+  });
+});
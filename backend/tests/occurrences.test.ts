@@ -0,0 +1,78 @@
+/**
+ * Occurrence expansion tests: multi-day and recurring events
+ */
+
+import { expandOccurrences, formatRecurrenceRule } from '../src/services/occurrences';
+
+const WINDOW = { from: new Date(2025, 9, 1), to: new Date(2026, 2, 31) };
+
+/**
+ * Local start times as "d.M. H:mm"
+ */
+function starts(spans: { startDateTime: Date }[]): string[] {
+  return spans.map(({ startDateTime: date }) =>
+    `${date.getDate()}.${date.getMonth() + 1}. ${date.getHours()}:${String(date.getMinutes()).padStart(2, '0')}`
+  );
+}
+
+describe('expandOccurrences', () => {
+  it('keeps single events as they are', () => {
+    const start = new Date(2025, 10, 8, 10, 0);
+    const end = new Date(2025, 10, 8, 12, 0);
+
+    expect(expandOccurrences({ startDateTime: start, endDateTime: end }, WINDOW)).toEqual([
+      { startDateTime: start, endDateTime: end },
+    ]);
+  });
+
+  it('gives multi-day events one occurrence per day with the daily hours', () => {
+    const spans = expandOccurrences(
+      { startDateTime: new Date(2025, 9, 27, 9, 0), endDateTime: new Date(2025, 9, 29, 17, 0) },
+      WINDOW
+    );
+
+    expect(starts(spans)).toEqual(['27.10. 9:00', '28.10. 9:00', '29.10. 9:00']);
+    expect(spans[1].endDateTime).toEqual(new Date(2025, 9, 28, 17, 0));
+  });
+
+  it('repeats weekly events on their weekdays until the rule ends', () => {
+    const spans = expandOccurrences(
+      {
+        startDateTime: new Date(2025, 9, 1, 0, 0),
+        durationMinutes: 45,
+        recurrence: { weekdays: [6], time: { hours: 10, minutes: 0 }, until: new Date(2025, 9, 31) },
+      },
+      WINDOW
+    );
+
+    expect(starts(spans)).toEqual(['4.10. 10:00', '11.10. 10:00', '18.10. 10:00', '25.10. 10:00']);
+    expect(spans[0].endDateTime).toEqual(new Date(2025, 9, 4, 10, 45));
+  });
+
+  it('keeps the local start time across the DST change', () => {
+    const spans = expandOccurrences(
+      { startDateTime: new Date(2025, 9, 25, 15, 0), recurrence: { weekdays: [0, 6], until: new Date(2025, 10, 2) } },
+      WINDOW
+    );
+
+    expect(starts(spans)).toEqual(['25.10. 15:00', '26.10. 15:00', '1.11. 15:00', '2.11. 15:00']);
+  });
+
+  it('stops open-ended schedules at the window and skips days before it', () => {
+    const spans = expandOccurrences(
+      { startDateTime: new Date(2025, 0, 4, 10, 0), recurrence: { weekdays: [6] } },
+      { from: new Date(2025, 9, 1), to: new Date(2025, 9, 15) }
+    );
+
+    expect(starts(spans)).toEqual(['4.10. 10:00', '11.10. 10:00']);
+  });
+});
+
+describe('formatRecurrenceRule', () => {
+  it('writes weekly and daily rules as RRULE', () => {
+    expect(
+      formatRecurrenceRule({ weekdays: [0, 6], time: { hours: 10, minutes: 30 }, until: new Date(2025, 11, 31) })
+    ).toBe('FREQ=WEEKLY;BYDAY=SU,SA;BYHOUR=10;BYMINUTE=30;UNTIL=20251231');
+    expect(formatRecurrenceRule({ weekdays: [] })).toBe('FREQ=DAILY');
+  });
+});
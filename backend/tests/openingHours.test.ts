@@ -0,0 +1,94 @@
+/**
+ * Opening hours and place availability tests
+ */
+
+import {
+  isInSeason,
+  isOpenOn,
+  openDaysPerWeek,
+  openingIntervals,
+  parseCzechOpeningHours,
+  parseSeasonMonths,
+} from '../src/utils/openingHours';
+import { calculateAvailabilityScore, scorePlaceForAllGroups } from '../src/services/scoring';
+
+const MONDAY = new Date(2025, 10, 3);
+const SATURDAY = new Date(2025, 10, 8);
+
+describe('parseCzechOpeningHours', () => {
+  it.each([
+    ['Út–Ne 9:00–18:00, Po zavřeno', ['Tu-Su 09:00-18:00']],
+    ['po-pá: 8.30 - 17', ['Mo-Fr 08:30-17:00']],
+    ['Otevřeno denně 10-18', ['Mo-Su 10:00-18:00']],
+    ['So 10:00-17:30, Ne 10:00-16:00', ['Sa 10:00-17:30', 'Su 10:00-16:00']],
+    ['Vstupné 120 Kč', []],
+  ])('"%s"', (text, expected) => {
+    expect(parseCzechOpeningHours(text)).toEqual(expected);
+  });
+});
+
+describe('parseSeasonMonths', () => {
+  it.each([
+    ['Otevřeno duben–říjen', [4, 5, 6, 7, 8, 9, 10]],
+    ['od dubna do října', [4, 5, 6, 7, 8, 9, 10]],
+    ['Zimní sezóna listopad - únor', [1, 2, 11, 12]],
+    ['leden–prosinec', []],
+    ['Celoročně', []],
+  ])('"%s"', (text, expected) => {
+    expect(parseSeasonMonths(text)).toEqual(expected);
+  });
+});
+
+describe('opening checks', () => {
+  const hours = ['Tu-Su 09:00-18:00'];
+
+  it('returns the opening intervals of a day', () => {
+    expect(openingIntervals(hours, SATURDAY)).toEqual([{ opens: 540, closes: 1080 }]);
+    expect(openingIntervals(hours, MONDAY)).toEqual([]);
+  });
+
+  it('treats unknown opening hours as open', () => {
+    expect(isOpenOn(hours, MONDAY)).toBe(false);
+    expect(isOpenOn([], MONDAY)).toBe(true);
+  });
+
+  it('counts open days, wrapping around the week', () => {
+    expect(openDaysPerWeek(hours)).toBe(6);
+    expect(openDaysPerWeek(['Sa,Su 10:00-17:00'])).toBe(2);
+    expect(openDaysPerWeek(['Fr-Mo 10:00-17:00'])).toBe(4);
+    expect(openDaysPerWeek([])).toBe(7);
+  });
+
+  it('checks the season by month', () => {
+    expect(isInSeason([4, 5, 6, 7, 8, 9, 10], MONDAY)).toBe(false);
+    expect(isInSeason([11, 12], MONDAY)).toBe(true);
+    expect(isInSeason([], MONDAY)).toBe(true);
+  });
+});
+
+describe('place scoring', () => {
+  it('rewards places open most of the week all year', () => {
+    expect(calculateAvailabilityScore(['Mo-Su 09:00-18:00'], [])).toBe(15);
+    expect(calculateAvailabilityScore(['Sa,Su 10:00-17:00'], [])).toBe(6);
+    expect(calculateAvailabilityScore(['Mo-Su 09:00-18:00'], [5, 6, 7, 8, 9])).toBe(12);
+    expect(calculateAvailabilityScore([], [])).toBe(5);
+  });
+
+  it('scores a playground higher for toddlers than for older children', () => {
+    const place = scorePlaceForAllGroups({
+      externalId: 'test-1',
+      source: 'test',
+      name: 'Dětské hřiště Letná',
+      category: 'playground',
+      ageMin: 1,
+      ageMax: 6,
+      setting: 'outdoor',
+      distanceFromPrague: 3,
+      openingHours: [],
+      seasonMonths: [],
+    });
+
+    expect(place.scoreToddler).toBeGreaterThan(place.scoreChild);
+    expect(place.scoreFamily).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Event archiving and past events tests
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { subDays } from 'date-fns';
+import { archiveOldEvents, archiveWhere } from '../src/cron/daily-scrape';
+import { pastEventsWhere, statusFilter } from '../src/routes/events';
+
+jest.mock('@prisma/client', () => {
+  const client = { event: { updateMany: jest.fn(), deleteMany: jest.fn() } };
+  return { ...jest.requireActual('@prisma/client'), PrismaClient: jest.fn(() => client) };
+});
+
+const NOW = new Date('2025-11-10T08:00:00Z');
+
+describe('archiveWhere', () => {
+  const thirtyDaysAgo = subDays(NOW, 30);
+
+  it('archives unarchived events without recent dates', () => {
+    const where = archiveWhere(NOW);
+
+    expect(where.archivedAt).toBeNull();
+    // Recurring events stay while they have dates in the last 30 days
+    expect(where.occurrences).toEqual({ none: { startDateTime: { gte: thirtyDaysAgo } } });
+  });
+
+  it('uses the end date when set and the start date otherwise', () => {
+    expect(archiveWhere(NOW).OR).toEqual([
+      { endDateTime: { lt: thirtyDaysAgo } },
+      { endDateTime: null, startDateTime: { lt: thirtyDaysAgo } },
+    ]);
+  });
+});
+
+describe('archiveOldEvents', () => {
+  const prisma = new PrismaClient() as unknown as { event: { updateMany: jest.Mock; deleteMany: jest.Mock } };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    prisma.event.updateMany.mockResolvedValue({ count: 2 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('marks events as archived instead of deleting them', async () => {
+    expect(await archiveOldEvents(NOW)).toBe(2);
+
+    expect(prisma.event.updateMany).toHaveBeenCalledTimes(1);
+    const [{ where, data }] = prisma.event.updateMany.mock.calls[0];
+    expect(where).toEqual(archiveWhere(NOW));
+    expect(data.archivedAt).toBe(NOW);
+    expect(prisma.event.deleteMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('statusFilter', () => {
+  it('leaves archived events out of event lists, inactive ones included or not', () => {
+    expect(statusFilter(undefined)).toEqual({ status: 'active', archivedAt: null });
+    expect(statusFilter('true')).toEqual({ archivedAt: null });
+  });
+});
+
+describe('pastEventsWhere', () => {
+  it('covers archived and unarchived events that have ended', () => {
+    const where = pastEventsWhere({}, NOW);
+    // Multi-day events still running (end date ahead) match neither branch
+    expect(where).toEqual({
+      startDateTime: { lt: NOW },
+      OR: [{ endDateTime: { lt: NOW } }, { endDateTime: null, startDateTime: { lt: NOW } }],
+    });
+    expect(where).not.toHaveProperty('archivedAt');
+  });
+
+  it('caps dateTo at now', () => {
+    expect(pastEventsWhere({ dateTo: '2026-01-01' }, NOW).startDateTime).toEqual({ lt: NOW });
+    expect(pastEventsWhere({ dateFrom: '2025-10-01', dateTo: '2025-11-01' }, NOW).startDateTime).toEqual({
+      lt: new Date('2025-11-01'),
+      gte: new Date('2025-10-01'),
+    });
+  });
+
+  it("filters by a user's attendances, or by any attendance", () => {
+    expect(pastEventsWhere({ userId: 'u1', attended: 'true' }, NOW).attendances).toEqual({ some: { userId: 'u1' } });
+    expect(pastEventsWhere({ attended: 'true' }, NOW).attendances).toEqual({ some: {} });
+    expect(pastEventsWhere({ attended: 'false' }, NOW)).not.toHaveProperty('attendances');
+  });
+
+  it('filters by category tag', () => {
+    expect(pastEventsWhere({ category: 'puppets' }, NOW).tags).toEqual({ has: 'puppets' });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Ticket price parsing and price scoring tests
+ */
+
+import {
+  DEFAULT_FAMILY,
+  calculateFamilyCost,
+  entryPrice,
+  extractPrices,
+  parseCzechPrice,
+  parsePriceTiers,
+  priceTierLabel,
+  visitorPrice,
+} from '../src/utils/priceParser';
+import { scoreEvent } from '../src/services/scoring';
+import { AgeGroup, PriceTier, RawEvent } from '../src/types';
+
+describe('parsePriceTiers', () => {
+  it.each<[string, PriceTier[]]>([
+    [
+      'Dospělí 120 Kč, děti 3–15 let 80 Kč, děti do 3 let zdarma',
+      [
+        { label: 'adult', amount: 120, currency: 'CZK' },
+        { label: 'child', amount: 80, currency: 'CZK', ageMin: 3, ageMax: 15 },
+        { label: 'toddler', amount: 0, currency: 'CZK', ageMax: 3 },
+      ],
+    ],
+    ['Rodinné vstupné 350,-', [{ label: 'family', amount: 350, currency: 'CZK' }]],
+    ['Vstupné: od 15 €', [{ label: 'general', amount: 15, currency: 'EUR', isFrom: true }]],
+    ['Vstupné 12,50 EUR', [{ label: 'general', amount: 12.5, currency: 'EUR' }]],
+    ['Vstupenky 100 - 200 Kč', [{ label: 'general', amount: 100, currency: 'CZK', maxAmount: 200 }]],
+    ['Cena: 1 500 Kč', [{ label: 'general', amount: 1500, currency: 'CZK' }]],
+    ['Začátek 12:00, 100 Kč', [{ label: 'general', amount: 100, currency: 'CZK' }]],
+    [
+      'Program pro děti 6-10 let. Dospělí: 120 Kč, děti: 60 Kč. Délka 90 minut.',
+      [
+        { label: 'adult', amount: 120, currency: 'CZK' },
+        { label: 'child', amount: 60, currency: 'CZK' },
+      ],
+    ],
+    [
+      'dospělí 120 Kč / děti 60 Kč / senioři 90 Kč',
+      [
+        { label: 'adult', amount: 120, currency: 'CZK' },
+        { label: 'child', amount: 60, currency: 'CZK' },
+        { label: 'reduced', amount: 90, currency: 'CZK' },
+      ],
+    ],
+    ['Vstup zdarma pro děti do 3 let', [{ label: 'toddler', amount: 0, currency: 'CZK', ageMax: 3 }]],
+    ['Vstupné pro dospělé i děti 100 Kč', [{ label: 'general', amount: 100, currency: 'CZK' }]],
+    ['Vstupné: dobrovolné', [{ label: 'general', amount: 0, currency: 'CZK' }]],
+    ['Dílna zdarma ke vstupnému', [{ label: 'general', amount: 0, currency: 'CZK', withEntry: true }]],
+    ['Program je v ceně vstupného.', [{ label: 'general', amount: 0, currency: 'CZK', withEntry: true }]],
+    ['Pro děti 6-10 let, sraz v 10:00', []],
+    ['', []],
+  ])('"%s"', (text, expected) => {
+    expect(parsePriceTiers(text)).toEqual(expected);
+  });
+
+  it('lists a repeated price once', () => {
+    expect(parsePriceTiers('Vstupné 150 Kč. Vstupné 150 Kč')).toHaveLength(1);
+  });
+});
+
+describe('price summaries', () => {
+  it('labels offers by their names', () => {
+    expect(priceTierLabel('Rodinné vstupné (2+2)')).toBe('family');
+    expect(priceTierLabel('Dítě')).toBe('child');
+    expect(priceTierLabel('Studenti, senioři')).toBe('reduced');
+    expect(priceTierLabel('Vstupenka')).toBe('general');
+  });
+
+  it('summarizes tiers as adult, child and family prices in CZK', () => {
+    expect(extractPrices('Dospělí: 300 Kč, děti: 200 Kč, rodinné vstupné: 900 Kč.')).toEqual({
+      adultPrice: 300,
+      childPrice: 200,
+      familyPrice: 900,
+    });
+    expect(extractPrices('Vstupné 10 €')).toEqual({ adultPrice: 250 });
+    expect(extractPrices('Dílna zdarma ke vstupnému')).toEqual({});
+  });
+
+  it('keeps parseCzechPrice for single price fields', () => {
+    expect(parseCzechPrice('od 50 Kč')).toBe(50);
+    expect(parseCzechPrice('zdarma')).toBe(0);
+  });
+});
+
+describe('visitor and entry prices', () => {
+  const tiers = parsePriceTiers('Dospělí 120 Kč, děti 3–15 let 80 Kč, děti do 3 let zdarma');
+
+  it('prices visitors by age', () => {
+    expect(visitorPrice(tiers, 'adult')).toBe(120);
+    expect(visitorPrice(tiers, 9)).toBe(80);
+    expect(visitorPrice(tiers, 2)).toBe(0);
+    expect(visitorPrice(tiers, 16)).toBe(120);
+  });
+
+  it('lets toddlers in free unless a ticket covers them', () => {
+    const childTickets = parsePriceTiers('Děti 100 Kč');
+    expect(visitorPrice(childTickets, 1.5)).toBe(100);
+    expect(visitorPrice(parsePriceTiers('Vstupné 150 Kč'), 1.5)).toBe(0);
+  });
+
+  it('uses the cheapest adult entry for the price filter', () => {
+    expect(entryPrice(tiers)).toBe(120);
+    expect(entryPrice(parsePriceTiers('Vstup zdarma'))).toBe(0);
+    expect(entryPrice(parsePriceTiers('Děti 80 Kč'))).toBe(80);
+    expect(entryPrice(parsePriceTiers('Dílna zdarma ke vstupnému'))).toBeUndefined();
+  });
+});
+
+describe('calculateFamilyCost', () => {
+  const tiers = parsePriceTiers('Dospělí 150 Kč, děti 3–15 let 100 Kč, děti do 3 let zdarma, rodinné vstupné 400 Kč');
+
+  it('prices each member by age and lets toddlers in free', () => {
+    expect(calculateFamilyCost({ priceTiers: tiers }, { adults: 1, childAges: [9, 1.5] })).toEqual({
+      total: 250,
+      tickets: 'individual',
+      freeEntries: 1,
+    });
+  });
+
+  it('uses a family ticket when cheaper, with individual tickets for anyone it does not cover', () => {
+    expect(calculateFamilyCost({ priceTiers: tiers }, { adults: 2, childAges: [9, 6] })).toEqual({
+      total: 400,
+      tickets: 'family',
+      savings: 100,
+      freeEntries: 0,
+    });
+    expect(calculateFamilyCost({ priceTiers: tiers }, { adults: 2, childAges: [12, 9, 6] })).toEqual({
+      total: 500,
+      tickets: 'family',
+      savings: 100,
+      freeEntries: 0,
+    });
+  });
+
+  it('takes the family ticket when it is the only price', () => {
+    expect(calculateFamilyCost({ familyPrice: 350 }, DEFAULT_FAMILY)).toEqual({ total: 350, tickets: 'family', freeEntries: 1 });
+  });
+
+  it('works from plain prices of events without tiers', () => {
+    expect(calculateFamilyCost({ adultPrice: 100, childPrice: 50 }, { adults: 2, childAges: [9] })?.total).toBe(250);
+    expect(calculateFamilyCost({ adultPrice: 0 }, DEFAULT_FAMILY)?.total).toBe(0);
+  });
+
+  it('returns null when the prices are unknown', () => {
+    expect(calculateFamilyCost({}, DEFAULT_FAMILY)).toBeNull();
+    expect(calculateFamilyCost({ priceTiers: parsePriceTiers('Dílna zdarma ke vstupnému') }, DEFAULT_FAMILY)).toBeNull();
+  });
+
+  it('does not count members without a price as free', () => {
+    // Only a child ticket listed: what the adults pay is unknown
+    expect(calculateFamilyCost({ childPrice: 80 }, DEFAULT_FAMILY)).toBeNull();
+    expect(calculateFamilyCost({ priceTiers: parsePriceTiers('Děti 3–15 let 100 Kč') }, { adults: 1, childAges: [5] })).toBeNull();
+  });
+
+  it('prices unpriced members only through a family ticket that covers them', () => {
+    const childAndFamily = { childPrice: 80, familyPrice: 300 };
+    const cost = calculateFamilyCost(childAndFamily, { adults: 2, childAges: [9, 6, 4] });
+    expect(cost).toEqual({ total: 380, tickets: 'family', freeEntries: 0 });
+    // No individual total to compare with, so no savings
+    expect(cost).not.toHaveProperty('savings');
+    expect(calculateFamilyCost(childAndFamily, { adults: 3, childAges: [9] })).toBeNull();
+  });
+});
+
+describe('price score', () => {
+  const event = (fields: Partial<RawEvent>): RawEvent => ({
+    externalId: 'test-1',
+    source: 'test',
+    title: 'Dílna',
+    startDateTime: new Date('2025-11-08T09:00:00Z'),
+    ...fields,
+  });
+  const priceScore = (fields: Partial<RawEvent>) => scoreEvent(event(fields), AgeGroup.FAMILY).factors.priceScore;
+
+  it('scores free entry highest and missing prices low', () => {
+    expect(priceScore({ priceTiers: parsePriceTiers('Vstup zdarma') })).toBe(15);
+    expect(priceScore({})).toBe(3);
+  });
+
+  it('does not treat extras free with a paid entry as a free visit', () => {
+    expect(priceScore({ priceTiers: parsePriceTiers('Dílna zdarma ke vstupnému') })).toBe(6);
+  });
+
+  it('prices the default family from tiers rather than the adult price alone', () => {
+    // 2 × 120 + 80 for the 9 year old, the toddler free = 320 Kč
+    expect(priceScore({ adultPrice: 120, priceTiers: parsePriceTiers('Dospělí 120 Kč, děti 3–15 let 80 Kč') })).toBe(8);
+    // Family ticket cheaper than 3 × 90
+    expect(priceScore({ priceTiers: parsePriceTiers('Vstupné 90 Kč, rodinné vstupné 190 Kč') })).toBe(12);
+    // Euros converted to CZK: 3 × 15 € = 1125 Kč
+    expect(priceScore({ priceTiers: parsePriceTiers('Vstupné 15 €') })).toBe(2);
+  });
+
+  it('falls back to plain prices for events without tiers', () => {
+    expect(priceScore({ adultPrice: 50, childPrice: 30 })).toBe(12);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Renderer selection tests
+ * Firecrawl scrapers render with Puppeteer when asked to or when Firecrawl is
+ * not configured, and skip when neither is available. Both backends are faked.
+ */
+
+import { ScraperDefinition, ScraperResult } from '../src/types';
+import { classifyScrapeError } from '../src/services/scrapeRuns';
+
+const LISTING = `<html><body>
+  <div class="event"><h3>Loutkové divadlo</h3><time>8. 11. 2025 10:00</time></div>
+</body></html>`;
+
+const mockPuppeteerFetch = jest.fn(async () => ({ status: 200, body: LISTING }));
+const mockFirecrawlScrape = jest.fn(async () => ({ html: LISTING }));
+
+jest.mock('../src/utils/puppeteerHelper', () => ({
+  ...jest.requireActual('../src/utils/puppeteerHelper'),
+  puppeteerFetcher: { name: 'puppeteer', fetch: mockPuppeteerFetch },
+}));
+
+jest.mock('@mendable/firecrawl-js', () => ({
+  __esModule: true,
+  default: jest.fn(() => ({ scrape: mockFirecrawlScrape })),
+}));
+
+function definition(strategy: 'firecrawl' | 'puppeteer'): ScraperDefinition {
+  return {
+    name: 'renderer-test',
+    baseUrl: 'https://www.example.cz',
+    listUrls: ['https://www.example.cz/akce'],
+    fetch: { strategy },
+    itemSelector: '.event',
+    fields: { title: ['h3'], date: ['time'] },
+  };
+}
+
+/**
+ * Run a definition with the engine loaded under the given environment
+ * (the Firecrawl key and the fallback switch are read when the helper loads)
+ */
+async function runWith(env: Record<string, string>, scraper: ScraperDefinition): Promise<ScraperResult> {
+  const saved = { ...process.env };
+  Object.assign(process.env, env);
+  try {
+    let run!: (definition: ScraperDefinition) => Promise<ScraperResult>;
+    jest.isolateModules(() => {
+      run = require('../src/scrapers/engine').runScraperDefinition;
+    });
+    return await run(scraper);
+  } finally {
+    process.env = saved;
+  }
+}
+
+describe('renderer selection', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    mockPuppeteerFetch.mockClear();
+    mockFirecrawlScrape.mockClear();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('renders with Firecrawl when it is configured', async () => {
+    const result = await runWith({ FIRECRAWL_API_KEY: 'fc-test' }, definition('firecrawl'));
+
+    expect(result.events.map((event) => event.title)).toEqual(['Loutkové divadlo']);
+    expect(mockFirecrawlScrape).toHaveBeenCalledTimes(1);
+    expect(mockPuppeteerFetch).not.toHaveBeenCalled();
+  });
+
+  it('renders with Puppeteer when the scraper asks for it', async () => {
+    const result = await runWith({ FIRECRAWL_API_KEY: 'fc-test' }, definition('puppeteer'));
+
+    expect(result.events).toHaveLength(1);
+    expect(mockPuppeteerFetch).toHaveBeenCalledTimes(1);
+    expect(mockFirecrawlScrape).not.toHaveBeenCalled();
+  });
+
+  it('falls back to Puppeteer when Firecrawl is not configured', async () => {
+    const result = await runWith({ FIRECRAWL_API_KEY: '' }, definition('firecrawl'));
+
+    expect(result.events).toHaveLength(1);
+    expect(result.errors).toEqual([]);
+    expect(mockPuppeteerFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips the scraper and says why when no renderer is available', async () => {
+    const result = await runWith({ FIRECRAWL_API_KEY: '', PUPPETEER_FALLBACK: 'false' }, definition('firecrawl'));
+
+    expect(result.events).toEqual([]);
+    expect(result.errors).toEqual([
+      'No renderer available for firecrawl: FIRECRAWL_API_KEY is not configured ' +
+        'and the Puppeteer fallback is disabled (PUPPETEER_FALLBACK=false)',
+    ]);
+    expect(classifyScrapeError(result.errors[0])).toBe('renderer-unavailable');
+    expect(mockPuppeteerFetch).not.toHaveBeenCalled();
+    expect(mockFirecrawlScrape).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Scraper scheduling tests: concurrency, ordering, timeouts, retries and the
+ * per-host token bucket
+ */
+
+import { runScheduled, ScraperTask } from '../src/scrapers/scheduler';
+import { runScrapers } from '../src/scrapers';
+import { closeBrowser } from '../src/utils/puppeteerHelper';
+import { ReplayMissError } from '../src/utils/fetcher';
+import { classifyScrapeError } from '../src/services/scrapeRuns';
+import { acquireHostToken, resetHostLimits, setHostLimit } from '../src/utils/rateLimiter';
+import { ScraperResult } from '../src/types';
+
+jest.mock('../src/utils/puppeteerHelper', () => ({
+  ...jest.requireActual('../src/utils/puppeteerHelper'),
+  closeBrowser: jest.fn(async () => {}),
+}));
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function result(source: string, overrides: Partial<ScraperResult> = {}): ScraperResult {
+  return { source, events: [], errors: [], executionTime: 0, ...overrides };
+}
+
+const EVENT = { externalId: 'x', source: 'a', title: 'Akce', startDateTime: new Date('2025-11-01T10:00:00Z') };
+
+describe('runScheduled', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('respects the concurrency limit and keeps task order', async () => {
+    let running = 0;
+    let peak = 0;
+    const tasks: ScraperTask[] = [30, 5, 20, 5, 10].map((ms, i) => ({
+      name: `s${i}`,
+      run: async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await sleep(ms);
+        running--;
+        return result(`s${i}`);
+      },
+    }));
+
+    const results = await runScheduled(tasks, { concurrency: 2, retries: 0 });
+
+    expect(peak).toBe(2);
+    expect(results.map((r) => r.source)).toEqual(['s0', 's1', 's2', 's3', 's4']);
+  });
+
+  it('turns a slow scraper into a timeout error without retrying', async () => {
+    const run = jest.fn(async () => {
+      await sleep(200);
+      return result('slow');
+    });
+
+    const [slow] = await runScheduled([{ name: 'slow', timeoutMs: 20, run }], { retries: 2, backoffMs: 1 });
+
+    expect(slow.errors).toEqual(['Scraper timed out after 20ms']);
+    expect(classifyScrapeError(slow.errors[0])).toBe('network');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries thrown errors and network failures with backoff', async () => {
+    const run = jest
+      .fn<Promise<ScraperResult>, []>()
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce(result('a', { errors: ['Failed to fetch https://a.cz: ECONNRESET'] }))
+      .mockResolvedValueOnce(result('a', { events: [EVENT] }));
+
+    const [a] = await runScheduled([{ name: 'a', run }], { retries: 2, backoffMs: 1 });
+
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(a.events).toHaveLength(1);
+  });
+
+  it('does not retry selector misses, replay cache misses or partial results', async () => {
+    const miss = jest.fn(async () => result('a', { errors: ['No event elements found'] }));
+    const partial = jest.fn(async () => result('b', { events: [EVENT], errors: ['Failed to fetch page 2'] }));
+    const replayed = jest.fn(async () => result('c', { errors: ['Not in replay cache (http): https://c.cz/'] }));
+    const thrown = jest.fn(async () => {
+      throw new ReplayMissError('https://d.cz/', 'firecrawl');
+    });
+
+    await runScheduled(
+      [
+        { name: 'a', run: miss },
+        { name: 'b', run: partial },
+        { name: 'c', run: replayed },
+        { name: 'd', run: thrown },
+      ],
+      { retries: 2, backoffMs: 1 }
+    );
+
+    expect(miss).toHaveBeenCalledTimes(1);
+    expect(partial).toHaveBeenCalledTimes(1);
+    expect(replayed).toHaveBeenCalledTimes(1);
+    expect(thrown).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the last failure once retries are exhausted', async () => {
+    const run = jest.fn(async () => {
+      throw new Error('timeout of 30000ms exceeded');
+    });
+
+    const [a] = await runScheduled([{ name: 'a', run }], { retries: 1, backoffMs: 1 });
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(a).toMatchObject({ source: 'a', events: [], errors: ['timeout of 30000ms exceeded'] });
+  });
+});
+
+describe('runScrapers', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the browser open until a timed-out scraper settles', async () => {
+    const slow = async () => {
+      await sleep(100);
+      return result('slow');
+    };
+
+    const [timedOut] = await runScrapers([{ name: 'slow', fn: slow, timeoutMs: 20 }], { retries: 0 });
+
+    expect(timedOut.errors).toEqual(['Scraper timed out after 20ms']);
+    expect(closeBrowser).not.toHaveBeenCalled();
+
+    await sleep(150);
+    expect(closeBrowser).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('acquireHostToken', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    resetHostLimits();
+    setHostLimit('example.cz', { ratePerSecond: 2, burst: 2 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    resetHostLimits();
+  });
+
+  it('allows a burst, then spaces requests at the refill rate', async () => {
+    const released: number[] = [];
+    const start = Date.now();
+    const requests = [1, 2, 3, 4].map((n) =>
+      acquireHostToken(`https://example.cz/page/${n}`).then(() => released.push(Date.now() - start))
+    );
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await Promise.all(requests);
+
+    expect(released).toEqual([0, 0, 500, 1000]);
+  });
+
+  it('keeps separate buckets per host', async () => {
+    setHostLimit('other.cz', { ratePerSecond: 2, burst: 1 });
+    await acquireHostToken('https://example.cz/');
+    await acquireHostToken('https://example.cz/');
+
+    // other.cz still has its own token
+    await expect(acquireHostToken('https://other.cz/')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * /api/scrape-logs route tests
+ * The route reads per-source run records; the database client is faked and
+ * the server is started on a free port instead of PORT.
+ */
+
+import { AddressInfo } from 'net';
+import { createServer, Server } from 'http';
+import express from 'express';
+
+const mockFindMany = jest.fn();
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    $connect: jest.fn(async () => {}),
+    $disconnect: jest.fn(async () => {}),
+    scrapeRunSource: { findMany: mockFindMany },
+  };
+  return { ...jest.requireActual('@prisma/client'), PrismaClient: jest.fn(() => client) };
+});
+
+interface ScrapeLogsResponse {
+  logs: { errorMessage: string | null }[];
+}
+
+const CREATED_AT = new Date('2025-11-10T08:00:00Z');
+
+function record(id: string, errors: unknown) {
+  return { id, source: 'goout', status: 'partial', parsed: 12, errors, executionTime: 1500, createdAt: CREATED_AT };
+}
+
+describe('GET /api/scrape-logs', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    // startServer() would listen on PORT; the test listens on its own server
+    jest.spyOn(express.application, 'listen').mockImplementation(function (this: unknown) {
+      return this as Server;
+    });
+
+    const app: express.Express = require('../src/server').default;
+
+    server = createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  it('joins the messages of classified errors and of backfilled string errors', async () => {
+    mockFindMany.mockResolvedValue([
+      record('classified', [
+        { type: 'network', message: 'HTTP 503 for https://goout.net/cs/praha/akce/' },
+        { type: 'parse-failure', message: 'No events on page 2' },
+      ]),
+      record('legacy', ['Timeout after 30000 ms']),
+      record('clean', []),
+    ]);
+
+    const response = await fetch(`${baseUrl}/api/scrape-logs?limit=5`);
+    const body = (await response.json()) as ScrapeLogsResponse;
+
+    expect(response.status).toBe(200);
+    expect(mockFindMany).toHaveBeenCalledWith({ orderBy: { createdAt: 'desc' }, take: 5 });
+    expect(body.logs.map((log) => log.errorMessage)).toEqual([
+      'HTTP 503 for https://goout.net/cs/praha/akce/; No events on page 2',
+      'Timeout after 30000 ms',
+      null,
+    ]);
+    expect(body.logs[0]).toMatchObject({ source: 'goout', status: 'partial', eventsFound: 12, executionTime: 1500 });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Scrape run bookkeeping tests: error classification, stage counts, health and accuracy
+ */
+
+import { ScrapeRunSource } from '@prisma/client';
+import {
+  classifyScrapeError,
+  countDeduplicated,
+  evaluateSourceHealth,
+  sourceAccuracy,
+  sourceStatus,
+} from '../src/services/scrapeRuns';
+import { RawEvent, StageCounts } from '../src/types';
+
+const NOW = new Date('2025-11-10T08:00:00Z');
+
+/**
+ * Build a run record with defaults for everything not under test
+ */
+function record(overrides: Partial<ScrapeRunSource>): ScrapeRunSource {
+  return {
+    id: 'r',
+    runId: 'run',
+    source: 'goout.net',
+    status: 'success',
+    executionTime: 1000,
+    found: 10,
+    parsed: 10,
+    missingDate: 0,
+    deduplicated: 0,
+    geocoded: 10,
+    outOfRadius: 0,
+    stored: 2,
+    updated: 3,
+    unchanged: 5,
+    networkErrors: 0,
+    selectorMisses: 0,
+    parseFailures: 0,
+    firecrawlUnavailable: 0,
+    errors: [],
+    dateFillRate: 1,
+    priceFillRate: 0.5,
+    imageFillRate: 1,
+    locationFillRate: 1,
+    degraded: false,
+    degradedReasons: [],
+    createdAt: new Date('2025-11-10T03:00:00Z'),
+    ...overrides,
+  };
+}
+
+function event(source: string, title: string): RawEvent {
+  return { externalId: `${source}-${title}`, source, title, startDateTime: NOW };
+}
+
+describe('classifyScrapeError', () => {
+  it.each([
+    ['Firecrawl API key not configured', 'firecrawl-unavailable'],
+    ['Failed to scrape https://www.kudyznudy.cz/ with Firecrawl', 'firecrawl-unavailable'],
+    ['No event elements found on https://goout.net/cs/praha/akce', 'selector-miss'],
+    ['Failed to fetch https://www.kdykde.cz/: Request failed with status code 503', 'network'],
+    ['Failed to scrape: timeout of 30000ms exceeded', 'network'],
+    ['Scraper timed out after 120000ms', 'network'],
+    ['Failed to fetch from praguest.com: getaddrinfo ENOTFOUND www.praguest.com', 'network'],
+    ['Not in replay cache (http): https://www.kdykde.cz/', 'replay-miss'],
+    ['No renderer available for firecrawl: FIRECRAWL_API_KEY is not configured', 'renderer-unavailable'],
+    ['Failed to fetch from praguest.com: Not in replay cache (firecrawl): https://www.praguest.com/', 'replay-miss'],
+    ['Failed to parse date for event: Drakiáda', 'parse-failure'],
+    ['Error parsing event 3: Cannot read properties of undefined', 'parse-failure'],
+  ])('%s -> %s', (message, type) => {
+    expect(classifyScrapeError(message)).toBe(type);
+  });
+});
+
+describe('stage counts', () => {
+  it('attributes merged duplicates to the sources that lost them', () => {
+    const counts = new Map<string, StageCounts>();
+    const before = [event('goout.net', 'a'), event('kdykde.cz', 'a'), event('kdykde.cz', 'b')];
+    const after = [{ ...before[0], source: 'goout.net,kdykde.cz' }, before[2]];
+
+    countDeduplicated(counts, before, after);
+
+    expect(counts.get('goout.net')?.deduplicated).toBe(0);
+    expect(counts.get('kdykde.cz')?.deduplicated).toBe(1);
+  });
+
+  it('derives source status from events and errors', () => {
+    const result = { source: 's', events: [], errors: [], executionTime: 0 };
+    expect(sourceStatus(result)).toBe('success');
+    expect(sourceStatus({ ...result, errors: ['x'] })).toBe('error');
+    expect(sourceStatus({ ...result, events: [event('s', 'a')], errors: ['x'] })).toBe('partial');
+  });
+});
+
+describe('evaluateSourceHealth', () => {
+  it('is an error when the source never ran', () => {
+    expect(evaluateSourceHealth('goout.net', [], NOW)).toMatchObject({ status: 'error', lastActive: null });
+  });
+
+  it('is healthy after a clean recent run', () => {
+    expect(evaluateSourceHealth('goout.net', [record({})], NOW)).toMatchObject({
+      status: 'healthy',
+      reason: null,
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('reports consecutive failures and the dominant error class', () => {
+    const health = evaluateSourceHealth(
+      'goout.net',
+      [
+        record({ status: 'error', parsed: 0, selectorMisses: 1 }),
+        record({ status: 'error', parsed: 0, networkErrors: 2 }),
+        record({ createdAt: new Date('2025-11-08T03:00:00Z') }),
+      ],
+      NOW
+    );
+
+    expect(health.status).toBe('error');
+    expect(health.consecutiveFailures).toBe(2);
+    expect(health.reason).toContain('selector-miss');
+    expect(health.lastSuccessAt).toEqual(new Date('2025-11-08T03:00:00Z'));
+    expect(health.errorCounts).toEqual({
+      network: 2,
+      'selector-miss': 1,
+      'parse-failure': 0,
+      'firecrawl-unavailable': 0,
+      'renderer-unavailable': 0,
+      'replay-miss': 0,
+    });
+  });
+
+  it('counts replay cache misses from the stored errors', () => {
+    const errors = [{ type: 'replay-miss', message: 'Not in replay cache (http): https://goout.net/cs/praha/akce' }];
+    const health = evaluateSourceHealth('goout.net', [record({ status: 'error', parsed: 0, errors })], NOW);
+
+    expect(health.errorCounts).toMatchObject({ network: 0, 'replay-miss': 1 });
+  });
+
+  it('warns about degraded runs', () => {
+    const health = evaluateSourceHealth(
+      's',
+      [record({ degraded: true, degradedReasons: ['image fill rate dropped to 0% (baseline 100%)'] })],
+      NOW
+    );
+    expect(health).toMatchObject({ status: 'warning', degraded: true });
+    expect(health.reason).toContain('image fill rate');
+  });
+
+  it('warns about stale, empty or partial runs', () => {
+    expect(evaluateSourceHealth('s', [record({ createdAt: new Date('2025-11-07T03:00:00Z') })], NOW).status).toBe('warning');
+    expect(evaluateSourceHealth('s', [record({ parsed: 0 })], NOW).status).toBe('warning');
+    expect(evaluateSourceHealth('s', [record({ status: 'partial', parseFailures: 1 })], NOW).status).toBe('warning');
+  });
+});
+
+describe('sourceAccuracy', () => {
+  it('is the share of listings never corrected, smoothed for small sources', () => {
+    const accuracy = sourceAccuracy({ goout: 98, kudyznudy: 48, praguest: 0 }, { goout: 9, kudyznudy: 24 });
+
+    expect(accuracy.goout).toBeCloseTo(0.9);
+    expect(accuracy.kudyznudy).toBeCloseTo(0.5);
+    expect(accuracy.praguest).toBe(0.5);
+  });
+});
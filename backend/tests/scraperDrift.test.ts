@@ -0,0 +1,84 @@
+/**
+ * Selector drift detection tests
+ */
+
+import { computeBaseline, computeFillRates, detectDrift, YieldSnapshot } from '../src/services/scraperDrift';
+import { RawEvent } from '../src/types';
+
+function snapshot(parsed: number, fillRates: Partial<YieldSnapshot['fillRates']> = {}): YieldSnapshot {
+  return { parsed, fillRates: { date: 1, price: 0.6, image: 0.9, location: 1, ...fillRates } };
+}
+
+function event(overrides: Partial<RawEvent> = {}): RawEvent {
+  return {
+    externalId: 'x',
+    source: 'goout.net',
+    title: 'Akce',
+    startDateTime: new Date('2025-11-01T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('computeFillRates', () => {
+  it('measures field coverage of a result', () => {
+    const rates = computeFillRates({
+      source: 'goout.net',
+      events: [
+        event({ adultPrice: 0, imageUrl: 'a.jpg', locationName: 'Letná' }),
+        event({ address: 'Praha 1' }),
+      ],
+      errors: [],
+      executionTime: 0,
+      stats: { found: 4, missingDate: 1 },
+    });
+
+    expect(rates).toEqual({ date: 0.75, price: 0.5, image: 0.5, location: 1 });
+  });
+
+  it('has no rates when nothing was found', () => {
+    const rates = computeFillRates({ source: 's', events: [], errors: [], executionTime: 0 });
+    expect(rates).toEqual({ date: null, price: null, image: null, location: null });
+  });
+});
+
+describe('computeBaseline', () => {
+  it('needs enough successful history', () => {
+    expect(computeBaseline([snapshot(20), snapshot(0), snapshot(22)])).toBeNull();
+  });
+
+  it('uses medians of runs with events', () => {
+    const baseline = computeBaseline([snapshot(20), snapshot(0), snapshot(30, { image: 0.5 }), snapshot(24)]);
+    expect(baseline).toMatchObject({ runs: 3, parsed: 24 });
+    expect(baseline?.fillRates.image).toBe(0.9);
+  });
+});
+
+describe('detectDrift', () => {
+  const baseline = computeBaseline([snapshot(20), snapshot(22), snapshot(24), snapshot(18)]);
+
+  it('accepts normal variation', () => {
+    expect(detectDrift(snapshot(15, { price: 0.4 }), baseline)).toEqual({ degraded: false, reasons: [] });
+  });
+
+  it('flags a sharp yield drop, including a selector matching nothing', () => {
+    const result = detectDrift(snapshot(0, { date: null, price: null, image: null, location: null }), baseline);
+    expect(result.degraded).toBe(true);
+    expect(result.reasons).toEqual(['Yield dropped to 0 events (baseline 21)']);
+  });
+
+  it('flags fields that stopped being filled', () => {
+    const result = detectDrift(snapshot(21, { image: 0, date: 0.5 }), baseline);
+    expect(result.reasons).toEqual([
+      'date fill rate dropped to 50% (baseline 100%)',
+      'image fill rate dropped to 0% (baseline 90%)',
+    ]);
+  });
+
+  it('does not judge sources without history or with tiny yields', () => {
+    expect(detectDrift(snapshot(0), null).degraded).toBe(false);
+    const small = computeBaseline([snapshot(2), snapshot(3), snapshot(2)]);
+    expect(detectDrift(snapshot(0, { date: null, price: null, image: null, location: null }), small).degraded).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Offline scraper regression tests
+ * Runs every registered scraper against saved HTML snapshots and compares the
+ * resulting RawEvent[] with golden JSON. No network access.
+ *
+ * Update golden files after an intended change: npm run test:update-golden
+ */
+
+import { SCRAPERS, runScraper, ScraperEntry } from '../src/scrapers';
+import { setDefaultHostLimit } from '../src/utils/rateLimiter';
+import { fixtureAxiosGet, listFixtureSources, readGolden, toGolden, useFixtures } from './helpers/fixtures';
+
+jest.mock('axios', () => {
+  const fixtures = jest.requireActual('./helpers/fixtures');
+  return {
+    __esModule: true,
+    default: { get: (url: string) => fixtures.fixtureAxiosGet(url) },
+  };
+});
+
+jest.mock('../src/utils/firecrawlHelper', () => ({
+  ...jest.requireActual('../src/utils/firecrawlHelper'),
+  ...jest.requireActual('./helpers/fixtures').fixtureFirecrawl,
+}));
+
+/**
+ * Run an entry without the politeness delays between listing pages
+ */
+function runWithoutDelay(scraper: ScraperEntry) {
+  if (!('definition' in scraper)) return runScraper(scraper);
+
+  const { definition } = scraper;
+  return runScraper({
+    ...scraper,
+    definition: {
+      ...definition,
+      delayBetweenPages: 0,
+    },
+  });
+}
+
+describe('scrapers against HTML fixtures', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    // Time is frozen in these tests, a waiting host limiter would never release
+    setDefaultHostLimit({ ratePerSecond: Infinity, burst: Infinity });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('has fixtures for every registered scraper', () => {
+    const sources = listFixtureSources();
+    expect(SCRAPERS.map((s) => s.name).filter((name) => !sources.includes(name))).toEqual([]);
+  });
+
+  it('never touches the network', async () => {
+    await expect(fixtureAxiosGet('https://example.com/not-recorded')).rejects.toThrow('No fixture');
+  });
+
+  for (const scraper of SCRAPERS) {
+    it(`${scraper.name} matches golden output`, async () => {
+      const meta = useFixtures(scraper.name);
+
+      // Freeze the clock at capture time - year inference and past-event filters depend on it
+      jest.useFakeTimers({
+        now: new Date(meta.capturedAt),
+        doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout'],
+      });
+
+      const result = await runWithoutDelay(scraper);
+      const actual = toGolden(result);
+
+      expect(result.source).toBe(scraper.name);
+      expect(actual).toEqual(readGolden(scraper.name, actual));
+    });
+  }
+
+  it('stops paginating when a site ignores the page parameter', async () => {
+    const meta = useFixtures('goout.net');
+    jest.useFakeTimers({
+      now: new Date(meta.capturedAt),
+      doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout'],
+    });
+
+    // Every ?page=N of this listing serves the first page again
+    const goout = SCRAPERS.find((s) => s.name === 'goout.net')!;
+    if (!('definition' in goout)) throw new Error('goout.net is a definition scraper');
+    const listing = (maxPages: number) =>
+      runWithoutDelay({
+        ...goout,
+        definition: {
+          ...goout.definition,
+          listUrls: ['https://goout.net/cs/praha/akce-vse'],
+          pagination: { pageParam: 'page', maxPages },
+        },
+      });
+
+    const paged = await listing(3);
+    const single = await listing(1);
+
+    expect(toGolden(paged)).toEqual(toGolden(single));
+    expect(console.log).toHaveBeenCalledWith(
+      '[goout.net] Stopping pagination at https://goout.net/cs/praha/akce-vse?page=2: no new events'
+    );
+  });
+});
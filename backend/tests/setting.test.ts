@@ -0,0 +1,96 @@
+/**
+ * Indoor/outdoor setting tests
+ */
+
+import { combineSetting, inferSetting, mergeSettings } from '../src/utils/setting';
+import { classifyCategories } from '../src/utils/categories';
+import { venueSetting } from '../src/services/venues';
+import { scoreEvent } from '../src/services/scoring';
+import { AgeGroup, RawEvent, Setting, WeatherData } from '../src/types';
+
+function setting(text: string, outdoorKeywords: string[] = []): Setting {
+  return inferSetting(classifyCategories(text).tags, text, outdoorKeywords);
+}
+
+describe('inferSetting', () => {
+  it.each([
+    ['Loutkové divadlo pro nejmenší', 'indoor'],
+    ['Promítání pohádek v kině', 'indoor'],
+    ['Komentované krmení v zoo', 'outdoor'],
+    ['Drakiáda na Ladronce', 'outdoor'],
+    ['Divadlo pod širým nebem', 'outdoor'],
+    ['Dílna v sále, potom hry venku na zahradě', 'mixed'],
+    ['Výtvarná dílna pro děti', 'unknown'],
+    ['', 'unknown'],
+  ])('%s is %s', (text, expected) => {
+    expect(setting(text)).toBe(expected);
+  });
+
+  it('prefers explicit keywords over the usual setting of the category', () => {
+    expect(setting('Výstava v zahradě pod širým nebem')).toBe('outdoor');
+    expect(setting('Zvířátka v kryté herně')).toBe('indoor');
+  });
+
+  it('uses source-specific outdoor keywords', () => {
+    expect(setting('Výtvarná dílna na náplavce', ['náplav'])).toBe('outdoor');
+  });
+});
+
+describe('mergeSettings', () => {
+  it.each<[Setting | undefined, Setting | undefined, Setting]>([
+    ['indoor', 'indoor', 'indoor'],
+    ['indoor', 'outdoor', 'mixed'],
+    ['unknown', 'outdoor', 'outdoor'],
+    ['indoor', undefined, 'indoor'],
+    ['mixed', 'indoor', 'mixed'],
+    [undefined, undefined, 'unknown'],
+  ])('%s and %s make %s', (a, b, expected) => {
+    expect(mergeSettings(a, b)).toBe(expected);
+  });
+});
+
+describe('venue setting', () => {
+  it('falls back to the venue facilities only when the text says nothing', () => {
+    expect(venueSetting('unknown', { hasIndoor: true, hasOutdoor: true })).toBe('mixed');
+    expect(venueSetting(undefined, { hasIndoor: false, hasOutdoor: true })).toBe('outdoor');
+    expect(venueSetting('indoor', { hasIndoor: false, hasOutdoor: true })).toBe('indoor');
+    expect(combineSetting(false, false)).toBe('unknown');
+  });
+});
+
+describe('weather scoring', () => {
+  const sunny: WeatherData = { date: '2025-06-07', temperature: 24, condition: 'sunny', isGoodForOutdoor: true };
+  const rainy: WeatherData = { date: '2025-06-07', temperature: 12, condition: 'rain', isGoodForOutdoor: false };
+
+  function typeScore(eventSetting: Setting | undefined, weather?: WeatherData): number {
+    const event: RawEvent = {
+      externalId: 'test-1',
+      source: 'test',
+      title: 'Rodinné odpoledne',
+      category: 'other',
+      startDateTime: new Date('2025-06-07T10:00:00Z'),
+      setting: eventSetting,
+    };
+    return scoreEvent(event, AgeGroup.CHILD, weather).factors.eventTypeScore;
+  }
+
+  it('moves outdoor events up in good weather and down in bad weather', () => {
+    expect(typeScore('outdoor', sunny)).toBeGreaterThan(typeScore('outdoor'));
+    expect(typeScore('outdoor', rainy)).toBeLessThan(typeScore('outdoor'));
+  });
+
+  it('moves indoor events up in bad weather', () => {
+    expect(typeScore('indoor', rainy)).toBeGreaterThan(typeScore('indoor', sunny));
+  });
+
+  it('scores mixed events between indoor and outdoor', () => {
+    expect(typeScore('mixed', sunny)).toBeLessThan(typeScore('outdoor', sunny));
+    expect(typeScore('mixed', rainy)).toBeGreaterThan(typeScore('outdoor', rainy));
+  });
+
+  it('leaves unknown settings neutral in any weather', () => {
+    expect(typeScore('unknown', sunny)).toBe(typeScore('unknown'));
+    expect(typeScore('unknown', rainy)).toBe(typeScore('unknown'));
+    expect(typeScore(undefined, rainy)).toBe(typeScore('unknown'));
+  });
+});
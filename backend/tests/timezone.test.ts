@@ -0,0 +1,103 @@
+/**
+ * Europe/Prague time handling tests
+ * Run with the process in another timezone: results must not depend on where the server runs.
+ */
+
+import {
+  addPragueDays,
+  atPragueTime,
+  pragueDateKey,
+  pragueDayEnd,
+  pragueDayStart,
+  pragueTime,
+  pragueWallClock,
+} from '../src/utils/timezone';
+import { combineDateAndTime } from '../src/utils/dateParser';
+import { expandOccurrences } from '../src/services/occurrences';
+import { isOpenOn } from '../src/utils/openingHours';
+import { scoreEvent } from '../src/services/scoring';
+import { AgeGroup } from '../src/types';
+
+const SERVER_TIMEZONE = process.env.TZ;
+
+beforeAll(() => {
+  process.env.TZ = 'America/Los_Angeles';
+});
+
+afterAll(() => {
+  process.env.TZ = SERVER_TIMEZONE;
+});
+
+describe('Prague wall-clock helpers', () => {
+  it.each([
+    [2025, 7, 1, 10, '2025-07-01T08:00:00.000Z'],
+    [2025, 12, 1, 10, '2025-12-01T09:00:00.000Z'],
+    [2025, 10, 26, 1, '2025-10-25T23:00:00.000Z'],
+    [2025, 10, 26, 3, '2025-10-26T02:00:00.000Z'],
+    [2026, 3, 29, 1, '2026-03-29T00:00:00.000Z'],
+    [2026, 3, 29, 3, '2026-03-29T01:00:00.000Z'],
+  ])('%i-%i-%i %i:00 Prague is %s', (year, month, day, hours, instant) => {
+    expect(pragueTime(year, month, day, hours).toISOString()).toBe(instant);
+  });
+
+  it('moves times skipped by the spring change forward', () => {
+    expect(pragueTime(2026, 3, 29, 2, 30).toISOString()).toBe('2026-03-29T01:30:00.000Z');
+  });
+
+  it('reads the Prague day of instants near midnight', () => {
+    expect(pragueDateKey(new Date('2025-07-01T22:30:00Z'))).toBe('2025-07-02');
+    expect(pragueDateKey(new Date('2025-12-01T22:30:00Z'))).toBe('2025-12-01');
+    expect(pragueWallClock(new Date('2025-07-01T22:30:00Z'))).toMatchObject({ hours: 0, minutes: 30, weekday: 3 });
+  });
+
+  it('has 23 and 25 hour days at the DST changes', () => {
+    const spring = pragueDayStart(new Date('2026-03-29T12:00:00Z'));
+    const autumn = pragueDayStart(new Date('2025-10-26T12:00:00Z'));
+
+    expect(spring.toISOString()).toBe('2026-03-28T23:00:00.000Z');
+    expect(pragueDayEnd(spring).getTime() - spring.getTime() + 1).toBe(23 * 3600 * 1000);
+    expect(pragueDayEnd(autumn).getTime() - autumn.getTime() + 1).toBe(25 * 3600 * 1000);
+  });
+
+  it('keeps the wall-clock time when adding days across a DST change', () => {
+    const saturday = pragueTime(2026, 3, 28, 10);
+    expect(pragueWallClock(addPragueDays(saturday, 1))).toMatchObject({ day: 29, hours: 10, minutes: 0 });
+    expect(pragueWallClock(atPragueTime(saturday, 18, 30))).toMatchObject({ day: 28, hours: 18, minutes: 30 });
+  });
+});
+
+describe('event times in Prague', () => {
+  it('combines date and time as Prague time', () => {
+    expect(combineDateAndTime('18. 10. 2025', '23:30')?.toISOString()).toBe('2025-10-18T21:30:00.000Z');
+    expect(combineDateAndTime('18. 1. 2026', '23:30')?.toISOString()).toBe('2026-01-18T22:30:00.000Z');
+  });
+
+  it('repeats weekly occurrences at the same Prague time across DST changes', () => {
+    const spans = expandOccurrences(
+      { startDateTime: pragueTime(2025, 10, 18, 10), recurrence: { weekdays: [6] } },
+      { from: pragueTime(2025, 10, 18), to: pragueTime(2025, 11, 1) }
+    );
+
+    expect(spans.map((span) => span.startDateTime.toISOString())).toEqual([
+      '2025-10-18T08:00:00.000Z',
+      '2025-10-25T08:00:00.000Z',
+      '2025-11-01T09:00:00.000Z',
+    ]);
+  });
+
+  it('checks opening hours on the Prague day', () => {
+    // Sunday 00:30 in Prague, still Saturday in UTC
+    expect(isOpenOn(['Su 09:00-17:00'], new Date('2025-11-08T23:30:00Z'))).toBe(true);
+  });
+
+  it('scores timing on the Prague day and hour', () => {
+    const event = {
+      externalId: 'test-1',
+      source: 'test',
+      title: 'Pohádka',
+      startDateTime: pragueTime(2025, 11, 8, 9, 30), // Saturday morning
+    };
+
+    expect(scoreEvent(event, AgeGroup.TODDLER).factors.timingScore).toBe(10);
+  });
+});
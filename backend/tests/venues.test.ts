@@ -0,0 +1,60 @@
+/**
+ * Venue matching tests
+ */
+
+import { matchVenue, normalizeAddress, normalizeVenueName, VenueRecord } from '../src/services/venues';
+
+function venue(name: string, fields: Partial<VenueRecord> = {}): VenueRecord {
+  return { name, aliases: [], normalizedAddress: null, latitude: null, longitude: null, ...fields };
+}
+
+const NTM = venue('Národní technické muzeum', { normalizedAddress: 'kostelni 1320', latitude: 50.0975, longitude: 14.4254 });
+const ZOO = venue('Zoo Praha', { aliases: ['Zoologická zahrada Praha'], normalizedAddress: 'u trojskeho zamku 3' });
+const MINOR = venue('Divadlo Minor', { latitude: 50.0807, longitude: 14.4249 });
+const VENUES = [NTM, ZOO, MINOR];
+
+describe('normalizeVenueName', () => {
+  it.each([
+    ['Národní technické muzeum, Kostelní 42, Praha 7', 'narodni technicke muzeum'],
+    ['NTM Praha', 'ntm'],
+    ['Divadlo v Praze', 'divadlo'],
+    ['Ententyky, z.ú.', 'ententyky'],
+  ])('"%s" -> "%s"', (name, expected) => {
+    expect(normalizeVenueName(name)).toBe(expected);
+  });
+});
+
+describe('normalizeAddress', () => {
+  it.each([
+    ['U Trojského zámku 3/120, 171 00 Praha 7', 'u trojskeho zamku 3'],
+    ['Kostelní 1320/42, Praha 7', 'kostelni 1320'],
+    ['Praha 7', null],
+    ['171 00 Praha', null],
+  ])('"%s" -> %s', (address, expected) => {
+    expect(normalizeAddress(address)).toBe(expected);
+  });
+});
+
+describe('matchVenue', () => {
+  it('matches names regardless of diacritics, case and city', () => {
+    expect(matchVenue({ locationName: 'NARODNI TECHNICKE MUZEUM Praha' }, VENUES)).toBe(NTM);
+    expect(matchVenue({ locationName: 'Zoologická zahrada Praha, Troja' }, VENUES)).toBe(ZOO);
+  });
+
+  it('matches acronyms of known names', () => {
+    expect(matchVenue({ locationName: 'NTM Praha' }, VENUES)).toBe(NTM);
+  });
+
+  it('matches the same street address under another name', () => {
+    expect(matchVenue({ locationName: 'Pavilon goril', address: 'U Trojského zámku 3, Praha 7' }, VENUES)).toBe(ZOO);
+  });
+
+  it('matches nearby venues with a similar name', () => {
+    expect(matchVenue({ locationName: 'Minor', latitude: 50.0808, longitude: 14.425 }, VENUES)).toBe(MINOR);
+    expect(matchVenue({ locationName: 'Minor', latitude: 50.09, longitude: 14.43 }, VENUES)).toBeNull();
+  });
+
+  it('does not match unrelated places', () => {
+    expect(matchVenue({ locationName: 'Národní muzeum', address: 'Václavské náměstí 68, Praha 1' }, VENUES)).toBeNull();
+  });
+});
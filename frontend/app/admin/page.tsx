@@ -6,7 +6,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { adminAPI } from '@/lib/api';
+import { adminAPI, Provenance } from '@/lib/api';
+import { formatProvenance } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import {
@@ -20,19 +21,46 @@ import {
   TrendingUp,
   XCircle,
   ArrowLeft,
+  GitMerge,
 } from 'lucide-react';
 import Link from 'next/link';
 
 interface ScraperHealth {
   source: string;
   status: 'healthy' | 'warning' | 'error';
+  reason: string | null;
   totalEvents: number;
   recentEvents: number;
   lastActive: string | null;
+  lastSuccessAt: string | null;
+  consecutiveFailures: number;
+  errorCounts: Record<
+    'network' | 'selector-miss' | 'parse-failure' | 'firecrawl-unavailable' | 'renderer-unavailable' | 'replay-miss',
+    number
+  >;
+  degraded: boolean;
+  degradedReasons: string[];
+  lastRun: {
+    found: number;
+    parsed: number;
+    missingDate: number;
+    deduplicated: number;
+    outOfRadius: number;
+    stored: number;
+    updated: number;
+    unchanged: number;
+    dateFillRate: number | null;
+    priceFillRate: number | null;
+    imageFillRate: number | null;
+    locationFillRate: number | null;
+  } | null;
 }
 
+const formatRate = (rate: number | null) => (rate === null ? '–' : `${Math.round(rate * 100)}%`);
+
 interface QualityStats {
   source: string;
+  accuracy: number;
   totalEvents: number;
   avgScores: {
     toddler: number;
@@ -45,9 +73,18 @@ interface QualityStats {
   hasPrice: number;
 }
 
+interface MergedEvent {
+  id: string;
+  title: string;
+  startDateTime: string;
+  provenance: Provenance;
+  sources: { id: string; source: string }[];
+}
+
 export default function AdminPage() {
   const [healthData, setHealthData] = useState<any>(null);
   const [qualityData, setQualityData] = useState<any>(null);
+  const [mergedEvents, setMergedEvents] = useState<MergedEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [scraping, setScraping] = useState<string | null>(null);
   const [scrapeResult, setScrapeResult] = useState<any>(null);
@@ -59,12 +96,14 @@ export default function AdminPage() {
   const loadData = async () => {
     try {
       setLoading(true);
-      const [health, quality] = await Promise.all([
+      const [health, quality, merged] = await Promise.all([
         adminAPI.getScraperHealth(),
         adminAPI.getQualityStats(),
+        adminAPI.getMergedEvents(),
       ]);
       setHealthData(health);
       setQualityData(quality);
+      setMergedEvents(merged.events);
     } catch (error) {
       console.error('Failed to load admin data:', error);
     } finally {
@@ -180,6 +219,9 @@ export default function AdminPage() {
               <p className="text-2xl font-bold text-yellow-600">
                 {healthData?.warningScraper || 0}
               </p>
+              {healthData?.degradedScraper > 0 && (
+                <p className="text-xs text-yellow-700">{healthData.degradedScraper} degraded</p>
+              )}
             </div>
           </div>
         </Card>
@@ -264,10 +306,49 @@ export default function AdminPage() {
                     >
                       {scraper.status}
                     </span>
+                    {scraper.degraded && (
+                      <span className="px-2 py-1 text-xs font-medium rounded-full bg-orange-100 text-orange-800">
+                        degraded
+                      </span>
+                    )}
                   </div>
                   <p className="text-sm text-muted-foreground">
-                    {scraper.totalEvents} total events, {scraper.recentEvents} recent
+                    {scraper.totalEvents} total events, {scraper.recentEvents} in last run
+                    {scraper.lastActive && ` · ${new Date(scraper.lastActive).toLocaleString('cs-CZ')}`}
                   </p>
+                  {scraper.reason && (
+                    <p className="text-sm text-muted-foreground">{scraper.reason}</p>
+                  )}
+                  {scraper.lastRun && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      found {scraper.lastRun.found} → parsed {scraper.lastRun.parsed}
+                      {' '}(no date {scraper.lastRun.missingDate}, duplicates {scraper.lastRun.deduplicated},
+                      {' '}too far {scraper.lastRun.outOfRadius}) → {scraper.lastRun.stored} new,
+                      {' '}{scraper.lastRun.updated} updated, {scraper.lastRun.unchanged} unchanged
+                    </p>
+                  )}
+                  {scraper.lastRun && (
+                    <p className="text-xs text-muted-foreground">
+                      fill rates: date {formatRate(scraper.lastRun.dateFillRate)},
+                      {' '}price {formatRate(scraper.lastRun.priceFillRate)},
+                      {' '}image {formatRate(scraper.lastRun.imageFillRate)},
+                      {' '}location {formatRate(scraper.lastRun.locationFillRate)}
+                    </p>
+                  )}
+                  {Object.entries(scraper.errorCounts || {}).some(([, count]) => count > 0) && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {Object.entries(scraper.errorCounts)
+                        .filter(([, count]) => count > 0)
+                        .map(([type, count]) => (
+                          <span
+                            key={type}
+                            className="px-2 py-0.5 text-xs rounded-full bg-red-50 text-red-700"
+                          >
+                            {type}: {count}
+                          </span>
+                        ))}
+                    </div>
+                  )}
                 </div>
               </div>
               <Button
@@ -299,6 +380,7 @@ export default function AdminPage() {
               <tr className="border-b">
                 <th className="text-left p-2">Source</th>
                 <th className="text-right p-2">Events</th>
+                <th className="text-right p-2">Accuracy</th>
                 <th className="text-right p-2">Completeness</th>
                 <th className="text-right p-2">Has Image</th>
                 <th className="text-right p-2">Has Location</th>
@@ -311,6 +393,7 @@ export default function AdminPage() {
                 <tr key={source.source} className="border-b hover:bg-gray-50">
                   <td className="p-2 font-medium">{source.source}</td>
                   <td className="text-right p-2">{source.totalEvents}</td>
+                  <td className="text-right p-2">{formatRate(source.accuracy)}</td>
                   <td className="text-right p-2">
                     <div className="flex items-center justify-end gap-2">
                       <div className="w-16 h-2 bg-gray-200 rounded-full overflow-hidden">
@@ -340,6 +423,30 @@ export default function AdminPage() {
         </div>
       </Card>
 
+      {/* Merged Events */}
+      {mergedEvents.length > 0 && (
+        <Card className="p-6 mt-6">
+          <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+            <GitMerge className="w-5 h-5" />
+            Merged Events
+          </h2>
+          <ul className="space-y-2 text-sm">
+            {mergedEvents.map((event) => (
+              <li key={event.id} className="border-b pb-2">
+                <Link href={`/events/${event.id}`} className="font-medium hover:underline">
+                  {event.title}
+                </Link>
+                <span className="text-muted-foreground">
+                  {' '}
+                  ({event.sources.map((source) => source.source).join(', ')})
+                </span>
+                <div className="text-muted-foreground">{formatProvenance(event.provenance)}</div>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
       {/* Last Scrape Info */}
       {healthData?.lastScrape && (
         <div className="mt-6 text-center text-sm text-muted-foreground flex items-center justify-center gap-2">
@@ -11,11 +11,21 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { EventCard } from '@/components/event-card';
 import { eventAPI, statsAPI } from '@/lib/api';
-import { Baby, User, Users, Calendar, Map, Settings } from 'lucide-react';
+import { Baby, User, Users, Calendar, Map, Settings, MapPin, Clock } from 'lucide-react';
+
+interface FallbackPlace {
+  id: string;
+  name: string;
+  description?: string;
+  address?: string;
+  openingHours: string[];
+  url?: string;
+}
 
 export default function DashboardPage() {
   const [stats, setStats] = useState<any>(null);
   const [recentEvents, setRecentEvents] = useState<any[]>([]);
+  const [fallbackPlaces, setFallbackPlaces] = useState<FallbackPlace[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -31,6 +41,7 @@ export default function DashboardPage() {
       ]);
       setStats(statsData.stats);
       setRecentEvents(eventsData.events || []);
+      setFallbackPlaces(eventsData.fallbackPlaces || []);
     } catch (error) {
       console.error('Failed to load dashboard:', error);
     } finally {
@@ -228,6 +239,43 @@ export default function DashboardPage() {
         )}
       </div>
 
+      {/* Always-open places, suggested when few events are scheduled */}
+      {!loading && fallbackPlaces.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-2xl font-bold mb-1">Nothing much scheduled?</h2>
+          <p className="text-muted-foreground mb-4">These places are open today</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {fallbackPlaces.map((place) => (
+              <Card key={place.id}>
+                <CardHeader>
+                  <CardTitle className="text-lg">{place.name}</CardTitle>
+                  {place.description && <CardDescription>{place.description}</CardDescription>}
+                </CardHeader>
+                <CardContent className="space-y-1 text-sm text-muted-foreground">
+                  {place.address && (
+                    <p className="flex items-center gap-2">
+                      <MapPin className="w-4 h-4" />
+                      {place.address}
+                    </p>
+                  )}
+                  {place.openingHours.length > 0 && (
+                    <p className="flex items-center gap-2">
+                      <Clock className="w-4 h-4" />
+                      {place.openingHours.join(', ')}
+                    </p>
+                  )}
+                  {place.url && (
+                    <a href={place.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                      More info →
+                    </a>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Quick Tips */}
       <Card className="bg-blue-50 border-blue-200">
         <CardHeader>
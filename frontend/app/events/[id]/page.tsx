@@ -9,13 +9,157 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { eventAPI } from '@/lib/api';
-import { ArrowLeft, MapPin, Clock, Euro, Calendar, ExternalLink } from 'lucide-react';
+import { formatProvenance } from '@/lib/utils';
+import { ArrowLeft, MapPin, Clock, Euro, Calendar, ExternalLink, History } from 'lucide-react';
 import Link from 'next/link';
 import { format } from 'date-fns';
 import { cs } from 'date-fns/locale';
 
+interface EventOccurrence {
+  id: string;
+  startDateTime: string;
+  endDateTime: string | null;
+}
+
+interface EventSource {
+  id: string;
+  source: string;
+  externalId: string;
+  bookingUrl: string | null;
+}
+
+interface PriceTier {
+  label: 'adult' | 'child' | 'toddler' | 'family' | 'reduced' | 'general';
+  amount: number;
+  currency: 'CZK' | 'EUR';
+  maxAmount?: number;
+  isFrom?: boolean;
+  ageMin?: number;
+  ageMax?: number;
+  withEntry?: boolean;
+}
+
+interface EventRevision {
+  id: string;
+  field: string;
+  kind: string;
+  oldValue: string | number | boolean | string[] | PriceTier[] | null;
+  newValue: string | number | boolean | string[] | PriceTier[] | null;
+  createdAt: string;
+}
+
+const TIER_LABELS: Record<PriceTier['label'], string> = {
+  adult: 'Dospělí',
+  child: 'Děti',
+  toddler: 'Nejmenší',
+  family: 'Rodinné vstupné',
+  reduced: 'Zlevněné',
+  general: 'Vstupné',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  startDateTime: 'Start',
+  endDateTime: 'End',
+  durationMinutes: 'Duration',
+  adultPrice: 'Adult price',
+  childPrice: 'Child price',
+  familyPrice: 'Family price',
+  priceTiers: 'Tickets',
+  locationName: 'Location',
+  address: 'Address',
+  description: 'Description',
+  title: 'Title',
+  category: 'Category',
+  tags: 'Tags',
+  ageMin: 'Minimum age',
+  ageMax: 'Maximum age',
+  ageConfidence: 'Age confidence',
+  setting: 'Setting',
+  isOutdoor: 'Outdoor',
+  imageUrl: 'Image',
+  bookingUrl: 'Booking link',
+  status: 'Status',
+  recurrenceRule: 'Schedule',
+};
+
+const VENUE_FACILITIES = [
+  { key: 'strollerAccess', label: 'Stroller access' },
+  { key: 'changingTable', label: 'Changing table' },
+  { key: 'parking', label: 'Parking' },
+  { key: 'hasIndoor', label: 'Indoor areas' },
+  { key: 'hasOutdoor', label: 'Outdoor areas' },
+];
+
+// Shown instead of the indoor/outdoor tags; unknown has no badge
+const SETTING_LABELS: Record<string, string> = {
+  indoor: 'Uvnitř',
+  outdoor: 'Venku',
+  mixed: 'Venku i uvnitř',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  active: 'Active',
+  possibly_removed: 'Possibly removed',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Age in decimal years as shown to parents; under 2 years in months ("18 měs.")
+ */
+function formatAge(age: number): string {
+  return age < 2 ? `${Math.round(age * 12)} měs.` : `${String(age).replace('.', ',')} let`;
+}
+
+/**
+ * Age range as shown to parents, e.g. "18 měs.–3 let", "od 6 let"; null when unknown
+ */
+function formatAgeRange(ageMin?: number | null, ageMax?: number | null): string | null {
+  if (ageMin != null && ageMax != null) return `${formatAge(ageMin)}–${formatAge(ageMax)}`;
+  if (ageMin != null) return `od ${formatAge(ageMin)}`;
+  if (ageMax != null) return `do ${formatAge(ageMax)}`;
+  return null;
+}
+
+/**
+ * Ticket tier as shown to parents, e.g. "Děti 3–15 let: 80 Kč"
+ */
+function formatPriceTier(tier: PriceTier): string {
+  const ageRange = formatAgeRange(tier.ageMin, tier.ageMax);
+  const ages = ageRange ? ` ${ageRange}` : '';
+  const currency = tier.currency === 'EUR' ? '€' : 'Kč';
+  const amount =
+    tier.amount === 0
+      ? 'zdarma'
+      : `${tier.isFrom ? 'od ' : ''}${tier.amount}${tier.maxAmount ? `–${tier.maxAmount}` : ''} ${currency}`;
+
+  return `${TIER_LABELS[tier.label]}${ages}: ${amount}${tier.withEntry ? ' (ke vstupnému)' : ''}`;
+}
+
+/**
+ * Human-readable value of a revision field
+ */
+function formatRevisionValue(field: string, value: EventRevision['oldValue']): string {
+  if (value === null || value === '') return '—';
+  if (Array.isArray(value) && value.length === 0) return '—';
+  if (field === 'tags') return (value as string[]).join(', ');
+  if (Array.isArray(value)) return (value as PriceTier[]).map(formatPriceTier).join(', ');
+  if (field === 'startDateTime' || field === 'endDateTime') {
+    return format(new Date(String(value)), 'd. M. yyyy HH:mm', { locale: cs });
+  }
+  if (field.endsWith('Price')) return `${value} Kč`;
+  if (field === 'durationMinutes') return `${value} min`;
+  if (field === 'ageMin' || field === 'ageMax') return formatAge(Number(value));
+  if (field === 'ageConfidence') return `${Math.round(Number(value) * 100)} %`;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (field === 'status') return STATUS_LABELS[String(value)] || String(value);
+  if (field === 'setting') return SETTING_LABELS[String(value)] || String(value);
+  return String(value);
+}
+
 export default function EventDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const [event, setEvent] = useState<any>(null);
+  const [revisions, setRevisions] = useState<EventRevision[]>([]);
+  const [categoryLabels, setCategoryLabels] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
   const [eventId, setEventId] = useState<string | null>(null);
 
@@ -41,6 +185,22 @@ export default function EventDetailPage({ params }: { params: Promise<{ id: stri
     } finally {
       setLoading(false);
     }
+
+    // Labels are optional - tags show their ids without them
+    try {
+      const categories = await eventAPI.getCategories();
+      setCategoryLabels(Object.fromEntries(categories.map((category) => [category.id, category.cs])));
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    }
+
+    // History is optional - the page works without it
+    try {
+      const history = await eventAPI.getEventHistory(eventId);
+      setRevisions(history.revisions || []);
+    } catch (error) {
+      console.error('Failed to load event history:', error);
+    }
   };
 
   if (loading) {
@@ -72,6 +232,7 @@ export default function EventDetailPage({ params }: { params: Promise<{ id: stri
   }
 
   const startDate = new Date(event.startDateTime);
+  const occurrences: EventOccurrence[] = event.occurrences || [];
 
   return (
     <div className="container mx-auto p-6 max-w-4xl">
@@ -84,6 +245,24 @@ export default function EventDetailPage({ params }: { params: Promise<{ id: stri
         </Link>
       </div>
 
+      {/* Status Notice */}
+      {event.status === 'cancelled' && (
+        <div className="mb-6 rounded-lg border border-red-300 bg-red-50 p-4 text-red-800">
+          <p className="font-semibold">Zrušeno (Cancelled)</p>
+          <p className="text-sm">The organizer has cancelled this event.</p>
+        </div>
+      )}
+      {event.status === 'possibly_removed' && (
+        <div className="mb-6 rounded-lg border border-amber-300 bg-amber-50 p-4 text-amber-800">
+          <p className="font-semibold">Possibly removed</p>
+          <p className="text-sm">
+            The source no longer lists this event
+            {event.lastSeenAt && ` (last seen ${format(new Date(event.lastSeenAt), 'd. M. yyyy', { locale: cs })})`}.
+            Check with the organizer before going.
+          </p>
+        </div>
+      )}
+
       {/* Event Image */}
       {event.imageUrl && (
         <div className="mb-6 rounded-lg overflow-hidden">
@@ -102,9 +281,14 @@ export default function EventDetailPage({ params }: { params: Promise<{ id: stri
             <div className="flex-1">
               <CardTitle className="text-2xl mb-2">{event.title}</CardTitle>
               <div className="flex gap-2 flex-wrap">
-                {event.category && (
-                  <Badge variant="outline">{event.category}</Badge>
-                )}
+                {(event.tags?.length ? event.tags : [event.category])
+                  .filter((tag: string) => tag && tag !== 'indoor' && tag !== 'outdoor')
+                  .map((tag: string) => (
+                    <Badge key={tag} variant="outline">
+                      {categoryLabels[tag] || tag}
+                    </Badge>
+                  ))}
+                {SETTING_LABELS[event.setting] && <Badge variant="secondary">{SETTING_LABELS[event.setting]}</Badge>}
                 <Badge className="bg-blue-600">
                   Toddler: {event.scoreToddler}/100
                 </Badge>
@@ -151,6 +335,23 @@ export default function EventDetailPage({ params }: { params: Promise<{ id: stri
             </div>
           </div>
 
+          {/* Upcoming dates of multi-day and recurring events */}
+          {occurrences.length > 1 && (
+            <div>
+              <h3 className="font-semibold mb-2">Upcoming dates</h3>
+              <div className="flex flex-wrap gap-2">
+                {occurrences.slice(0, 14).map((occurrence) => (
+                  <Badge key={occurrence.id} variant="outline">
+                    {format(new Date(occurrence.startDateTime), 'EEE d. M. HH:mm', { locale: cs })}
+                  </Badge>
+                ))}
+                {occurrences.length > 14 && (
+                  <Badge variant="secondary">+{occurrences.length - 14} more</Badge>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Location */}
           {event.locationName && (
             <div className="flex items-start gap-3">
@@ -161,6 +362,18 @@ export default function EventDetailPage({ params }: { params: Promise<{ id: stri
                 {event.address && (
                   <p className="text-sm text-muted-foreground">{event.address}</p>
                 )}
+                {event.venue && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {VENUE_FACILITIES.filter(({ key }) => event.venue[key]).map(({ key, label }) => (
+                      <Badge key={key} variant="secondary">{label}</Badge>
+                    ))}
+                  </div>
+                )}
+                {event.venue?.openingHours?.length > 0 && (
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    Opening hours: {event.venue.openingHours.join(', ')}
+                  </p>
+                )}
                 {event.distanceFromPrague && (
                   <p className="text-sm text-muted-foreground">
                     {event.distanceFromPrague.toFixed(1)} km from Prague center
@@ -175,7 +388,18 @@ export default function EventDetailPage({ params }: { params: Promise<{ id: stri
             <Euro className="w-5 h-5 mt-0.5 text-muted-foreground" />
             <div>
               <p className="font-semibold">Price</p>
-              {event.adultPrice === 0 && event.childPrice === 0 ? (
+              {event.priceTiers?.length > 0 ? (
+                <div className="space-y-1 text-muted-foreground">
+                  {(event.priceTiers as PriceTier[]).map((tier, index) => (
+                    <p
+                      key={index}
+                      className={tier.amount === 0 && !tier.withEntry ? 'text-green-600 font-semibold' : undefined}
+                    >
+                      {formatPriceTier(tier)}
+                    </p>
+                  ))}
+                </div>
+              ) : event.adultPrice === 0 && event.childPrice === 0 ? (
                 <p className="text-green-600 font-semibold">Zdarma (Free)</p>
               ) : (
                 <div className="space-y-1 text-muted-foreground">
@@ -192,16 +416,40 @@ export default function EventDetailPage({ params }: { params: Promise<{ id: stri
           </div>
 
           {/* Age Range */}
-          {(event.ageMin || event.ageMax) && (
+          {formatAgeRange(event.ageMin, event.ageMax) && (
             <div>
               <p className="font-semibold mb-1">Age Range</p>
-              <p className="text-muted-foreground">
-                {event.ageMin && event.ageMax
-                  ? `${event.ageMin} - ${event.ageMax} let`
-                  : event.ageMin
-                  ? `Od ${event.ageMin} let`
-                  : `Do ${event.ageMax} let`}
-              </p>
+              <p className="text-muted-foreground">{formatAgeRange(event.ageMin, event.ageMax)}</p>
+            </div>
+          )}
+
+          {/* Change History */}
+          {revisions.length > 0 && (
+            <div className="flex items-start gap-3">
+              <History className="w-5 h-5 mt-0.5 text-muted-foreground" />
+              <div className="flex-1">
+                <p className="font-semibold mb-1">Changes</p>
+                <ul className="space-y-1 text-sm text-muted-foreground">
+                  {revisions.map((revision) => (
+                    <li key={revision.id}>
+                      <span className="text-xs">
+                        {format(new Date(revision.createdAt), 'd. M. yyyy', { locale: cs })}
+                      </span>{' '}
+                      <span className="font-medium text-foreground">
+                        {FIELD_LABELS[revision.field] || revision.field}
+                      </span>
+                      {revision.kind === 'description' ? (
+                        ' updated'
+                      ) : (
+                        <>
+                          : {formatRevisionValue(revision.field, revision.oldValue)} →{' '}
+                          {formatRevisionValue(revision.field, revision.newValue)}
+                        </>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
             </div>
           )}
 
@@ -221,9 +469,26 @@ export default function EventDetailPage({ params }: { params: Promise<{ id: stri
             </div>
           )}
 
-          {/* Source */}
+          {/* Sources, each with its own booking link */}
           <div className="text-sm text-muted-foreground border-t pt-4">
-            Source: {event.source}
+            {event.sources?.length > 1 ? 'Sources: ' : 'Source: '}
+            {event.sources?.length
+              ? event.sources.map((source: EventSource, index: number) => (
+                  <span key={source.id}>
+                    {index > 0 && ', '}
+                    {source.bookingUrl ? (
+                      <a href={source.bookingUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                        {source.source}
+                      </a>
+                    ) : (
+                      source.source
+                    )}
+                  </span>
+                ))
+              : event.source}
+            {event.sources?.length > 1 && formatProvenance(event.provenance) && (
+              <div className="mt-1">Merged: {formatProvenance(event.provenance)}</div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -20,6 +20,8 @@ import {
 } from '@/components/ui/dialog';
 import { MapPin, Clock, Euro, Calendar as CalendarIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import type { FamilyCost } from '@/lib/api';
+import { familyTicketLabel } from '@/lib/utils';
 
 // Setup date-fns localizer for Czech locale
 const locales = {
@@ -42,9 +44,7 @@ interface Event {
   endDateTime?: Date | string;
   locationName?: string;
   distanceFromPrague?: number;
-  adultPrice?: number;
-  childPrice?: number;
-  familyPrice?: number;
+  familyCost?: FamilyCost | null;
   category?: string;
   imageUrl?: string;
   bookingUrl?: string;
@@ -147,22 +147,6 @@ export function CalendarView({ events, view, onEventClick }: CalendarViewProps)
     [onEventClick]
   );
 
-  // Calculate best price
-  const calculateBestPrice = (
-    adultPrice?: number,
-    childPrice?: number,
-    familyPrice?: number
-  ): { price: number; label: string } => {
-    const individual = (adultPrice || 0) * 2 + (childPrice || adultPrice || 0);
-
-    if (familyPrice && familyPrice < individual) {
-      const savings = individual - familyPrice;
-      return { price: familyPrice, label: `Rodinné (úspora ${savings} Kč)` };
-    }
-
-    return { price: individual, label: 'Individuální' };
-  };
-
   return (
     <>
       <div className="h-[700px] bg-white p-4 rounded-lg shadow">
@@ -295,16 +279,16 @@ export function CalendarView({ events, view, onEventClick }: CalendarViewProps)
               <div className="flex items-center gap-2 text-sm">
                 <Euro className="w-4 h-4" />
                 {(() => {
-                  const { price, label } = calculateBestPrice(
-                    selectedEvent.adultPrice,
-                    selectedEvent.childPrice,
-                    selectedEvent.familyPrice
-                  );
-                  return price === 0 ? (
+                  const cost = selectedEvent.familyCost;
+                  if (!cost) return <span>Cena neuvedena</span>;
+                  return cost.total === 0 ? (
                     <span className="text-green-600 font-semibold">Zdarma</span>
                   ) : (
                     <span>
-                      {price} Kč <span className="text-xs">({label})</span>
+                      {cost.total} Kč{' '}
+                      <span className="text-xs">
+                        ({familyTicketLabel(cost)})
+                      </span>
                     </span>
                   );
                 })()}
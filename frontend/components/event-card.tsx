@@ -8,6 +8,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { format } from 'date-fns';
 import { cs } from 'date-fns/locale';
 import { MapPin, Clock, Euro, Calendar } from 'lucide-react';
+import type { FamilyCost } from '@/lib/api';
+import { familyTicketLabel } from '@/lib/utils';
 
 interface Event {
   id: string;
@@ -16,9 +18,7 @@ interface Event {
   startDateTime: Date | string;
   locationName?: string;
   distanceFromPrague?: number;
-  adultPrice?: number;
-  childPrice?: number;
-  familyPrice?: number;
+  familyCost?: FamilyCost | null;
   category?: string;
   imageUrl?: string;
   scoreToddler: number;
@@ -49,24 +49,6 @@ function getScoreBadge(score: number): { color: string; label: string; emoji: st
   }
 }
 
-/**
- * Calculate best family price
- */
-function calculateBestPrice(
-  adultPrice?: number,
-  childPrice?: number,
-  familyPrice?: number
-): { price: number; label: string } {
-  const individual = (adultPrice || 0) * 2 + (childPrice || adultPrice || 0);
-
-  if (familyPrice && familyPrice < individual) {
-    const savings = individual - familyPrice;
-    return { price: familyPrice, label: `Rodinné (úspora ${savings} Kč)` };
-  }
-
-  return { price: individual, label: 'Individuální' };
-}
-
 export function EventCard({ event, view, onClick }: EventCardProps) {
   const score =
     view === 'toddler'
@@ -80,11 +62,7 @@ export function EventCard({ event, view, onClick }: EventCardProps) {
     ? new Date(event.startDateTime)
     : event.startDateTime;
 
-  const { price, label: priceLabel } = calculateBestPrice(
-    event.adultPrice,
-    event.childPrice,
-    event.familyPrice
-  );
+  const cost = event.familyCost;
 
   return (
     <Card
@@ -167,12 +145,16 @@ export function EventCard({ event, view, onClick }: EventCardProps) {
           {/* Price */}
           <div className="flex items-center gap-2 text-muted-foreground">
             <Euro className="w-4 h-4" />
-            {price === 0 ? (
+            {!cost ? (
+              <span>Cena neuvedena</span>
+            ) : cost.total === 0 ? (
               <span className="text-green-600 font-semibold">Zdarma</span>
             ) : (
               <span>
-                {price} Kč{' '}
-                <span className="text-xs">({priceLabel})</span>
+                {cost.total} Kč{' '}
+                <span className="text-xs">
+                  ({familyTicketLabel(cost)})
+                </span>
               </span>
             )}
           </div>
@@ -38,6 +38,34 @@ api.interceptors.response.use(
   }
 );
 
+/**
+ * What an event or place costs the user's family (CZK), returned with every
+ * event and place; null when prices are unknown
+ */
+export interface FamilyCost {
+  total: number;
+  tickets: 'individual' | 'family';
+  savings?: number;
+  freeEntries: number;
+}
+
+/**
+ * Category of the shared taxonomy; events carry a main category and tags of these ids
+ */
+export interface CategoryLabel {
+  id: string;
+  cs: string;
+  en: string;
+  setting: boolean;
+}
+
+/**
+ * Source each field of a merged event came from, e.g. { prices: 'goout', ages: 'kudyznudy' }
+ */
+export type Provenance = Partial<
+  Record<'title' | 'description' | 'dates' | 'location' | 'category' | 'ages' | 'prices' | 'image' | 'booking', string>
+>;
+
 /**
  * Event API
  */
@@ -51,18 +79,46 @@ export const eventAPI = {
     priceMax?: number;
     distanceMax?: number;
     indoorOnly?: boolean;
+    outdoorOnly?: boolean;
+    setting?: string; // comma-separated: indoor,outdoor,mixed,unknown
+    includeInactive?: boolean;
     limit?: number;
   }) => {
     const response = await api.get('/events', { params });
     return response.data;
   },
 
+  // Get the category taxonomy with Czech and English labels
+  getCategories: async (): Promise<CategoryLabel[]> => {
+    const response = await api.get('/events/categories');
+    return response.data.categories;
+  },
+
   // Get single event
   getEvent: async (id: string) => {
     const response = await api.get(`/events/${id}`);
     return response.data;
   },
 
+  // Get past (archived) events with attendance history
+  getPastEvents: async (params: {
+    dateFrom?: string;
+    dateTo?: string;
+    category?: string;
+    userId?: string;
+    attended?: boolean;
+    limit?: number;
+  } = {}) => {
+    const response = await api.get('/events/past', { params });
+    return response.data;
+  },
+
+  // Get field-level change history of an event
+  getEventHistory: async (id: string) => {
+    const response = await api.get(`/events/${id}/history`);
+    return response.data;
+  },
+
   // Get calendar events (grouped by date)
   getCalendarEvents: async (
     view: 'toddler' | 'child' | 'family',
@@ -102,12 +158,24 @@ export const adminAPI = {
     return response.data;
   },
 
+  // Get scrape run history
+  getScrapeRuns: async (limit = 20) => {
+    const response = await api.get('/admin/scrape/runs', { params: { limit } });
+    return response.data;
+  },
+
   // Get quality stats
   getQualityStats: async () => {
     const response = await api.get('/admin/stats/quality');
     return response.data;
   },
 
+  // Get events listed by several sources, with field provenance
+  getMergedEvents: async (limit = 20) => {
+    const response = await api.get('/admin/events/merged', { params: { limit } });
+    return response.data;
+  },
+
   // Trigger manual scrape
   triggerScrape: async (source?: string) => {
     const response = await api.post('/admin/scrape/trigger', null, {
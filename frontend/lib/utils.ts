@@ -1,6 +1,47 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { FamilyCost, Provenance } from "./api"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+const PROVENANCE_LABELS: Record<keyof Provenance, string> = {
+  title: "title",
+  description: "description",
+  dates: "dates",
+  location: "location",
+  category: "category",
+  ages: "ages",
+  prices: "prices",
+  image: "image",
+  booking: "booking link",
+}
+
+/**
+ * Where the fields of a merged event came from, grouped by source,
+ * e.g. "title, dates and prices from goout; ages from kudyznudy"
+ */
+export function formatProvenance(provenance: Provenance | null | undefined): string {
+  const fieldsBySource = new Map<string, string[]>()
+  for (const field of Object.keys(PROVENANCE_LABELS) as (keyof Provenance)[]) {
+    const source = provenance?.[field]
+    if (source) fieldsBySource.set(source, [...(fieldsBySource.get(source) || []), PROVENANCE_LABELS[field]])
+  }
+
+  return [...fieldsBySource]
+    .map(([source, fields]) => {
+      const list = fields.length > 1 ? `${fields.slice(0, -1).join(", ")} and ${fields[fields.length - 1]}` : fields[0]
+      return `${list} from ${source}`
+    })
+    .join("; ")
+}
+
+/**
+ * Ticket choice behind a family cost; savings are left out when some members
+ * have no individual price to compare with
+ */
+export function familyTicketLabel(cost: FamilyCost): string {
+  if (cost.tickets === "individual") return "Individuální"
+  return cost.savings === undefined ? "Rodinné" : `Rodinné (úspora ${cost.savings} Kč)`
+}